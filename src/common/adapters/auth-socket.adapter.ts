@@ -2,15 +2,22 @@ import { INestApplicationContext, UnauthorizedException } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { JwtService } from '@nestjs/jwt';
 import { IoAdapter } from '@nestjs/platform-socket.io';
-import { Server, Socket } from 'socket.io';
+import { Server, ServerOptions, Socket } from 'socket.io';
 import { JwtPayload } from 'jsonwebtoken';
 
 import { UserService } from '#/modules/user/user.service';
+import { User } from '#/modules/user/entities/user.entity';
+
+// Socket data set on connection, available to gateways as client.data
+export type AuthSocketData = {
+  currentUser: User;
+};
 
 export class AuthSocketAdapter extends IoAdapter {
   private configService: ConfigService;
   private jwtService: JwtService;
   private userService: UserService;
+  private adapterConstructor: ServerOptions['adapter'] | null = null;
 
   constructor(app: INestApplicationContext) {
     super(app);
@@ -22,9 +29,18 @@ export class AuthSocketAdapter extends IoAdapter {
     });
   }
 
+  // Share rooms and broadcasts between api instances (e.g. postgres adapter)
+  setAdapterConstructor(adapterConstructor: ServerOptions['adapter']) {
+    this.adapterConstructor = adapterConstructor;
+  }
+
   createIOServer(port: number, options?: any) {
     const server: Server = super.createIOServer(port, options);
 
+    if (this.adapterConstructor) {
+      server.adapter(this.adapterConstructor);
+    }
+
     server.use(async (socket: Socket, next) => {
       const { token } = socket.handshake?.query || {};
 
@@ -37,7 +53,7 @@ export class AuthSocketAdapter extends IoAdapter {
         }) as JwtPayload;
         // Get current user by email and add to request object
         const user = await this.userService.getOneByEmail(auth.email);
-        (socket as any).currentUser = user;
+        socket.data.currentUser = user;
         return next();
       } catch (error) {
         return next(error);
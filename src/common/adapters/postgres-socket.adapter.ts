@@ -0,0 +1,29 @@
+import { ConfigService } from '@nestjs/config';
+import { createAdapter } from '@socket.io/postgres-adapter';
+import { Pool } from 'pg';
+
+const ATTACHMENTS_TABLE_NAME = 'socket_io_attachments';
+
+// Broadcast socket events across api instances through postgres LISTEN/NOTIFY
+export async function createPostgresSocketAdapter(
+  configService: ConfigService,
+) {
+  const pool = new Pool({
+    host: configService.get<string>('DATABASE_HOST'),
+    port: configService.get<number>('DATABASE_PORT'),
+    user: configService.get<string>('DATABASE_USERNAME'),
+    password: configService.get<string>('DATABASE_PASSWORD'),
+    database: configService.get<string>('DATABASE_NAME'),
+  });
+
+  // Payloads over the NOTIFY size limit are stored in this table
+  await pool.query(`
+    CREATE TABLE IF NOT EXISTS ${ATTACHMENTS_TABLE_NAME} (
+      id bigserial UNIQUE,
+      created_at timestamptz DEFAULT NOW(),
+      payload bytea
+    );
+  `);
+
+  return createAdapter(pool, { tableName: ATTACHMENTS_TABLE_NAME });
+}
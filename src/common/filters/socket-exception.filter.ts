@@ -0,0 +1,36 @@
+import { ArgumentsHost, Catch, HttpException } from '@nestjs/common';
+import { BaseWsExceptionFilter, WsException } from '@nestjs/websockets';
+import { isObject } from '@nestjs/common/utils/shared.utils';
+
+@Catch()
+export class SocketExceptionFilter extends BaseWsExceptionFilter {
+  catch(exception: unknown, host: ArgumentsHost) {
+    const ctx = host.switchToWs();
+    const client = ctx.getClient();
+    // Include source event so clients can tell which message failed
+    const event = ctx.getPattern();
+
+    if (exception instanceof HttpException) {
+      const response = exception.getResponse();
+
+      return client.emit('exception', {
+        status: 'error',
+        event,
+        statusCode: exception.getStatus(),
+        ...(isObject(response) ? response : { message: response }),
+      });
+    }
+
+    if (exception instanceof WsException) {
+      const error = exception.getError();
+
+      return client.emit('exception', {
+        status: 'error',
+        event,
+        ...(isObject(error) ? error : { message: error }),
+      });
+    }
+
+    return super.catch(exception, host);
+  }
+}
@@ -1,4 +1,9 @@
-import { CanActivate, ExecutionContext, UseGuards } from '@nestjs/common';
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  UseGuards,
+} from '@nestjs/common';
 import { UserApprovalStatus, UserRole } from '#/modules/user/enums/user.enum';
 
 export function UseAuthGuard(roles?: UserRole | UserRole[]) {
@@ -9,23 +14,38 @@ class AuthGuard implements CanActivate {
   constructor(private roles: UserRole | UserRole[]) {}
 
   canActivate(context: ExecutionContext) {
-    const request = context.switchToHttp().getRequest();
+    const isSocket = context.getType() === 'ws';
+    // Socket clients get their current user from the auth socket adapter
+    const currentUser = isSocket
+      ? context.switchToWs().getClient().data.currentUser
+      : context.switchToHttp().getRequest().raw.currentUser;
 
+    const isAllowed = this.validateUser(currentUser);
+
+    // Send http error to socket clients instead of a generic ws exception
+    if (!isAllowed && isSocket) {
+      throw new ForbiddenException('Forbidden resource');
+    }
+
+    return isAllowed;
+  }
+
+  validateUser(currentUser) {
     if (
-      !request.raw.currentUser ||
-      request.raw.currentUser.approvalStatus !== UserApprovalStatus.Approved
+      !currentUser ||
+      currentUser.approvalStatus !== UserApprovalStatus.Approved
     ) {
       return false;
     }
 
     if (!this.roles) {
-      return !!request.raw.currentUser;
+      return !!currentUser;
     } else {
       const transformedRoles = Array.isArray(this.roles)
         ? this.roles
         : [this.roles];
 
-      const userRole = request.raw.currentUser.role;
+      const userRole = currentUser.role;
       return transformedRoles.some((role) => role === userRole);
     }
   }
@@ -1,10 +1,28 @@
-export function shuffleArray<T>(array: T[]): T[] {
+export function shuffleArray<T>(
+  array: T[],
+  random: () => number = Math.random,
+): T[] {
   const arrayCopy = [...array];
 
   for (let i = arrayCopy.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
+    const j = Math.floor(random() * (i + 1));
     [arrayCopy[i], arrayCopy[j]] = [arrayCopy[j], arrayCopy[i]];
   }
 
   return arrayCopy;
 }
+
+// Create random number generator (mulberry32) that always returns the same sequence for a seed
+export function generateSeededRandom(seed: string): () => number {
+  let state = [...seed].reduce(
+    (hash, char) => Math.imul(hash ^ char.charCodeAt(0), 16777619),
+    2166136261,
+  );
+
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
@@ -1,4 +1,47 @@
+import { ExActTextType } from '#/common/enums/content.enum';
+
 export const imageValidationOptions = {
   maxSize: 5242880,
   fileTypes: ['jpg', 'jpeg', 'png', 'webp', 'avif'],
 };
+
+// Move uploaded image path to another base folder, e.g. exams/e1/q1/e1-q1.avif to exams/e2/q1/e2-q1.avif
+export function generateClonedImagePath(path: string, baseName: string) {
+  const match = path.match(/\/(exams|activities)\/([^/]+)\//);
+
+  if (!match) {
+    return path;
+  }
+
+  const [, folderName, sourceBaseName] = match;
+
+  return path
+    .replace(`/${folderName}/${sourceBaseName}/`, `/${folderName}/${baseName}/`)
+    .replace(new RegExp(`/${sourceBaseName}-([^/]*)$`), `/${baseName}-$1`);
+}
+
+// Get source and target paths of question, choice and solution images to copy
+export function getClonedImagePaths(
+  questions: {
+    text: string;
+    textType: ExActTextType;
+    solutionImageUrl?: string;
+    choices?: { text: string; textType: ExActTextType }[];
+  }[],
+  imageBaseName: string,
+) {
+  return questions
+    .flatMap((question) => [
+      question,
+      ...(question.choices || []),
+      ...(question.solutionImageUrl
+        ? [{ text: question.solutionImageUrl, textType: ExActTextType.Image }]
+        : []),
+    ])
+    .filter(({ textType }) => textType === ExActTextType.Image)
+    .map(({ text }) => ({
+      fromPath: text,
+      toPath: generateClonedImagePath(text, imageBaseName),
+    }))
+    .filter(({ fromPath, toPath }) => fromPath !== toPath);
+}
@@ -10,6 +10,7 @@ import { contentParser } from 'fastify-multer';
 import { AppModule } from './modules/app.module';
 import { DatabaseExceptionFilter } from './common/filters/database-exception.filter';
 import { AuthSocketAdapter } from './common/adapters/auth-socket.adapter';
+import { createPostgresSocketAdapter } from './common/adapters/postgres-socket.adapter';
 
 async function bootstrap() {
   const app = await NestFactory.create<NestFastifyApplication>(
@@ -55,7 +56,14 @@ async function bootstrap() {
   );
   // Catch database specific errors/exception
   app.useGlobalFilters(new DatabaseExceptionFilter());
-  app.useWebSocketAdapter(new AuthSocketAdapter(app));
+  // Use a shared socket adapter when running multiple api instances
+  const socketAdapter = new AuthSocketAdapter(app);
+  if (configService.get<string>('SOCKET_ADAPTER') === 'postgres') {
+    socketAdapter.setAdapterConstructor(
+      await createPostgresSocketAdapter(configService),
+    );
+  }
+  app.useWebSocketAdapter(socketAdapter);
 
   await app.register(contentParser);
   await app.listen(configService.get<number>('API_PORT') || 3001, '0.0.0.0');
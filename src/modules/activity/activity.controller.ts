@@ -24,10 +24,16 @@ import { StudentActivityListResponseDto } from './dtos/student-activity-list-res
 import { ActivityCategoryCompletionCreateDto } from './dtos/activity-category-completion-create.dto';
 import { ActivityCategoryCompletionUpdateDto } from './dtos/activity-category-completion-update.dto';
 import { ActivityCategoryCompletionResponseDto } from './dtos/activity-category-completion-response.dto';
+import { ActivityCategoryCompletionScoreOverrideCreateDto } from './dtos/activity-category-completion-score-override-create.dto';
+import { ActivityCategoryCompletionScoreOverrideResponseDto } from './dtos/activity-category-completion-score-override-response.dto';
+import { ActivityCategoryImportDto } from './dtos/activity-category-import.dto';
+import { ActivityCategoryResponseDto } from './dtos/activity-category-response.dto';
+import { ActivityCategory } from './entities/activity-category.entity';
 import { ActivityService } from './activity.service';
 
 const TEACHER_URL = '/teachers';
 const STUDENT_URL = '/students';
+const COMPLETION_URL = '/completions';
 
 @Controller('activities')
 export class ActivityController {
@@ -131,6 +137,35 @@ export class ActivityController {
     return this.activityService.update(slug, body, teacherId);
   }
 
+  @Post('/:slug/clone')
+  @UseAuthGuard(UserRole.Teacher)
+  @UseSerializeInterceptor(ActivityResponseDto)
+  clone(
+    @Param('slug') slug: string,
+    @CurrentUser() user: User,
+  ): Promise<Activity> {
+    const { id: teacherId } = user.teacherUserAccount;
+    return this.activityService.cloneBySlugAndTeacherId(slug, teacherId);
+  }
+
+  @Post('/:slug/categories/:categoryId/import')
+  @UseAuthGuard(UserRole.Teacher)
+  @UseSerializeInterceptor(ActivityCategoryResponseDto)
+  importCategoryQuestions(
+    @Param('slug') slug: string,
+    @Param('categoryId') categoryId: number,
+    @Body() body: ActivityCategoryImportDto,
+    @CurrentUser() user: User,
+  ): Promise<ActivityCategory> {
+    const { id: teacherId } = user.teacherUserAccount;
+    return this.activityService.importCategoryQuestions(
+      slug,
+      categoryId,
+      body,
+      teacherId,
+    );
+  }
+
   @Delete('/:slug')
   @UseAuthGuard(UserRole.Teacher)
   delete(
@@ -201,4 +236,36 @@ export class ActivityController {
       studentId,
     );
   }
+
+  // COMPLETIONS
+
+  @Get(`${COMPLETION_URL}/:completionId/score-overrides`)
+  @UseAuthGuard(UserRole.Teacher)
+  @UseSerializeInterceptor(ActivityCategoryCompletionScoreOverrideResponseDto)
+  getCompletionScoreOverrides(
+    @Param('completionId') completionId: number,
+    @CurrentUser() user: User,
+  ) {
+    const { id: teacherId } = user.teacherUserAccount;
+    return this.activityService.getCompletionScoreOverridesByIdAndTeacherId(
+      completionId,
+      teacherId,
+    );
+  }
+
+  @Post(`${COMPLETION_URL}/:completionId/score-overrides`)
+  @UseAuthGuard(UserRole.Teacher)
+  @UseSerializeInterceptor(ActivityCategoryCompletionResponseDto)
+  createCompletionScoreOverride(
+    @Param('completionId') completionId: number,
+    @Body() body: ActivityCategoryCompletionScoreOverrideCreateDto,
+    @CurrentUser() user: User,
+  ) {
+    const { id: teacherId } = user.teacherUserAccount;
+    return this.activityService.createCompletionScoreOverrideByIdAndTeacherId(
+      completionId,
+      body,
+      teacherId,
+    );
+  }
 }
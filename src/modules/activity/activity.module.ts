@@ -1,6 +1,7 @@
 import { Module } from '@nestjs/common';
 import { TypeOrmModule } from '@nestjs/typeorm';
 
+import { CoreModule } from '../core/core.module';
 import { UserModule } from '../user/user.module';
 import { ActivityController } from './activity.controller';
 import { ActivitySubscriber } from './subscribers/activity.subscriber';
@@ -13,6 +14,9 @@ import { ActivityCategoryTypeTime } from './entities/activity-category-type-time
 import { ActivityService } from './activity.service';
 import { ActivityCategoryCompletion } from './entities/activity-category-completion.entity';
 import { ActivityCategoryCompletionQuestionAnswer } from './entities/activity-category-completion-question-answer.entity';
+import { ActivityCategoryDelivery } from './entities/activity-category-delivery.entity';
+import { ActivityCategoryCompletionScoreOverride } from './entities/activity-category-completion-score-override.entity';
+import { ActivityCategoryVersion } from './entities/activity-category-version.entity';
 
 @Module({
   imports: [
@@ -25,7 +29,11 @@ import { ActivityCategoryCompletionQuestionAnswer } from './entities/activity-ca
       ActivityCategoryTypeTime,
       ActivityCategoryCompletion,
       ActivityCategoryCompletionQuestionAnswer,
+      ActivityCategoryDelivery,
+      ActivityCategoryCompletionScoreOverride,
+      ActivityCategoryVersion,
     ]),
+    CoreModule,
     UserModule,
   ],
   controllers: [ActivityController],
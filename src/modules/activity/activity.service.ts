@@ -1,8 +1,10 @@
+import { createHash } from 'crypto';
 import {
   BadRequestException,
   ConflictException,
   Inject,
   Injectable,
+  InternalServerErrorException,
   NotFoundException,
 } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
@@ -16,7 +18,11 @@ import {
 } from 'typeorm';
 
 import { DEFAULT_TAKE } from '#/common/helpers/pagination.helper';
-import { RecordStatus } from '#/common/enums/content.enum';
+import { getClonedImagePaths } from '#/common/helpers/file.helper';
+import { ExActTextType, RecordStatus } from '#/common/enums/content.enum';
+import { ExamQuestionType } from '#/modules/exam/enums/exam.enum';
+import { parseExamFormatQuestions } from '#/modules/exam/helpers/exam-format.helper';
+import { SupabaseService } from '../core/supabase.service';
 import { UserService } from '../user/user.service';
 import {
   ActivityCategoryLevel,
@@ -33,6 +39,22 @@ import { ActivityCategoryQuestionChoice } from './entities/activity-category-que
 import { ActivityCategoryCompletionCreateDto } from './dtos/activity-category-completion-create.dto';
 import { ActivityCategoryCompletionUpdateDto } from './dtos/activity-category-completion-update.dto';
 import { ActivityCategoryCompletion } from './entities/activity-category-completion.entity';
+import { ActivityCategoryCompletionQuestionAnswer } from './entities/activity-category-completion-question-answer.entity';
+import { ActivityCategoryCompletionScoreOverride } from './entities/activity-category-completion-score-override.entity';
+import { ActivityCategoryCompletionScoreOverrideCreateDto } from './dtos/activity-category-completion-score-override-create.dto';
+import { ActivityCategoryImportDto } from './dtos/activity-category-import.dto';
+import { ActivityCategoryDelivery } from './entities/activity-category-delivery.entity';
+import { ActivityCategoryVersion } from './entities/activity-category-version.entity';
+import {
+  generateActivityCategoryDeliveryQuestionIds,
+  generateActivityCategoryVersionQuestions,
+  generateClonedActivityCategory,
+  getActivityCategoryAnswerPoints,
+  getActivityCategoryCompletionScore,
+  getActivityCategoryCompletionStoredScore,
+  getActivityCategoryMaxScore,
+} from './helpers/activity.helper';
+import { ActivityRegradeSummary } from './models/activity.model';
 
 @Injectable()
 export class ActivityService {
@@ -47,8 +69,18 @@ export class ActivityService {
     private readonly activityCategoryQuestionChoiceRepo: Repository<ActivityCategoryQuestionChoice>,
     @InjectRepository(ActivityCategoryCompletion)
     private readonly activityCategoryCompletionRepo: Repository<ActivityCategoryCompletion>,
+    @InjectRepository(ActivityCategoryCompletionQuestionAnswer)
+    private readonly activityCategoryCompletionQuestionAnswerRepo: Repository<ActivityCategoryCompletionQuestionAnswer>,
+    @InjectRepository(ActivityCategoryCompletionScoreOverride)
+    private readonly activityCategoryCompletionScoreOverrideRepo: Repository<ActivityCategoryCompletionScoreOverride>,
+    @InjectRepository(ActivityCategoryDelivery)
+    private readonly activityCategoryDeliveryRepo: Repository<ActivityCategoryDelivery>,
+    @InjectRepository(ActivityCategoryVersion)
+    private readonly activityCategoryVersionRepo: Repository<ActivityCategoryVersion>,
     @Inject(UserService)
     private readonly userService: UserService,
+    @Inject(SupabaseService)
+    private readonly supabaseService: SupabaseService,
   ) {}
 
   async getPaginationTeacherActivitiesByTeacherId(
@@ -378,7 +410,7 @@ export class ActivityService {
     slug: string,
     activityDto: ActivityUpdateDto,
     teacherId: number,
-  ): Promise<Activity> {
+  ): Promise<Activity & { regradeSummary: ActivityRegradeSummary }> {
     const { categories, game, ...moreActivityDto } = activityDto;
 
     // Find activity, throw error if none found
@@ -450,7 +482,7 @@ export class ActivityService {
     });
 
     // Manually query newly created activity since relations aren't returned on creation
-    return await this.activityRepo.findOne({
+    const updatedActivity = await this.activityRepo.findOne({
       where: { id },
       relations: {
         categories: {
@@ -462,6 +494,226 @@ export class ActivityService {
       },
       order: { categories: { level: 'ASC' } },
     });
+
+    // Recompute scores of existing completions with the updated answer keys
+    const regradeSummary =
+      await this.regradeCompletionsByActivity(updatedActivity);
+
+    return { ...updatedActivity, regradeSummary };
+  }
+
+  // Deep copy activity as a new draft with the next order number, completions are not copied
+  async cloneBySlugAndTeacherId(
+    slug: string,
+    teacherId: number,
+  ): Promise<Activity> {
+    const activity = await this.getOneBySlugAndTeacherId(slug, teacherId);
+
+    const maxOrderNumber = await this.activityRepo.maximum('orderNumber', {
+      teacher: { id: teacherId },
+    });
+    const orderNumber = (maxOrderNumber || 0) + 1;
+    // Uploaded activity images are grouped by activity base folder
+    const imageBaseName = `a${orderNumber}`;
+
+    try {
+      await this.supabaseService.copyFiles(
+        getClonedImagePaths(
+          activity.categories.flatMap((category) => category.questions),
+          imageBaseName,
+        ),
+      );
+    } catch (error) {
+      throw new InternalServerErrorException(
+        'An error has occured. Image copy failed',
+      );
+    }
+
+    const newActivity = this.activityRepo.create({
+      status: RecordStatus.Draft,
+      orderNumber,
+      title: activity.title,
+      game: activity.game,
+      description: activity.description,
+      excerpt: activity.excerpt,
+      categories: activity.categories.map((category) =>
+        generateClonedActivityCategory(category, imageBaseName),
+      ),
+      teacher: { id: teacherId },
+    });
+    const { id } = await this.activityRepo.save(newActivity);
+
+    // Manually query newly created activity since relations aren't returned on creation
+    return this.activityRepo.findOne({
+      where: { id },
+      relations: {
+        categories: {
+          questions: { choices: true },
+          typePoint: true,
+          typeTime: true,
+          typeStage: true,
+        },
+      },
+      order: {
+        categories: {
+          level: 'ASC',
+          questions: { orderNumber: 'ASC', choices: { orderNumber: 'ASC' } },
+        },
+      },
+    });
+  }
+
+  // Append questions parsed from Aiken, GIFT or QTI content to a draft activity category
+  async importCategoryQuestions(
+    slug: string,
+    categoryId: number,
+    importDto: ActivityCategoryImportDto,
+    teacherId: number,
+  ): Promise<ActivityCategory> {
+    const category = await this.activityCategoryRepo.findOne({
+      where: {
+        id: categoryId,
+        activity: { slug, teacher: { id: teacherId } },
+      },
+      relations: { activity: true, questions: true },
+    });
+
+    if (!category) {
+      throw new NotFoundException('Activity category not found');
+    } else if (category.activity.status !== RecordStatus.Draft) {
+      throw new BadRequestException('Activity is not a draft');
+    }
+
+    const { questions, errors } = parseExamFormatQuestions(
+      importDto.format,
+      importDto.content,
+    );
+
+    // Activity questions can only have one correct choice
+    const formatErrors = [
+      ...errors,
+      ...questions
+        .filter((q) => q.type !== ExamQuestionType.SingleChoice)
+        .map(({ line }) => ({
+          line,
+          message: 'Only single choice questions are supported',
+        })),
+    ].sort((eA, eB) => eA.line - eB.line);
+
+    if (formatErrors.length) {
+      throw new BadRequestException(
+        formatErrors.map(({ line, message }) => `Line ${line}: ${message}`),
+      );
+    }
+
+    const lastOrderNumber = Math.max(
+      0,
+      ...category.questions.map((q) => q.orderNumber),
+    );
+
+    const newQuestions = questions.map(({ text, choices }, index) =>
+      this.activityCategoryQuestionRepo.create({
+        orderNumber: lastOrderNumber + index + 1,
+        text,
+        textType: ExActTextType.Text,
+        activityCategory: { id: category.id },
+        choices: choices.map((choice, choiceIndex) => ({
+          orderNumber: choiceIndex + 1,
+          text: choice.text,
+          textType: ExActTextType.Text,
+          isCorrect: choice.isCorrect,
+        })),
+      }),
+    );
+
+    await this.activityCategoryQuestionRepo.save(newQuestions);
+
+    return this.activityCategoryRepo.findOne({
+      where: { id: category.id },
+      relations: {
+        questions: { choices: true },
+        typePoint: true,
+        typeTime: true,
+        typeStage: true,
+      },
+      order: {
+        questions: { orderNumber: 'ASC', choices: { orderNumber: 'ASC' } },
+      },
+    });
+  }
+
+  // Activity should include its categories with questions (with choices) and type configs
+  async regradeCompletionsByActivity(
+    activity: Activity,
+  ): Promise<ActivityRegradeSummary> {
+    const { type } = activity.game;
+
+    const completions = await this.activityCategoryCompletionRepo.find({
+      where: {
+        activityCategory: { id: In(activity.categories.map((c) => c.id)) },
+      },
+      relations: {
+        activityCategory: true,
+        student: true,
+        version: true,
+        regradedVersion: true,
+        questionAnswers: { question: true, selectedQuestionChoice: true },
+      },
+      // Keep answers of questions removed after completion
+      withDeleted: true,
+    });
+
+    // Completions keep the version they were taken against, regrade is recorded separately
+    const versions = await Promise.all(
+      activity.categories.map((category) =>
+        this.getOrCreateActivityCategoryVersion(category),
+      ),
+    );
+
+    const changedScores = [];
+
+    for (const completion of completions) {
+      const categoryIndex = activity.categories.findIndex(
+        (c) => c.id === completion.activityCategory.id,
+      );
+      const activityCategory = activity.categories[categoryIndex];
+      const version = versions[categoryIndex];
+      const score = getActivityCategoryCompletionStoredScore(
+        activityCategory,
+        type,
+        completion,
+      );
+
+      if (
+        score === completion.score &&
+        (completion.regradedVersion || completion.version)?.id === version.id
+      ) {
+        continue;
+      }
+
+      await this.activityCategoryCompletionRepo.update(
+        { id: completion.id },
+        {
+          score,
+          regradedVersion: { id: version.id },
+          regradedAt: new Date(),
+        },
+      );
+
+      if (score === completion.score) {
+        continue;
+      }
+
+      changedScores.push({
+        completionId: completion.id,
+        activityCategoryId: activityCategory.id,
+        studentId: completion.student.id,
+        previousScore: completion.score,
+        score,
+      });
+    }
+
+    return { regradedCount: completions.length, changedScores };
   }
 
   async deleteBySlug(slug: string, teacherId: number): Promise<boolean> {
@@ -495,7 +747,8 @@ export class ActivityService {
     const questionsToDelete = sourceCategory.questions.filter(
       (q) => !targetQuestionIds.includes(q.id),
     );
-    await this.activityCategoryQuestionRepo.remove(questionsToDelete);
+    // Soft delete so answers of existing completions keep their questions
+    await this.activityCategoryQuestionRepo.softRemove(questionsToDelete);
 
     // Delete choices not included in update
     await Promise.all(
@@ -514,7 +767,9 @@ export class ActivityService {
           const choicesToDelete = currentQuestion.choices.filter(
             (c) => !targetChoiceIds.includes(c.id),
           );
-          await this.activityCategoryQuestionChoiceRepo.remove(choicesToDelete);
+          await this.activityCategoryQuestionChoiceRepo.softRemove(
+            choicesToDelete,
+          );
         }),
     );
   }
@@ -617,6 +872,23 @@ export class ActivityService {
       studentId,
     );
 
+    // Only serve the questions picked for current student
+    const categories = await Promise.all(
+      transformedActivity.categories.map(async (category) => {
+        const { questionIds } = await this.getOrCreateActivityCategoryDelivery(
+          category,
+          activity.game.type,
+          studentId,
+        );
+
+        const questions = questionIds
+          .map((id) => category.questions.find((q) => q.id === id))
+          .filter((q) => !!q);
+
+        return { ...category, questions };
+      }),
+    );
+
     const studentRankings = await this.generateActivityRankings(
       activity,
       teacher.id,
@@ -628,10 +900,103 @@ export class ActivityService {
 
     return {
       ...transformedActivity,
+      categories,
       rank,
     };
   }
 
+  // Activity category should include its questions
+  async getOrCreateActivityCategoryDelivery(
+    activityCategory: ActivityCategory,
+    type: string,
+    studentId: number,
+  ): Promise<ActivityCategoryDelivery> {
+    const where: FindOptionsWhere<ActivityCategoryDelivery> = {
+      activityCategory: { id: activityCategory.id },
+      student: { id: studentId },
+    };
+
+    const delivery = await this.activityCategoryDeliveryRepo.findOne({
+      where,
+    });
+
+    // Pick questions again if category questions were updated
+    const isStale = delivery?.questionIds.some(
+      (id) => !activityCategory.questions.some((q) => q.id === id),
+    );
+
+    if (delivery && !isStale) {
+      return delivery;
+    }
+
+    const questionIds = generateActivityCategoryDeliveryQuestionIds(
+      activityCategory,
+      type,
+    );
+
+    if (delivery) {
+      return this.activityCategoryDeliveryRepo.save({
+        ...delivery,
+        questionIds,
+      });
+    }
+
+    // Ignore insert if the same delivery was created by a concurrent request
+    await this.activityCategoryDeliveryRepo
+      .createQueryBuilder()
+      .insert()
+      .values({
+        questionIds,
+        activityCategory: { id: activityCategory.id },
+        student: { id: studentId },
+      })
+      .orIgnore()
+      .execute();
+
+    return this.activityCategoryDeliveryRepo.findOne({ where });
+  }
+
+  // Activity category should include its questions (with choices).
+  // Reuse the latest version if category questions did not change since
+  async getOrCreateActivityCategoryVersion(
+    activityCategory: ActivityCategory,
+  ): Promise<ActivityCategoryVersion> {
+    const versionQuestions = generateActivityCategoryVersionQuestions(
+      activityCategory.questions,
+    );
+    const checksum = createHash('sha256')
+      .update(JSON.stringify(versionQuestions))
+      .digest('hex');
+
+    const latestVersion = await this.activityCategoryVersionRepo.findOne({
+      where: { activityCategory: { id: activityCategory.id } },
+      order: { versionNumber: 'DESC' },
+    });
+
+    if (latestVersion?.checksum === checksum) {
+      return latestVersion;
+    }
+
+    const versionNumber = (latestVersion?.versionNumber || 0) + 1;
+
+    // Ignore insert if the same version was created by a concurrent request
+    await this.activityCategoryVersionRepo
+      .createQueryBuilder()
+      .insert()
+      .values({
+        versionNumber,
+        checksum,
+        questions: versionQuestions,
+        activityCategory: { id: activityCategory.id },
+      })
+      .orIgnore()
+      .execute();
+
+    return this.activityCategoryVersionRepo.findOne({
+      where: { activityCategory: { id: activityCategory.id }, versionNumber },
+    });
+  }
+
   async createActivityCategoryCompletionBySlugAndStudentId(
     body: ActivityCategoryCompletionCreateDto,
     slug: string,
@@ -647,6 +1012,7 @@ export class ActivityService {
       },
       relations: {
         activity: true,
+        questions: { choices: true },
         typePoint: true,
         typeTime: true,
         typeStage: true,
@@ -657,6 +1023,25 @@ export class ActivityService {
       throw new NotFoundException('Activity not available');
     }
 
+    // Pin completion to the questions the student was graded against
+    const version =
+      await this.getOrCreateActivityCategoryVersion(activityCategory);
+
+    const { type } = activityCategory.activity.game;
+    const { questionIds: servedQuestionIds } =
+      await this.getOrCreateActivityCategoryDelivery(
+        activityCategory,
+        type,
+        studentId,
+      );
+
+    // Reject answers of questions not served to student
+    if (
+      questionAnswers.some((a) => !servedQuestionIds.includes(a.questionId))
+    ) {
+      throw new BadRequestException('Answer has an invalid question');
+    }
+
     // Delete existing completions of same category id and level
     await this.activityCategoryCompletionRepo.delete({
       activityCategory: {
@@ -674,27 +1059,13 @@ export class ActivityService {
       relations: { choices: true },
     });
 
-    const correctCount = questionAnswers.reduce(
-      (acc, { questionId, selectedQuestionChoiceId }) => {
-        if (!questionId || !selectedQuestionChoiceId) {
-          return acc;
-        }
-
-        const question = categoryQuestions.find((q) => q.id === questionId);
-        const choice = question
-          ? question.choices.find((c) => c.id === selectedQuestionChoiceId)
-          : null;
-
-        return choice.isCorrect ? acc + 1 : acc;
-      },
-      0,
+    const score = getActivityCategoryCompletionScore(
+      activityCategory,
+      type,
+      categoryQuestions,
+      questionAnswers,
     );
 
-    const score =
-      activityCategory.activity.game.type === ActivityCategoryType.Point
-        ? correctCount * activityCategory.typePoint.pointsPerQuestion
-        : correctCount;
-
     const newQuestionAnswers = questionAnswers.map(
       ({ questionId, selectedQuestionChoiceId }) => ({
         question: { id: questionId },
@@ -706,9 +1077,15 @@ export class ActivityService {
 
     const completion = this.activityCategoryCompletionRepo.create({
       score,
+      maxScore: getActivityCategoryMaxScore(
+        activityCategory,
+        type,
+        servedQuestionIds.length,
+      ),
       timeCompletedSeconds,
       submittedAt: new Date(),
       activityCategory,
+      version,
       questionAnswers: newQuestionAnswers,
       student: { id: studentId },
     });
@@ -731,6 +1108,7 @@ export class ActivityService {
       },
       relations: {
         activity: true,
+        questions: { choices: true },
         typePoint: true,
         typeTime: true,
         typeStage: true,
@@ -741,6 +1119,25 @@ export class ActivityService {
       throw new NotFoundException('Activity not available');
     }
 
+    // Pin completion to the questions the student was graded against
+    const version =
+      await this.getOrCreateActivityCategoryVersion(activityCategory);
+
+    const { type } = activityCategory.activity.game;
+    const { questionIds: servedQuestionIds } =
+      await this.getOrCreateActivityCategoryDelivery(
+        activityCategory,
+        type,
+        studentId,
+      );
+
+    // Reject answers of questions not served to student
+    if (
+      questionAnswers.some((a) => !servedQuestionIds.includes(a.questionId))
+    ) {
+      throw new BadRequestException('Answer has an invalid question');
+    }
+
     const categoryQuestions = await this.activityCategoryQuestionRepo.find({
       where: {
         id: In(questionAnswers.map((a) => a.questionId)),
@@ -749,27 +1146,13 @@ export class ActivityService {
       relations: { choices: true },
     });
 
-    const correctCount = questionAnswers.reduce(
-      (acc, { questionId, selectedQuestionChoiceId }) => {
-        if (!questionId || !selectedQuestionChoiceId) {
-          return acc;
-        }
-
-        const question = categoryQuestions.find((q) => q.id === questionId);
-        const choice = question
-          ? question.choices.find((c) => c.id === selectedQuestionChoiceId)
-          : null;
-
-        return choice.isCorrect ? acc + 1 : acc;
-      },
-      0,
+    const score = getActivityCategoryCompletionScore(
+      activityCategory,
+      type,
+      categoryQuestions,
+      questionAnswers,
     );
 
-    const score =
-      activityCategory.activity.game.type === ActivityCategoryType.Point
-        ? correctCount * activityCategory.typePoint.pointsPerQuestion
-        : correctCount;
-
     const newQuestionAnswers = questionAnswers.map(
       ({ questionId, selectedQuestionChoiceId }) => ({
         question: { id: questionId },
@@ -781,14 +1164,148 @@ export class ActivityService {
 
     return this.activityCategoryCompletionRepo.save({
       score,
+      maxScore: getActivityCategoryMaxScore(
+        activityCategory,
+        type,
+        servedQuestionIds.length,
+      ),
       timeCompletedSeconds,
       submittedAt: new Date(),
       activityCategory,
+      version,
       questionAnswers: newQuestionAnswers,
       student: { id: studentId },
     });
   }
 
+  // TEACHER COMPLETIONS
+
+  getCompletionScoreOverridesByIdAndTeacherId(
+    completionId: number,
+    teacherId: number,
+  ): Promise<ActivityCategoryCompletionScoreOverride[]> {
+    return this.activityCategoryCompletionScoreOverrideRepo.find({
+      where: {
+        completion: {
+          id: completionId,
+          activityCategory: { activity: { teacher: { id: teacherId } } },
+        },
+      },
+      relations: { questionAnswer: { question: true }, teacher: true },
+      order: { createdAt: 'DESC' },
+    });
+  }
+
+  // Override score of the whole completion or points of a single answer,
+  // completion score is recomputed so rankings use the adjusted score
+  async createCompletionScoreOverrideByIdAndTeacherId(
+    completionId: number,
+    scoreOverrideDto: ActivityCategoryCompletionScoreOverrideCreateDto,
+    teacherId: number,
+  ): Promise<ActivityCategoryCompletion> {
+    const { score, reason, questionAnswerId } = scoreOverrideDto;
+
+    const completion = await this.activityCategoryCompletionRepo.findOne({
+      where: {
+        id: completionId,
+        activityCategory: { activity: { teacher: { id: teacherId } } },
+      },
+      relations: {
+        activityCategory: {
+          activity: true,
+          questions: { choices: true },
+          typePoint: true,
+        },
+        questionAnswers: { question: true, selectedQuestionChoice: true },
+      },
+      withDeleted: true,
+    });
+
+    if (!completion) {
+      throw new NotFoundException('Activity completion not found');
+    }
+
+    const { activityCategory } = completion;
+    const { type } = activityCategory.activity.game;
+    let previousScore = completion.score;
+
+    if (questionAnswerId) {
+      const questionAnswer = completion.questionAnswers.find(
+        (qa) => qa.id === questionAnswerId,
+      );
+
+      if (!questionAnswer?.question) {
+        throw new NotFoundException('Question answer not found');
+      }
+
+      if (score > getActivityCategoryAnswerPoints(activityCategory, type)) {
+        throw new BadRequestException('Score is more than question points');
+      }
+
+      previousScore =
+        questionAnswer.overriddenPoints ??
+        getActivityCategoryCompletionScore(
+          activityCategory,
+          type,
+          activityCategory.questions,
+          [
+            {
+              questionId: questionAnswer.question.id,
+              selectedQuestionChoiceId:
+                questionAnswer.selectedQuestionChoice?.id,
+            },
+          ],
+        );
+
+      await this.activityCategoryCompletionQuestionAnswerRepo.update(
+        { id: questionAnswer.id },
+        { overriddenPoints: score },
+      );
+      questionAnswer.overriddenPoints = score;
+    } else {
+      if (completion.maxScore != null && score > completion.maxScore) {
+        throw new BadRequestException('Score is more than max score');
+      }
+
+      completion.overriddenScore = score;
+    }
+
+    await this.activityCategoryCompletionRepo.update(
+      { id: completion.id },
+      {
+        score: getActivityCategoryCompletionStoredScore(
+          activityCategory,
+          type,
+          completion,
+        ),
+        overriddenScore: completion.overriddenScore,
+        isScoreAdjusted: true,
+      },
+    );
+
+    const scoreOverride =
+      this.activityCategoryCompletionScoreOverrideRepo.create({
+        previousScore,
+        score,
+        reason,
+        completion: { id: completion.id },
+        questionAnswer: questionAnswerId ? { id: questionAnswerId } : null,
+        teacher: { id: teacherId },
+      });
+    await this.activityCategoryCompletionScoreOverrideRepo.save(scoreOverride);
+
+    return this.activityCategoryCompletionRepo.findOne({
+      where: { id: completion.id },
+      relations: {
+        student: true,
+        version: true,
+        questionAnswers: { question: true },
+        scoreOverrides: { questionAnswer: true, teacher: true },
+      },
+      withDeleted: true,
+    });
+  }
+
   // MISC
 
   async validateCreateActivity(
@@ -1041,7 +1558,7 @@ export class ActivityService {
         activityCategory: { id: In(categoryIds) },
         student: { id: studentId },
       },
-      relations: { activityCategory: true },
+      relations: { activityCategory: true, version: true },
     });
 
     let categories: ActivityCategory[] = [];
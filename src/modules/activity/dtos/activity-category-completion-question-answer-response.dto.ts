@@ -17,4 +17,7 @@ export class ActivityCategoryCompletionQuestionAnswerResponseDto extends BaseRes
   @Expose()
   @Type(() => ActivityCategoryQuestionChoiceResponseDto)
   selectedQuestionChoice: ActivityCategoryQuestionChoiceResponseDto;
+
+  @Expose()
+  overriddenPoints: number | null;
 }
@@ -4,11 +4,22 @@ import { BaseResponseDto } from '#/common/dtos/base-response.dto';
 import { StudentUserResponseDto } from '#/modules/user/dtos/student-user-response.dto';
 import { ActivityCategoryCompletionQuestionAnswerResponseDto } from './activity-category-completion-question-answer-response.dto';
 import { ActivityCategoryResponseDto } from './activity-category-response.dto';
+import { ActivityCategoryCompletionScoreOverrideResponseDto } from './activity-category-completion-score-override-response.dto';
+import { ActivityCategoryVersionResponseDto } from './activity-category-version-response.dto';
 
 export class ActivityCategoryCompletionResponseDto extends BaseResponseDto {
   @Expose()
   score: number | null;
 
+  @Expose()
+  maxScore: number | null;
+
+  @Expose()
+  overriddenScore: number | null;
+
+  @Expose()
+  isScoreAdjusted: boolean;
+
   @Expose()
   timeCompletedSeconds: number | null;
 
@@ -19,6 +30,13 @@ export class ActivityCategoryCompletionResponseDto extends BaseResponseDto {
   @Type(() => ActivityCategoryResponseDto)
   activityCategory: ActivityCategoryResponseDto;
 
+  @Expose()
+  @Type(() => ActivityCategoryVersionResponseDto)
+  version: ActivityCategoryVersionResponseDto;
+
+  @Expose()
+  regradedAt: string;
+
   @Expose()
   @Type(() => ActivityCategoryCompletionQuestionAnswerResponseDto)
   questionAnswers: ActivityCategoryCompletionQuestionAnswerResponseDto[];
@@ -26,4 +44,8 @@ export class ActivityCategoryCompletionResponseDto extends BaseResponseDto {
   @Expose()
   @Type(() => StudentUserResponseDto)
   student: StudentUserResponseDto;
+
+  @Expose()
+  @Type(() => ActivityCategoryCompletionScoreOverrideResponseDto)
+  scoreOverrides: ActivityCategoryCompletionScoreOverrideResponseDto[];
 }
@@ -0,0 +1,12 @@
+import { IsEnum, IsString, MinLength } from 'class-validator';
+
+import { ExamQuestionFormat } from '#/modules/exam/enums/exam.enum';
+
+export class ActivityCategoryImportDto {
+  @IsEnum(ExamQuestionFormat)
+  format: ExamQuestionFormat;
+
+  @IsString()
+  @MinLength(1)
+  content: string;
+}
@@ -34,6 +34,14 @@ export class ActivityCategoryQuestionCreateDto {
   @IsOptional()
   hintText: string;
 
+  @IsString()
+  @IsOptional()
+  explanationText: string;
+
+  @IsString()
+  @IsOptional()
+  solutionImageUrl: string;
+
   @IsInt()
   @IsPositive()
   @IsOptional()
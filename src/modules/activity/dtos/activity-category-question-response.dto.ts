@@ -21,6 +21,12 @@ export class ActivityCategoryQuestionResponseDto extends BaseResponseDto {
   @Expose()
   hintText: string;
 
+  @Expose()
+  explanationText: string;
+
+  @Expose()
+  solutionImageUrl: string;
+
   @Expose()
   @Type(() => ActivityCategoryResponseDto)
   activityCategory: ActivityCategoryResponseDto;
@@ -42,6 +42,14 @@ export class ActivityCategoryQuestionUpdateDto {
   @IsOptional()
   hintText: string;
 
+  @IsString()
+  @IsOptional()
+  explanationText: string;
+
+  @IsString()
+  @IsOptional()
+  solutionImageUrl: string;
+
   @IsArray()
   @ArrayNotEmpty()
   @ArrayMinSize(2)
@@ -0,0 +1,13 @@
+import { Expose, Type } from 'class-transformer';
+
+import { BaseResponseDto } from '#/common/dtos/base-response.dto';
+import { ActivityCategoryQuestionResponseDto } from './activity-category-question-response.dto';
+
+export class ActivityCategoryVersionResponseDto extends BaseResponseDto {
+  @Expose()
+  versionNumber: number;
+
+  @Expose()
+  @Type(() => ActivityCategoryQuestionResponseDto)
+  questions: ActivityCategoryQuestionResponseDto[];
+}
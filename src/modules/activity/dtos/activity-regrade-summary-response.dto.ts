@@ -0,0 +1,12 @@
+import { Expose, Type } from 'class-transformer';
+
+import { ActivityRegradedScoreResponseDto } from './activity-regraded-score-response.dto';
+
+export class ActivityRegradeSummaryResponseDto {
+  @Expose()
+  regradedCount: number;
+
+  @Expose()
+  @Type(() => ActivityRegradedScoreResponseDto)
+  changedScores: ActivityRegradedScoreResponseDto[];
+}
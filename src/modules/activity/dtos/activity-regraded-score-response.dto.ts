@@ -0,0 +1,18 @@
+import { Expose } from 'class-transformer';
+
+export class ActivityRegradedScoreResponseDto {
+  @Expose()
+  completionId: number;
+
+  @Expose()
+  activityCategoryId: number;
+
+  @Expose()
+  studentId: number;
+
+  @Expose()
+  previousScore: number;
+
+  @Expose()
+  score: number;
+}
@@ -3,6 +3,7 @@ import { Expose, Type } from 'class-transformer';
 import { RecordStatus } from '#/common/enums/content.enum';
 import { BaseResponseDto } from '#/common/dtos/base-response.dto';
 import { ActivityCategoryResponseDto } from './activity-category-response.dto';
+import { ActivityRegradeSummaryResponseDto } from './activity-regrade-summary-response.dto';
 
 export class ActivityResponseDto extends BaseResponseDto {
   @Expose()
@@ -35,4 +36,8 @@ export class ActivityResponseDto extends BaseResponseDto {
 
   @Expose()
   rank: number | null;
+
+  @Expose()
+  @Type(() => ActivityRegradeSummaryResponseDto)
+  regradeSummary: ActivityRegradeSummaryResponseDto;
 }
@@ -1,4 +1,4 @@
-import { Entity, ManyToOne } from 'typeorm';
+import { Column, Entity, ManyToOne } from 'typeorm';
 
 import { Base as BaseEntity } from '#/common/entities/base.entity';
 import { ActivityCategoryCompletion } from './activity-category-completion.entity';
@@ -29,4 +29,8 @@ export class ActivityCategoryCompletionQuestionAnswer extends BaseEntity {
     { nullable: true },
   )
   selectedQuestionChoice: ActivityCategoryQuestionChoice;
+
+  // Points set by teacher, replaces the computed points of the answer
+  @Column({ type: 'int', nullable: true })
+  overriddenPoints: number;
 }
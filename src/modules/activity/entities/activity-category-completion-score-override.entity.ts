@@ -0,0 +1,35 @@
+import { Column, Entity, ManyToOne } from 'typeorm';
+
+import { Base as BaseEntity } from '#/common/entities/base.entity';
+import { TeacherUserAccount } from '#/modules/user/entities/teacher-user-account.entity';
+import { ActivityCategoryCompletion } from './activity-category-completion.entity';
+import { ActivityCategoryCompletionQuestionAnswer } from './activity-category-completion-question-answer.entity';
+
+// Audit trail of teacher score overrides, score is the answer points if a question answer is overridden
+@Entity()
+export class ActivityCategoryCompletionScoreOverride extends BaseEntity {
+  @Column({ type: 'int', nullable: true })
+  previousScore: number;
+
+  @Column({ type: 'int' })
+  score: number;
+
+  @Column({ type: 'text' })
+  reason: string;
+
+  @ManyToOne(
+    () => ActivityCategoryCompletion,
+    (activityCategoryCompletion) => activityCategoryCompletion.scoreOverrides,
+    { onDelete: 'CASCADE' },
+  )
+  completion: ActivityCategoryCompletion;
+
+  @ManyToOne(() => ActivityCategoryCompletionQuestionAnswer, {
+    nullable: true,
+    onDelete: 'CASCADE',
+  })
+  questionAnswer: ActivityCategoryCompletionQuestionAnswer;
+
+  @ManyToOne(() => TeacherUserAccount)
+  teacher: TeacherUserAccount;
+}
@@ -10,12 +10,25 @@ import { Base as BaseEntity } from '#/common/entities/base.entity';
 import { StudentUserAccount } from '#/modules/user/entities/student-user-account.entity';
 import { ActivityCategory } from './activity-category.entity';
 import { ActivityCategoryCompletionQuestionAnswer } from './activity-category-completion-question-answer.entity';
+import { ActivityCategoryVersion } from './activity-category-version.entity';
+import { ActivityCategoryCompletionScoreOverride } from './activity-category-completion-score-override.entity';
 
 @Entity()
 export class ActivityCategoryCompletion extends BaseEntity {
   @Column({ type: 'int', nullable: true, default: null })
   score: number;
 
+  // Max score of the questions served to student
+  @Column({ type: 'int', nullable: true })
+  maxScore: number;
+
+  // Score set by teacher for the whole completion, replaces the computed score
+  @Column({ type: 'int', nullable: true })
+  overriddenScore: number;
+
+  @Column({ type: 'boolean', default: false })
+  isScoreAdjusted: boolean;
+
   @Column({ type: 'int', nullable: true })
   timeCompletedSeconds: number;
 
@@ -31,6 +44,23 @@ export class ActivityCategoryCompletion extends BaseEntity {
   )
   activityCategory: ActivityCategory;
 
+  // Questions the completion was graded against
+  @ManyToOne(() => ActivityCategoryVersion, {
+    nullable: true,
+    onDelete: 'SET NULL',
+  })
+  version: ActivityCategoryVersion;
+
+  // Questions the completion was last regraded against, version stays as taken
+  @ManyToOne(() => ActivityCategoryVersion, {
+    nullable: true,
+    onDelete: 'SET NULL',
+  })
+  regradedVersion: ActivityCategoryVersion;
+
+  @Column({ type: 'timestamp', nullable: true })
+  regradedAt: Date;
+
   @OneToMany(
     () => ActivityCategoryCompletionQuestionAnswer,
     (activityCategoryCompletionQuestionAnswer) =>
@@ -39,6 +69,13 @@ export class ActivityCategoryCompletion extends BaseEntity {
   )
   questionAnswers: ActivityCategoryCompletionQuestionAnswer[];
 
+  @OneToMany(
+    () => ActivityCategoryCompletionScoreOverride,
+    (activityCategoryCompletionScoreOverride) =>
+      activityCategoryCompletionScoreOverride.completion,
+  )
+  scoreOverrides: ActivityCategoryCompletionScoreOverride[];
+
   @ManyToOne(
     () => StudentUserAccount,
     (studentUserAccount) => studentUserAccount.activityCompletions,
@@ -0,0 +1,19 @@
+import { Column, Entity, Index, ManyToOne } from 'typeorm';
+
+import { Base as BaseEntity } from '#/common/entities/base.entity';
+import { StudentUserAccount } from '#/modules/user/entities/student-user-account.entity';
+import { ActivityCategory } from './activity-category.entity';
+
+// Questions (in order) served to a student for an activity category
+@Entity()
+@Index(['activityCategory', 'student'], { unique: true })
+export class ActivityCategoryDelivery extends BaseEntity {
+  @Column({ type: 'int', array: true, default: [] })
+  questionIds: number[];
+
+  @ManyToOne(() => ActivityCategory, { onDelete: 'CASCADE' })
+  activityCategory: ActivityCategory;
+
+  @ManyToOne(() => StudentUserAccount, { onDelete: 'CASCADE' })
+  student: StudentUserAccount;
+}
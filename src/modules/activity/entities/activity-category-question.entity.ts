@@ -27,6 +27,13 @@ export class ActivityCategoryQuestion extends BaseEntity {
   @Column({ type: 'text', nullable: true })
   hintText: string;
 
+  @Column({ type: 'text', nullable: true })
+  explanationText: string;
+
+  // Image path of the worked solution
+  @Column({ type: 'text', nullable: true })
+  solutionImageUrl: string;
+
   @ManyToOne(
     () => ActivityCategory,
     (activityCategory) => activityCategory.questions,
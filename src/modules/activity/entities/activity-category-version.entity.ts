@@ -0,0 +1,23 @@
+import { Column, Entity, Index, ManyToOne } from 'typeorm';
+
+import { Base as BaseEntity } from '#/common/entities/base.entity';
+import { ActivityCategoryVersionQuestion } from '../models/activity.model';
+import { ActivityCategory } from './activity-category.entity';
+
+// Immutable snapshot of category questions, completions are graded against a version
+@Entity()
+@Index(['activityCategory', 'versionNumber'], { unique: true })
+export class ActivityCategoryVersion extends BaseEntity {
+  @Column({ type: 'int' })
+  versionNumber: number;
+
+  // Hash of the questions snapshot, used to skip creating identical versions
+  @Column({ type: 'varchar', length: 64 })
+  checksum: string;
+
+  @Column({ type: 'jsonb', default: [] })
+  questions: ActivityCategoryVersionQuestion[];
+
+  @ManyToOne(() => ActivityCategory, { onDelete: 'CASCADE' })
+  activityCategory: ActivityCategory;
+}
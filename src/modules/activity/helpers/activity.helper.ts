@@ -0,0 +1,203 @@
+import { DeepPartial } from 'typeorm';
+
+import { ExActTextType } from '#/common/enums/content.enum';
+import { shuffleArray } from '#/common/helpers/array.helper';
+import { generateClonedImagePath } from '#/common/helpers/file.helper';
+import { ActivityCategoryType } from '../enums/activity.enum';
+import { ActivityCategory } from '../entities/activity-category.entity';
+import { ActivityCategoryQuestion } from '../entities/activity-category-question.entity';
+import { ActivityCategoryCompletion } from '../entities/activity-category-completion.entity';
+import { ActivityCategoryVersionQuestion } from '../models/activity.model';
+
+// Pick activity category questions for a student, cut down to visible questions count if there are more.
+// Stage type serves all questions since each stage needs its own questions
+export function generateActivityCategoryDeliveryQuestionIds(
+  activityCategory: ActivityCategory,
+  type: string,
+) {
+  const { questions, visibleQuestionsCount, randomizeQuestions } =
+    activityCategory;
+
+  let targetQuestions = [...questions].sort(
+    (qA, qB) => qA.orderNumber - qB.orderNumber,
+  );
+
+  if (
+    type !== ActivityCategoryType.Stage &&
+    visibleQuestionsCount &&
+    targetQuestions.length > visibleQuestionsCount
+  ) {
+    const visibleQuestionIds = shuffleArray(targetQuestions)
+      .slice(0, visibleQuestionsCount)
+      .map((q) => q.id);
+
+    targetQuestions = targetQuestions.filter((q) =>
+      visibleQuestionIds.includes(q.id),
+    );
+  }
+
+  if (randomizeQuestions) {
+    targetQuestions = shuffleArray(targetQuestions);
+  }
+
+  return targetQuestions.map((q) => q.id);
+}
+
+// Get max score base on the questions served to student
+export function getActivityCategoryMaxScore(
+  activityCategory: ActivityCategory,
+  type: string,
+  servedQuestionsCount: number,
+) {
+  return type === ActivityCategoryType.Point
+    ? servedQuestionsCount * activityCategory.typePoint.pointsPerQuestion
+    : servedQuestionsCount;
+}
+
+export function getActivityCategoryAnswerPoints(
+  activityCategory: ActivityCategory,
+  type: string,
+) {
+  return type === ActivityCategoryType.Point
+    ? activityCategory.typePoint.pointsPerQuestion
+    : 1;
+}
+
+// Get score base on correct answers, point type gives points per correct answer.
+// Points overrides are keyed by question id, and replace the computed points of the answer
+export function getActivityCategoryCompletionScore(
+  activityCategory: ActivityCategory,
+  type: string,
+  questions: ActivityCategoryQuestion[],
+  questionAnswers: { questionId: number; selectedQuestionChoiceId?: number }[],
+  pointsOverrides: Record<number, number> = {},
+) {
+  const points = getActivityCategoryAnswerPoints(activityCategory, type);
+
+  return questionAnswers.reduce(
+    (acc, { questionId, selectedQuestionChoiceId }) => {
+      if (pointsOverrides[questionId] != null) {
+        return acc + pointsOverrides[questionId];
+      }
+
+      if (!questionId || !selectedQuestionChoiceId) {
+        return acc;
+      }
+
+      const question = questions.find((q) => q.id === questionId);
+      const choice = question
+        ? question.choices.find((c) => c.id === selectedQuestionChoiceId)
+        : null;
+
+      return choice?.isCorrect ? acc + points : acc;
+    },
+    0,
+  );
+}
+
+// Get completion score from stored answers, with teacher overrides applied.
+// Activity category should include its questions (with choices) and type configs
+export function getActivityCategoryCompletionStoredScore(
+  activityCategory: ActivityCategory,
+  type: string,
+  completion: ActivityCategoryCompletion,
+) {
+  if (completion.overriddenScore != null) {
+    return completion.overriddenScore;
+  }
+
+  const questionAnswers = completion.questionAnswers.filter(
+    (qa) => !!qa.question,
+  );
+
+  return getActivityCategoryCompletionScore(
+    activityCategory,
+    type,
+    activityCategory.questions,
+    questionAnswers.map(({ question, selectedQuestionChoice }) => ({
+      questionId: question.id,
+      selectedQuestionChoiceId: selectedQuestionChoice?.id,
+    })),
+    questionAnswers
+      .filter((qa) => qa.overriddenPoints != null)
+      .reduce(
+        (acc, qa) => ({ ...acc, [qa.question.id]: qa.overriddenPoints }),
+        {} as Record<number, number>,
+      ),
+  );
+}
+
+// Copy activity category (with questions, choices and type configs) as new rows,
+// image paths are moved to the base folder of the cloned activity
+export function generateClonedActivityCategory(
+  category: ActivityCategory,
+  imageBaseName: string,
+): DeepPartial<ActivityCategory> {
+  const getText = (text: string, textType: ExActTextType) =>
+    textType === ExActTextType.Image
+      ? generateClonedImagePath(text, imageBaseName)
+      : text;
+
+  return {
+    level: category.level,
+    randomizeQuestions: category.randomizeQuestions,
+    visibleQuestionsCount: category.visibleQuestionsCount,
+    questions: category.questions.map((question) => ({
+      orderNumber: question.orderNumber,
+      text: getText(question.text, question.textType),
+      textType: question.textType,
+      stageNumber: question.stageNumber,
+      hintText: question.hintText,
+      explanationText: question.explanationText,
+      solutionImageUrl: question.solutionImageUrl
+        ? generateClonedImagePath(question.solutionImageUrl, imageBaseName)
+        : question.solutionImageUrl,
+      choices: question.choices.map(
+        ({ orderNumber, text, textType, isCorrect }) => ({
+          orderNumber,
+          text: getText(text, textType),
+          textType,
+          isCorrect,
+        }),
+      ),
+    })),
+    typePoint: category.typePoint
+      ? {
+          pointsPerQuestion: category.typePoint.pointsPerQuestion,
+          durationSeconds: category.typePoint.durationSeconds,
+        }
+      : undefined,
+    typeTime: category.typeTime
+      ? { correctAnswerCount: category.typeTime.correctAnswerCount }
+      : undefined,
+    typeStage: category.typeStage
+      ? { totalStageCount: category.typeStage.totalStageCount }
+      : undefined,
+  };
+}
+
+// Snapshot category questions for an activity category version,
+// fields are listed explicitly so identical content gives the same checksum
+export function generateActivityCategoryVersionQuestions(
+  questions: ActivityCategoryQuestion[],
+): ActivityCategoryVersionQuestion[] {
+  return [...questions]
+    .sort((qA, qB) => qA.id - qB.id)
+    .map((question) => ({
+      id: question.id,
+      orderNumber: question.orderNumber,
+      text: question.text,
+      textType: question.textType,
+      stageNumber: question.stageNumber ?? null,
+      hintText: question.hintText ?? null,
+      choices: [...(question.choices || [])]
+        .sort((cA, cB) => cA.id - cB.id)
+        .map((choice) => ({
+          id: choice.id,
+          orderNumber: choice.orderNumber,
+          text: choice.text,
+          textType: choice.textType,
+          isCorrect: choice.isCorrect,
+        })),
+    }));
+}
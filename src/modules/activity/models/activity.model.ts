@@ -0,0 +1,31 @@
+import { ExActTextType } from '#/common/enums/content.enum';
+
+export type ActivityRegradedScore = {
+  completionId: number;
+  activityCategoryId: number;
+  studentId: number;
+  previousScore: number;
+  score: number;
+};
+
+export type ActivityRegradeSummary = {
+  regradedCount: number;
+  changedScores: ActivityRegradedScore[];
+};
+
+// Question as served in an activity category version
+export type ActivityCategoryVersionQuestion = {
+  id: number;
+  orderNumber: number;
+  text: string;
+  textType: ExActTextType;
+  stageNumber: number | null;
+  hintText: string | null;
+  choices: {
+    id: number;
+    orderNumber: number;
+    text: string;
+    textType: ExActTextType;
+    isCorrect: boolean;
+  }[];
+};
@@ -6,6 +6,7 @@ import { CoreModule } from './core/core.module';
 import { UserModule } from './user/user.module';
 import { LessonModule } from './lesson/lesson.module';
 import { ExamModule } from './exam/exam.module';
+import { QuestionBankModule } from './question-bank/question-bank.module';
 import { ActivityModule } from './activity/activity.module';
 import { PerformanceModule } from './performance/performance.module';
 import { ScheduleModule } from './schedule/schedule.module';
@@ -23,6 +24,7 @@ import { AnnouncementModule } from './announcement/announcement.module';
     CoreModule,
     LessonModule,
     ExamModule,
+    QuestionBankModule,
     ActivityModule,
     PerformanceModule,
     ScheduleModule,
@@ -26,8 +26,9 @@ export class CoreGateway implements OnGatewayInit {
 
   @SubscribeMessage('start-clock')
   startClock() {
+    // Emit only to local clients, every api instance runs its own clock
     this.clockInterval = setInterval(() => {
-      this.server.emit('tick', this.coreService.getDateTimeNow());
+      this.server.local.emit('tick', this.coreService.getDateTimeNow());
     }, 60000);
   }
 
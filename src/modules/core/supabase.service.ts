@@ -31,4 +31,21 @@ export class SupabaseService {
   register(email: string, password: string) {
     return this.getClient().auth.signUp({ email, password });
   }
+
+  // Copy storage files within the bucket, throw if any of them fails
+  async copyFiles(files: { fromPath: string; toPath: string }[]) {
+    const bucket = this.getClient().storage.from(
+      this.configService.get<string>('SUPABASE_BUCKET_ID'),
+    );
+
+    const results = await Promise.all(
+      files.map(({ fromPath, toPath }) => bucket.copy(fromPath, toPath)),
+    );
+
+    const result = results.find(({ error }) => !!error);
+
+    if (result) {
+      throw result.error;
+    }
+  }
 }
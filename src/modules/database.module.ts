@@ -16,6 +16,18 @@ import { ExamQuestionChoice } from './exam/entities/exam-question-choice.entity'
 import { ExamSchedule } from './exam/entities/exam-schedule.entity';
 import { ExamCompletion } from './exam/entities/exam-completion.entity';
 import { ExamCompletionQuestionAnswer } from './exam/entities/exam-completion-question-answer.entity';
+import { ExamCompletionScoreOverride } from './exam/entities/exam-completion-score-override.entity';
+import { ExamRoom } from './exam/entities/exam-room.entity';
+import { ExamRoomStudent } from './exam/entities/exam-room-student.entity';
+import { ExamQuestionTypeNumeric } from './exam/entities/exam-question-type-numeric.entity';
+import { ExamQuestionTypeMultipleSelect } from './exam/entities/exam-question-type-multiple-select.entity';
+import { ExamQuestionTypeFillBlank } from './exam/entities/exam-question-type-fill-blank.entity';
+import { ExamQuestionPool } from './exam/entities/exam-question-pool.entity';
+import { ExamSection } from './exam/entities/exam-section.entity';
+import { ExamDelivery } from './exam/entities/exam-delivery.entity';
+import { ExamScheduleAccommodation } from './exam/entities/exam-schedule-accommodation.entity';
+import { ExamIntegrityEvent } from './exam/entities/exam-integrity-event.entity';
+import { ExamVersion } from './exam/entities/exam-version.entity';
 import { Activity } from './activity/entities/activity.entity';
 import { ActivityCategory } from './activity/entities/activity-category.entity';
 import { ActivityCategoryQuestion } from './activity/entities/activity-category-question.entity';
@@ -24,7 +36,12 @@ import { ActivityCategoryTypePoint } from './activity/entities/activity-category
 import { ActivityCategoryTypeTime } from './activity/entities/activity-category-type-time.entity';
 import { ActivityCategoryTypeStage } from './activity/entities/activity-category-type-stage.entity';
 import { ActivityCategoryCompletion } from './activity/entities/activity-category-completion.entity';
+import { ActivityCategoryDelivery } from './activity/entities/activity-category-delivery.entity';
 import { ActivityCategoryCompletionQuestionAnswer } from './activity/entities/activity-category-completion-question-answer.entity';
+import { ActivityCategoryCompletionScoreOverride } from './activity/entities/activity-category-completion-score-override.entity';
+import { ActivityCategoryVersion } from './activity/entities/activity-category-version.entity';
+import { QuestionBankItem } from './question-bank/entities/question-bank-item.entity';
+import { QuestionBankItemChoice } from './question-bank/entities/question-bank-item-choice.entity';
 import { MeetingSchedule } from './schedule/entities/meeting-schedule.entity';
 import { Announcement } from './announcement/entities/announcement.entity';
 
@@ -67,6 +84,20 @@ import { Announcement } from './announcement/entities/announcement.entity';
             ExamSchedule,
             ExamCompletion,
             ExamCompletionQuestionAnswer,
+            ExamCompletionScoreOverride,
+            ExamRoom,
+            ExamRoomStudent,
+            ExamQuestionTypeNumeric,
+            ExamQuestionTypeMultipleSelect,
+            ExamQuestionTypeFillBlank,
+            ExamQuestionPool,
+            ExamSection,
+            ExamDelivery,
+            ExamScheduleAccommodation,
+            ExamIntegrityEvent,
+            ExamVersion,
+            QuestionBankItem,
+            QuestionBankItemChoice,
             Activity,
             ActivityCategory,
             ActivityCategoryQuestion,
@@ -76,6 +107,9 @@ import { Announcement } from './announcement/entities/announcement.entity';
             ActivityCategoryTypeStage,
             ActivityCategoryCompletion,
             ActivityCategoryCompletionQuestionAnswer,
+            ActivityCategoryDelivery,
+            ActivityCategoryCompletionScoreOverride,
+            ActivityCategoryVersion,
             MeetingSchedule,
             Announcement,
           ],
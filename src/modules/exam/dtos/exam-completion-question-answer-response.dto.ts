@@ -17,4 +17,17 @@ export class ExamCompletionQuestionAnswerResponseDto extends BaseResponseDto {
   @Expose()
   @Type(() => ExamQuestionChoiceResponseDto)
   selectedQuestionChoice: ExamQuestionChoiceResponseDto;
+
+  @Expose()
+  @Type(() => ExamQuestionChoiceResponseDto)
+  selectedQuestionChoices: ExamQuestionChoiceResponseDto[];
+
+  @Expose()
+  numericAnswer: number;
+
+  @Expose()
+  textAnswer: string;
+
+  @Expose()
+  overriddenPoints: number | null;
 }
@@ -1,4 +1,11 @@
-import { IsInt, IsPositive, IsOptional } from 'class-validator';
+import {
+  IsInt,
+  IsPositive,
+  IsOptional,
+  IsArray,
+  IsNumber,
+  IsString,
+} from 'class-validator';
 
 export class ExamCompletionQuestionAnswerUpsertDto {
   @IsInt()
@@ -15,4 +22,18 @@ export class ExamCompletionQuestionAnswerUpsertDto {
   @IsPositive()
   @IsOptional()
   selectedQuestionChoiceId: number;
+
+  @IsArray()
+  @IsInt({ each: true })
+  @IsPositive({ each: true })
+  @IsOptional()
+  selectedQuestionChoiceIds: number[];
+
+  @IsNumber()
+  @IsOptional()
+  numericAnswer: number;
+
+  @IsString()
+  @IsOptional()
+  textAnswer: string;
 }
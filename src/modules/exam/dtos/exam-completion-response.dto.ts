@@ -4,11 +4,37 @@ import { BaseResponseDto } from '#/common/dtos/base-response.dto';
 import { StudentUserResponseDto } from '#/modules/user/dtos/student-user-response.dto';
 import { ExamCompletionQuestionAnswerResponseDto } from './exam-completion-question-answer-response.dto';
 import { ExamResponseDto } from './exam-response.dto';
+import { ExamCompletionScoreOverrideResponseDto } from './exam-completion-score-override-response.dto';
+import { ExamVersionResponseDto } from './exam-version-response.dto';
 
 export class ExamCompletionResponseDto extends BaseResponseDto {
   @Expose()
   score: number | null;
 
+  @Expose()
+  maxScore: number | null;
+
+  @Expose()
+  overriddenScore: number | null;
+
+  @Expose()
+  isScoreAdjusted: boolean;
+
+  @Expose()
+  isLate: boolean;
+
+  @Expose()
+  latePenaltyPercent: number | null;
+
+  @Expose()
+  attemptNumber: number;
+
+  @Expose()
+  servedQuestionIds: number[];
+
+  @Expose()
+  servedChoiceIds: Record<number, number[]>;
+
   @Expose()
   submittedAt: string;
 
@@ -16,6 +42,13 @@ export class ExamCompletionResponseDto extends BaseResponseDto {
   @Type(() => ExamResponseDto)
   exam: ExamResponseDto;
 
+  @Expose()
+  @Type(() => ExamVersionResponseDto)
+  version: ExamVersionResponseDto;
+
+  @Expose()
+  regradedAt: string;
+
   @Expose()
   @Type(() => ExamCompletionQuestionAnswerResponseDto)
   questionAnswers: ExamCompletionQuestionAnswerResponseDto[];
@@ -23,4 +56,8 @@ export class ExamCompletionResponseDto extends BaseResponseDto {
   @Expose()
   @Type(() => StudentUserResponseDto)
   student: StudentUserResponseDto;
+
+  @Expose()
+  @Type(() => ExamCompletionScoreOverrideResponseDto)
+  scoreOverrides: ExamCompletionScoreOverrideResponseDto[];
 }
@@ -0,0 +1,27 @@
+import {
+  IsInt,
+  IsNumber,
+  IsOptional,
+  IsPositive,
+  IsString,
+  MaxLength,
+  Min,
+  MinLength,
+} from 'class-validator';
+
+export class ExamCompletionScoreOverrideCreateDto {
+  // Points of the answer if question answer id is present, else score of the whole completion
+  @IsNumber()
+  @Min(0)
+  score: number;
+
+  @IsString()
+  @MinLength(1)
+  @MaxLength(1000)
+  reason: string;
+
+  @IsInt()
+  @IsPositive()
+  @IsOptional()
+  questionAnswerId: number;
+}
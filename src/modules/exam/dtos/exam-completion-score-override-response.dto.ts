@@ -0,0 +1,24 @@
+import { Expose, Type } from 'class-transformer';
+
+import { BaseResponseDto } from '#/common/dtos/base-response.dto';
+import { TeacherUserResponseDto } from '#/modules/user/dtos/teacher-user-response.dto';
+import { ExamCompletionQuestionAnswerResponseDto } from './exam-completion-question-answer-response.dto';
+
+export class ExamCompletionScoreOverrideResponseDto extends BaseResponseDto {
+  @Expose()
+  previousScore: number | null;
+
+  @Expose()
+  score: number;
+
+  @Expose()
+  reason: string;
+
+  @Expose()
+  @Type(() => ExamCompletionQuestionAnswerResponseDto)
+  questionAnswer: ExamCompletionQuestionAnswerResponseDto | null;
+
+  @Expose()
+  @Type(() => TeacherUserResponseDto)
+  teacher: TeacherUserResponseDto;
+}
@@ -1,6 +1,7 @@
 import { Type } from 'class-transformer';
 import {
   IsInt,
+  IsNumber,
   IsDateString,
   IsPositive,
   IsOptional,
@@ -11,7 +12,7 @@ import {
 import { ExamCompletionQuestionAnswerUpsertDto } from './exam-completion-question-answer-update.dto';
 
 export class ExamCompletionUpdateDto {
-  @IsInt()
+  @IsNumber()
   @IsOptional()
   score: number;
 
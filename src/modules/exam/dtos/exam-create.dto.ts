@@ -7,6 +7,9 @@ import {
   IsDateString,
   IsEnum,
   IsInt,
+  Min,
+  Max,
+  IsNumber,
   IsOptional,
   IsPositive,
   IsString,
@@ -16,7 +19,14 @@ import {
 } from 'class-validator';
 
 import { RecordStatus } from '#/common/enums/content.enum';
+import {
+  ExamAttemptScoring,
+  ExamLatePolicy,
+  ExamReviewPolicy,
+} from '../enums/exam.enum';
 import { ExamQuestionCreateDto } from './exam-question-create.dto';
+import { ExamQuestionPoolUpsertDto } from './exam-question-pool-upsert.dto';
+import { ExamSectionUpsertDto } from './exam-section-upsert.dto';
 
 export class ExamCreateDto {
   @IsEnum(RecordStatus)
@@ -35,6 +45,9 @@ export class ExamCreateDto {
   @IsBoolean()
   randomizeQuestions: boolean;
 
+  @IsBoolean()
+  randomizeChoices: boolean;
+
   @IsInt()
   @IsPositive()
   visibleQuestionsCount: number;
@@ -49,6 +62,58 @@ export class ExamCreateDto {
   @IsOptional()
   passingPoints: number;
 
+  @IsBoolean()
+  @IsOptional()
+  negativeMarking: boolean;
+
+  @IsNumber()
+  @Min(0)
+  @Max(1)
+  @IsOptional()
+  negativeMarkingRatio: number;
+
+  @IsInt()
+  @IsPositive()
+  @IsOptional()
+  maxAttempts: number;
+
+  @IsInt()
+  @Min(0)
+  @IsOptional()
+  attemptCooldownMinutes: number;
+
+  @IsInt()
+  @IsPositive()
+  @IsOptional()
+  durationMinutes: number;
+
+  @IsEnum(ExamAttemptScoring)
+  @IsOptional()
+  attemptScoring: ExamAttemptScoring;
+
+  @IsEnum(ExamLatePolicy)
+  @IsOptional()
+  latePolicy: ExamLatePolicy;
+
+  @IsInt()
+  @IsPositive()
+  @IsOptional()
+  lateGraceMinutes: number;
+
+  @IsNumber()
+  @IsPositive()
+  @Max(100)
+  @IsOptional()
+  latePenaltyPercent: number;
+
+  @IsEnum(ExamReviewPolicy)
+  @IsOptional()
+  reviewPolicy: ExamReviewPolicy;
+
+  @IsDateString()
+  @IsOptional()
+  reviewDate: Date;
+
   @IsString()
   @IsOptional()
   description: string;
@@ -65,13 +130,41 @@ export class ExamCreateDto {
   @IsOptional()
   coveredLessonIds: number[];
 
+  // Should only include covered lessons
+  @IsArray()
+  @IsInt({ each: true })
+  @IsPositive({ each: true })
+  @IsOptional()
+  prerequisiteLessonIds: number[];
+
+  @IsInt()
+  @IsPositive()
+  @IsOptional()
+  prerequisiteActivityId: number;
+
+  @IsNumber()
+  @Min(0)
+  @IsOptional()
+  prerequisiteActivityScore: number;
+
+  // Can be empty if exam questions are drawn from question pools
   @IsArray()
-  @ArrayNotEmpty()
-  @ArrayMinSize(1)
   @ValidateNested({ each: true })
   @Type(() => ExamQuestionCreateDto)
   questions: ExamQuestionCreateDto[];
 
+  @IsArray()
+  @ValidateNested({ each: true })
+  @IsOptional()
+  @Type(() => ExamQuestionPoolUpsertDto)
+  questionPools: ExamQuestionPoolUpsertDto[];
+
+  @IsArray()
+  @ValidateNested({ each: true })
+  @IsOptional()
+  @Type(() => ExamSectionUpsertDto)
+  sections: ExamSectionUpsertDto[];
+
   // TODO separate scheduling or retain step like lesson?
   @IsDateString()
   @IsOptional()
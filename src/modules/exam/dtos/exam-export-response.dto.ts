@@ -0,0 +1,14 @@
+import { Expose } from 'class-transformer';
+
+import { ExamQuestionFormat } from '../enums/exam.enum';
+
+export class ExamExportResponseDto {
+  @Expose()
+  format: ExamQuestionFormat;
+
+  @Expose()
+  fileName: string;
+
+  @Expose()
+  content: string;
+}
@@ -0,0 +1,37 @@
+import {
+  IsEnum,
+  IsInt,
+  IsPositive,
+  IsString,
+  MaxLength,
+  MinLength,
+} from 'class-validator';
+
+import { ExamQuestionFormat } from '../enums/exam.enum';
+
+export class ExamImportDto {
+  @IsEnum(ExamQuestionFormat)
+  format: ExamQuestionFormat;
+
+  @IsString()
+  @MinLength(1)
+  content: string;
+
+  @IsInt()
+  @IsPositive()
+  orderNumber: number;
+
+  @IsString()
+  @MinLength(1)
+  @MaxLength(255)
+  title: string;
+
+  // Used for questions without points from the imported content
+  @IsInt()
+  @IsPositive()
+  pointsPerQuestion: number;
+
+  @IsInt()
+  @IsPositive()
+  passingPoints: number;
+}
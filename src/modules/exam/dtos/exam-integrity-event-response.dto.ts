@@ -0,0 +1,18 @@
+import { Expose } from 'class-transformer';
+
+import { BaseResponseDto } from '#/common/dtos/base-response.dto';
+import { ExamIntegrityEventType } from '../enums/exam.enum';
+
+export class ExamIntegrityEventResponseDto extends BaseResponseDto {
+  @Expose()
+  type: ExamIntegrityEventType;
+
+  @Expose()
+  occurredAt: string;
+
+  @Expose()
+  metadata: Record<string, any> | null;
+
+  @Expose()
+  attemptNumber: number;
+}
@@ -0,0 +1,25 @@
+import { Expose, Type } from 'class-transformer';
+
+import { ExamIntegrityFlag } from '../enums/exam.enum';
+import { ExamIntegrityEventResponseDto } from './exam-integrity-event-response.dto';
+
+export class ExamIntegrityTimelineResponseDto {
+  @Expose()
+  attemptNumber: number;
+
+  @Expose()
+  completionId: number | null;
+
+  @Expose()
+  @Type(() => ExamIntegrityEventResponseDto)
+  events: ExamIntegrityEventResponseDto[];
+
+  @Expose()
+  focusLossCount: number;
+
+  @Expose()
+  totalFocusLossSeconds: number;
+
+  @Expose()
+  flags: ExamIntegrityFlag[];
+}
@@ -0,0 +1,15 @@
+import { Expose } from 'class-transformer';
+
+export class ExamItemAnalysisChoiceResponseDto {
+  @Expose()
+  choiceId: number;
+
+  @Expose()
+  text: string;
+
+  @Expose()
+  isCorrect: boolean;
+
+  @Expose()
+  selectedCount: number;
+}
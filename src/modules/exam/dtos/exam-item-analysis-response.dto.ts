@@ -0,0 +1,46 @@
+import { Expose, Type } from 'class-transformer';
+
+import { ExamQuestionType } from '../enums/exam.enum';
+import { ExamItemAnalysisChoiceResponseDto } from './exam-item-analysis-choice-response.dto';
+
+export class ExamItemAnalysisResponseDto {
+  @Expose()
+  questionId: number;
+
+  @Expose()
+  orderNumber: number;
+
+  @Expose()
+  text: string;
+
+  @Expose()
+  type: ExamQuestionType;
+
+  @Expose()
+  sectionId: number | null;
+
+  @Expose()
+  sectionTitle: string | null;
+
+  @Expose()
+  servedCount: number;
+
+  @Expose()
+  correctCount: number;
+
+  @Expose()
+  skippedCount: number;
+
+  @Expose()
+  difficultyIndex: number | null;
+
+  @Expose()
+  discriminationIndex: number | null;
+
+  @Expose()
+  skipPercent: number | null;
+
+  @Expose()
+  @Type(() => ExamItemAnalysisChoiceResponseDto)
+  choices: ExamItemAnalysisChoiceResponseDto[];
+}
@@ -0,0 +1,20 @@
+import { Expose, Type } from 'class-transformer';
+
+import { LessonResponseDto } from '#/modules/lesson/dtos/lesson-response.dto';
+import { ActivityResponseDto } from '#/modules/activity/dtos/activity-response.dto';
+
+export class ExamMissingPrerequisitesResponseDto {
+  @Expose()
+  @Type(() => LessonResponseDto)
+  lessons: LessonResponseDto[];
+
+  @Expose()
+  @Type(() => ActivityResponseDto)
+  activity: ActivityResponseDto | null;
+
+  @Expose()
+  activityScore: number | null;
+
+  @Expose()
+  studentActivityScore: number | null;
+}
@@ -2,6 +2,9 @@ import {
   IsBoolean,
   IsEnum,
   IsInt,
+  IsNumber,
+  Max,
+  Min,
   IsOptional,
   IsPositive,
   IsString,
@@ -23,6 +26,12 @@ export class ExamQuestionChoiceCreateDto {
   @IsBoolean()
   isCorrect: boolean;
 
+  @IsNumber()
+  @Min(0)
+  @Max(1)
+  @IsOptional()
+  creditWeight: number;
+
   @IsInt()
   @IsPositive()
   @IsOptional()
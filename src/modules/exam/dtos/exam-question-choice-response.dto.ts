@@ -17,6 +17,9 @@ export class ExamQuestionChoiceResponseDto extends BaseResponseDto {
   @Expose()
   isCorrect: boolean;
 
+  @Expose()
+  creditWeight: number;
+
   @Expose()
   @Type(() => ExamQuestionResponseDto)
   question: ExamQuestionResponseDto;
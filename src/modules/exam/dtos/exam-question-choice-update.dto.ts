@@ -1,5 +1,8 @@
 import {
   IsInt,
+  IsNumber,
+  Max,
+  Min,
   IsPositive,
   IsOptional,
   IsString,
@@ -31,4 +34,10 @@ export class ExamQuestionChoiceUpdateDto {
   @IsBoolean()
   @IsOptional()
   isCorrect: boolean;
+
+  @IsNumber()
+  @Min(0)
+  @Max(1)
+  @IsOptional()
+  creditWeight: number;
 }
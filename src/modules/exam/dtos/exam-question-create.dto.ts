@@ -9,10 +9,16 @@ import {
   ArrayMinSize,
   ValidateNested,
   IsEnum,
+  IsNumber,
+  ValidateIf,
 } from 'class-validator';
 
 import { ExActTextType } from '#/common/enums/content.enum';
+import { ExamQuestionType } from '../enums/exam.enum';
 import { ExamQuestionChoiceCreateDto } from './exam-question-choice-create.dto';
+import { ExamQuestionTypeNumericCreateDto } from './exam-question-type-numeric-create.dto';
+import { ExamQuestionTypeMultipleSelectCreateDto } from './exam-question-type-multiple-select-create.dto';
+import { ExamQuestionTypeFillBlankCreateDto } from './exam-question-type-fill-blank-create.dto';
 
 export class ExamQuestionCreateDto {
   @IsInt()
@@ -25,15 +31,59 @@ export class ExamQuestionCreateDto {
   @IsEnum(ExActTextType)
   textType: ExActTextType;
 
+  @IsEnum(ExamQuestionType)
+  @IsOptional()
+  type: ExamQuestionType;
+
+  @IsNumber()
+  @IsPositive()
+  @IsOptional()
+  points: number;
+
+  @IsString()
+  @IsOptional()
+  explanationText: string;
+
+  @IsString()
+  @IsOptional()
+  solutionImageUrl: string;
+
+  // Order number of the exam section, unsectioned if empty
+  @IsInt()
+  @IsPositive()
+  @IsOptional()
+  sectionOrderNumber: number;
+
   @IsInt()
   @IsPositive()
   @IsOptional()
   examId: number;
 
+  @ValidateIf(
+    (question) =>
+      !question.type ||
+      question.type === ExamQuestionType.SingleChoice ||
+      question.type === ExamQuestionType.MultipleSelect,
+  )
   @IsArray()
   @ArrayNotEmpty()
   @ArrayMinSize(2)
   @ValidateNested({ each: true })
   @Type(() => ExamQuestionChoiceCreateDto)
   choices: ExamQuestionChoiceCreateDto[];
+
+  @ValidateNested()
+  @ValidateIf((question) => question.type === ExamQuestionType.Numeric)
+  @Type(() => ExamQuestionTypeNumericCreateDto)
+  typeNumeric: ExamQuestionTypeNumericCreateDto;
+
+  @ValidateNested()
+  @IsOptional()
+  @Type(() => ExamQuestionTypeMultipleSelectCreateDto)
+  typeMultipleSelect: ExamQuestionTypeMultipleSelectCreateDto;
+
+  @ValidateNested()
+  @ValidateIf((question) => question.type === ExamQuestionType.FillBlank)
+  @Type(() => ExamQuestionTypeFillBlankCreateDto)
+  typeFillBlank: ExamQuestionTypeFillBlankCreateDto;
 }
@@ -0,0 +1,13 @@
+import { Expose, Type } from 'class-transformer';
+
+import { BaseResponseDto } from '#/common/dtos/base-response.dto';
+import { QuestionBankItemResponseDto } from '#/modules/question-bank/dtos/question-bank-item-response.dto';
+
+export class ExamQuestionPoolResponseDto extends BaseResponseDto {
+  @Expose()
+  drawCount: number;
+
+  @Expose()
+  @Type(() => QuestionBankItemResponseDto)
+  questionBankItems: QuestionBankItemResponseDto[];
+}
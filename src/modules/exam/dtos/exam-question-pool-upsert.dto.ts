@@ -0,0 +1,13 @@
+import { ArrayNotEmpty, IsArray, IsInt, IsPositive } from 'class-validator';
+
+export class ExamQuestionPoolUpsertDto {
+  @IsInt()
+  @IsPositive()
+  drawCount: number;
+
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsInt({ each: true })
+  @IsPositive({ each: true })
+  questionBankItemIds: number[];
+}
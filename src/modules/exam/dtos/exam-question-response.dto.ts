@@ -4,6 +4,11 @@ import { ExActTextType } from '#/common/enums/content.enum';
 import { BaseResponseDto } from '#/common/dtos/base-response.dto';
 import { ExamQuestionChoiceResponseDto } from '#/modules/exam/dtos/exam-question-choice-response.dto';
 import { ExamResponseDto } from '#/modules/exam/dtos/exam-response.dto';
+import { ExamQuestionType } from '../enums/exam.enum';
+import { ExamQuestionTypeNumericResponseDto } from './exam-question-type-numeric-response.dto';
+import { ExamQuestionTypeMultipleSelectResponseDto } from './exam-question-type-multiple-select-response.dto';
+import { ExamQuestionTypeFillBlankResponseDto } from './exam-question-type-fill-blank-response.dto';
+import { ExamSectionResponseDto } from './exam-section-response.dto';
 
 export class ExamQuestionResponseDto extends BaseResponseDto {
   @Expose()
@@ -15,11 +20,39 @@ export class ExamQuestionResponseDto extends BaseResponseDto {
   @Expose()
   textType: ExActTextType;
 
+  @Expose()
+  type: ExamQuestionType;
+
+  @Expose()
+  points: number;
+
+  @Expose()
+  explanationText: string;
+
+  @Expose()
+  solutionImageUrl: string;
+
   @Expose()
   @Type(() => ExamResponseDto)
   exam: ExamResponseDto;
 
+  @Expose()
+  @Type(() => ExamSectionResponseDto)
+  section: ExamSectionResponseDto;
+
   @Expose()
   @Type(() => ExamQuestionChoiceResponseDto)
   choices: ExamQuestionChoiceResponseDto[];
+
+  @Expose()
+  @Type(() => ExamQuestionTypeNumericResponseDto)
+  typeNumeric: ExamQuestionTypeNumericResponseDto;
+
+  @Expose()
+  @Type(() => ExamQuestionTypeMultipleSelectResponseDto)
+  typeMultipleSelect: ExamQuestionTypeMultipleSelectResponseDto;
+
+  @Expose()
+  @Type(() => ExamQuestionTypeFillBlankResponseDto)
+  typeFillBlank: ExamQuestionTypeFillBlankResponseDto;
 }
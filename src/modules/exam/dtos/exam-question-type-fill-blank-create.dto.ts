@@ -0,0 +1,20 @@
+import {
+  ArrayNotEmpty,
+  IsArray,
+  IsBoolean,
+  IsOptional,
+  IsString,
+  MinLength,
+} from 'class-validator';
+
+export class ExamQuestionTypeFillBlankCreateDto {
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsString({ each: true })
+  @MinLength(1, { each: true })
+  acceptedAnswers: string[];
+
+  @IsBoolean()
+  @IsOptional()
+  caseSensitive: boolean;
+}
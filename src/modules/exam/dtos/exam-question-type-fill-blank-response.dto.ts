@@ -0,0 +1,11 @@
+import { Expose } from 'class-transformer';
+
+import { BaseResponseDto } from '#/common/dtos/base-response.dto';
+
+export class ExamQuestionTypeFillBlankResponseDto extends BaseResponseDto {
+  @Expose()
+  acceptedAnswers: string[];
+
+  @Expose()
+  caseSensitive: boolean;
+}
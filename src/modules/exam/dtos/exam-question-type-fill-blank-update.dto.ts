@@ -0,0 +1,28 @@
+import {
+  ArrayNotEmpty,
+  IsArray,
+  IsBoolean,
+  IsInt,
+  IsOptional,
+  IsPositive,
+  IsString,
+  MinLength,
+} from 'class-validator';
+
+export class ExamQuestionTypeFillBlankUpdateDto {
+  @IsInt()
+  @IsPositive()
+  @IsOptional()
+  id: number;
+
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsString({ each: true })
+  @MinLength(1, { each: true })
+  @IsOptional()
+  acceptedAnswers: string[];
+
+  @IsBoolean()
+  @IsOptional()
+  caseSensitive: boolean;
+}
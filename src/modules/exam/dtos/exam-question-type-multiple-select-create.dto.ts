@@ -0,0 +1,9 @@
+import { IsEnum, IsOptional } from 'class-validator';
+
+import { ExamMultipleSelectScoring } from '../enums/exam.enum';
+
+export class ExamQuestionTypeMultipleSelectCreateDto {
+  @IsEnum(ExamMultipleSelectScoring)
+  @IsOptional()
+  scoring: ExamMultipleSelectScoring;
+}
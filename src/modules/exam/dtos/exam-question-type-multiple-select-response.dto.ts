@@ -0,0 +1,9 @@
+import { Expose } from 'class-transformer';
+
+import { BaseResponseDto } from '#/common/dtos/base-response.dto';
+import { ExamMultipleSelectScoring } from '../enums/exam.enum';
+
+export class ExamQuestionTypeMultipleSelectResponseDto extends BaseResponseDto {
+  @Expose()
+  scoring: ExamMultipleSelectScoring;
+}
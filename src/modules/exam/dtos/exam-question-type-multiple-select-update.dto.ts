@@ -0,0 +1,14 @@
+import { IsEnum, IsInt, IsOptional, IsPositive } from 'class-validator';
+
+import { ExamMultipleSelectScoring } from '../enums/exam.enum';
+
+export class ExamQuestionTypeMultipleSelectUpdateDto {
+  @IsInt()
+  @IsPositive()
+  @IsOptional()
+  id: number;
+
+  @IsEnum(ExamMultipleSelectScoring)
+  @IsOptional()
+  scoring: ExamMultipleSelectScoring;
+}
@@ -0,0 +1,17 @@
+import { IsEnum, IsNumber, IsOptional, Min } from 'class-validator';
+
+import { ExamNumericToleranceType } from '../enums/exam.enum';
+
+export class ExamQuestionTypeNumericCreateDto {
+  @IsNumber()
+  answer: number;
+
+  @IsNumber()
+  @Min(0)
+  @IsOptional()
+  tolerance: number;
+
+  @IsEnum(ExamNumericToleranceType)
+  @IsOptional()
+  toleranceType: ExamNumericToleranceType;
+}
@@ -0,0 +1,15 @@
+import { Expose } from 'class-transformer';
+
+import { BaseResponseDto } from '#/common/dtos/base-response.dto';
+import { ExamNumericToleranceType } from '../enums/exam.enum';
+
+export class ExamQuestionTypeNumericResponseDto extends BaseResponseDto {
+  @Expose()
+  answer: number;
+
+  @Expose()
+  tolerance: number;
+
+  @Expose()
+  toleranceType: ExamNumericToleranceType;
+}
@@ -0,0 +1,30 @@
+import {
+  IsEnum,
+  IsInt,
+  IsNumber,
+  IsOptional,
+  IsPositive,
+  Min,
+} from 'class-validator';
+
+import { ExamNumericToleranceType } from '../enums/exam.enum';
+
+export class ExamQuestionTypeNumericUpdateDto {
+  @IsInt()
+  @IsPositive()
+  @IsOptional()
+  id: number;
+
+  @IsNumber()
+  @IsOptional()
+  answer: number;
+
+  @IsNumber()
+  @Min(0)
+  @IsOptional()
+  tolerance: number;
+
+  @IsEnum(ExamNumericToleranceType)
+  @IsOptional()
+  toleranceType: ExamNumericToleranceType;
+}
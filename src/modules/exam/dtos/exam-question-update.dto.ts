@@ -8,10 +8,16 @@ import {
   ArrayNotEmpty,
   ValidateNested,
   IsEnum,
+  IsNumber,
+  ValidateIf,
 } from 'class-validator';
 
 import { ExActTextType } from '#/common/enums/content.enum';
+import { ExamQuestionType } from '../enums/exam.enum';
 import { ExamQuestionChoiceUpdateDto } from './exam-question-choice-update.dto';
+import { ExamQuestionTypeNumericUpdateDto } from './exam-question-type-numeric-update.dto';
+import { ExamQuestionTypeMultipleSelectUpdateDto } from './exam-question-type-multiple-select-update.dto';
+import { ExamQuestionTypeFillBlankUpdateDto } from './exam-question-type-fill-blank-update.dto';
 
 export class ExamQuestionUpdateDto {
   @IsInt()
@@ -32,10 +38,54 @@ export class ExamQuestionUpdateDto {
   @IsOptional()
   textType: ExActTextType;
 
+  @IsEnum(ExamQuestionType)
+  @IsOptional()
+  type: ExamQuestionType;
+
+  @IsNumber()
+  @IsPositive()
+  @IsOptional()
+  points: number;
+
+  @IsString()
+  @IsOptional()
+  explanationText: string;
+
+  @IsString()
+  @IsOptional()
+  solutionImageUrl: string;
+
+  // Order number of the exam section, unsectioned if empty
+  @IsInt()
+  @IsPositive()
+  @IsOptional()
+  sectionOrderNumber: number;
+
+  @ValidateIf(
+    (question) =>
+      !question.type ||
+      question.type === ExamQuestionType.SingleChoice ||
+      question.type === ExamQuestionType.MultipleSelect,
+  )
   @IsArray()
   @ArrayNotEmpty()
   @ValidateNested({ each: true })
   @IsOptional()
   @Type(() => ExamQuestionChoiceUpdateDto)
   choices: ExamQuestionChoiceUpdateDto[];
+
+  @ValidateNested()
+  @ValidateIf((question) => question.type === ExamQuestionType.Numeric)
+  @Type(() => ExamQuestionTypeNumericUpdateDto)
+  typeNumeric: ExamQuestionTypeNumericUpdateDto;
+
+  @ValidateNested()
+  @IsOptional()
+  @Type(() => ExamQuestionTypeMultipleSelectUpdateDto)
+  typeMultipleSelect: ExamQuestionTypeMultipleSelectUpdateDto;
+
+  @ValidateNested()
+  @ValidateIf((question) => question.type === ExamQuestionType.FillBlank)
+  @Type(() => ExamQuestionTypeFillBlankUpdateDto)
+  typeFillBlank: ExamQuestionTypeFillBlankUpdateDto;
 }
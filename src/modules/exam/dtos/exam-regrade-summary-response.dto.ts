@@ -0,0 +1,12 @@
+import { Expose, Type } from 'class-transformer';
+
+import { ExamRegradedScoreResponseDto } from './exam-regraded-score-response.dto';
+
+export class ExamRegradeSummaryResponseDto {
+  @Expose()
+  regradedCount: number;
+
+  @Expose()
+  @Type(() => ExamRegradedScoreResponseDto)
+  changedScores: ExamRegradedScoreResponseDto[];
+}
@@ -0,0 +1,18 @@
+import { Expose } from 'class-transformer';
+
+export class ExamRegradedScoreResponseDto {
+  @Expose()
+  completionId: number;
+
+  @Expose()
+  studentId: number;
+
+  @Expose()
+  attemptNumber: number;
+
+  @Expose()
+  previousScore: number;
+
+  @Expose()
+  score: number;
+}
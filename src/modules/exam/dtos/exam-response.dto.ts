@@ -2,10 +2,20 @@ import { Expose, Type } from 'class-transformer';
 
 import { BaseResponseDto } from '#/common/dtos/base-response.dto';
 import { ExamScheduleStatus, RecordStatus } from '#/common/enums/content.enum';
+import {
+  ExamAttemptScoring,
+  ExamLatePolicy,
+  ExamReviewPolicy,
+} from '../enums/exam.enum';
 import { LessonResponseDto } from '#/modules/lesson/dtos/lesson-response.dto';
+import { ActivityResponseDto } from '#/modules/activity/dtos/activity-response.dto';
 import { ExamQuestionResponseDto } from './exam-question-response.dto';
+import { ExamQuestionPoolResponseDto } from './exam-question-pool-response.dto';
+import { ExamSectionResponseDto } from './exam-section-response.dto';
 import { ExamScheduleResponseDto } from './exam-schedule-response.dto';
 import { ExamCompletionResponseDto } from './exam-completion-response.dto';
+import { ExamRegradeSummaryResponseDto } from './exam-regrade-summary-response.dto';
+import { ExamMissingPrerequisitesResponseDto } from './exam-missing-prerequisites-response.dto';
 
 export class ExamResponseDto extends BaseResponseDto {
   @Expose()
@@ -23,6 +33,9 @@ export class ExamResponseDto extends BaseResponseDto {
   @Expose()
   randomizeQuestions: boolean;
 
+  @Expose()
+  randomizeChoices: boolean;
+
   @Expose()
   visibleQuestionsCount: number;
 
@@ -32,6 +45,39 @@ export class ExamResponseDto extends BaseResponseDto {
   @Expose()
   passingPoints: number;
 
+  @Expose()
+  negativeMarking: boolean;
+
+  @Expose()
+  negativeMarkingRatio: number;
+
+  @Expose()
+  maxAttempts: number;
+
+  @Expose()
+  attemptCooldownMinutes: number;
+
+  @Expose()
+  durationMinutes: number | null;
+
+  @Expose()
+  attemptScoring: ExamAttemptScoring;
+
+  @Expose()
+  latePolicy: ExamLatePolicy;
+
+  @Expose()
+  lateGraceMinutes: number | null;
+
+  @Expose()
+  latePenaltyPercent: number | null;
+
+  @Expose()
+  reviewPolicy: ExamReviewPolicy;
+
+  @Expose()
+  reviewDate: Date | null;
+
   @Expose()
   description: string;
 
@@ -42,10 +88,34 @@ export class ExamResponseDto extends BaseResponseDto {
   @Type(() => LessonResponseDto)
   coveredLessons: LessonResponseDto[];
 
+  @Expose()
+  @Type(() => LessonResponseDto)
+  prerequisiteLessons: LessonResponseDto[];
+
+  @Expose()
+  @Type(() => ActivityResponseDto)
+  prerequisiteActivity: ActivityResponseDto;
+
+  @Expose()
+  prerequisiteActivityScore: number | null;
+
+  // Prerequisites current student has not met yet, exam is locked if present
+  @Expose()
+  @Type(() => ExamMissingPrerequisitesResponseDto)
+  missingPrerequisites: ExamMissingPrerequisitesResponseDto | null;
+
   @Expose()
   @Type(() => ExamQuestionResponseDto)
   questions: ExamQuestionResponseDto[];
 
+  @Expose()
+  @Type(() => ExamQuestionPoolResponseDto)
+  questionPools: ExamQuestionPoolResponseDto[];
+
+  @Expose()
+  @Type(() => ExamSectionResponseDto)
+  sections: ExamSectionResponseDto[];
+
   @Expose()
   @Type(() => ExamScheduleResponseDto)
   schedules: ExamScheduleResponseDto[];
@@ -59,4 +129,11 @@ export class ExamResponseDto extends BaseResponseDto {
 
   @Expose()
   rank: number | null;
+
+  @Expose()
+  score: number | null;
+
+  @Expose()
+  @Type(() => ExamRegradeSummaryResponseDto)
+  regradeSummary: ExamRegradeSummaryResponseDto;
 }
@@ -0,0 +1,12 @@
+import { IsInt, IsOptional, IsPositive } from 'class-validator';
+
+export class ExamRoomExtendDto {
+  @IsInt()
+  @IsPositive()
+  minutes: number;
+
+  @IsInt()
+  @IsPositive()
+  @IsOptional()
+  studentId: number;
+}
@@ -0,0 +1,22 @@
+import { Expose, Type } from 'class-transformer';
+
+import { BaseResponseDto } from '#/common/dtos/base-response.dto';
+import { StudentUserResponseDto } from '#/modules/user/dtos/student-user-response.dto';
+
+export class ExamScheduleAccommodationResponseDto extends BaseResponseDto {
+  @Expose()
+  extraMinutes: number;
+
+  @Expose()
+  startDate: string | null;
+
+  @Expose()
+  endDate: string | null;
+
+  @Expose()
+  durationMinutes: number | null;
+
+  @Expose()
+  @Type(() => StudentUserResponseDto)
+  student: StudentUserResponseDto;
+}
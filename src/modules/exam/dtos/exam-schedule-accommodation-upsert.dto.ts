@@ -0,0 +1,31 @@
+import {
+  IsDateString,
+  IsInt,
+  IsOptional,
+  IsPositive,
+  Min,
+} from 'class-validator';
+
+export class ExamScheduleAccommodationUpsertDto {
+  @IsInt()
+  @IsPositive()
+  studentId: number;
+
+  @IsInt()
+  @Min(0)
+  @IsOptional()
+  extraMinutes: number;
+
+  @IsDateString()
+  @IsOptional()
+  startDate: Date;
+
+  @IsDateString()
+  @IsOptional()
+  endDate: Date;
+
+  @IsInt()
+  @IsPositive()
+  @IsOptional()
+  durationMinutes: number;
+}
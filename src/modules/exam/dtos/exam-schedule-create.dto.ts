@@ -6,7 +6,11 @@ import {
   ArrayNotEmpty,
   ArrayMinSize,
   IsOptional,
+  ValidateNested,
 } from 'class-validator';
+import { Type } from 'class-transformer';
+
+import { ExamScheduleAccommodationUpsertDto } from './exam-schedule-accommodation-upsert.dto';
 
 export class ExamScheduleCreateDto {
   @IsDateString()
@@ -26,4 +30,10 @@ export class ExamScheduleCreateDto {
   @IsPositive({ each: true })
   @IsOptional()
   studentIds: number[];
+
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => ExamScheduleAccommodationUpsertDto)
+  @IsOptional()
+  accommodations?: ExamScheduleAccommodationUpsertDto[];
 }
@@ -0,0 +1,35 @@
+import {
+  IsDateString,
+  IsInt,
+  IsPositive,
+  IsArray,
+  ArrayNotEmpty,
+  ArrayMinSize,
+  IsOptional,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+
+import { ExamScheduleAccommodationUpsertDto } from './exam-schedule-accommodation-upsert.dto';
+
+export class ExamScheduleMakeUpCreateDto {
+  @IsDateString()
+  startDate: Date;
+
+  @IsDateString()
+  endDate: Date;
+
+  // Only absent students of the original schedule
+  @IsArray()
+  @ArrayNotEmpty()
+  @ArrayMinSize(1)
+  @IsInt({ each: true })
+  @IsPositive({ each: true })
+  studentIds: number[];
+
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => ExamScheduleAccommodationUpsertDto)
+  @IsOptional()
+  accommodations?: ExamScheduleAccommodationUpsertDto[];
+}
@@ -3,6 +3,7 @@ import { Expose, Type } from 'class-transformer';
 import { BaseResponseDto } from '#/common/dtos/base-response.dto';
 import { StudentUserResponseDto } from '#/modules/user/dtos/student-user-response.dto';
 import { ExamResponseDto } from './exam-response.dto';
+import { ExamScheduleAccommodationResponseDto } from './exam-schedule-accommodation-response.dto';
 
 export class ExamScheduleResponseDto extends BaseResponseDto {
   @Expose()
@@ -15,7 +16,15 @@ export class ExamScheduleResponseDto extends BaseResponseDto {
   @Type(() => ExamResponseDto)
   exam: ExamResponseDto;
 
+  @Expose()
+  @Type(() => ExamScheduleResponseDto)
+  originalSchedule: ExamScheduleResponseDto;
+
   @Expose()
   @Type(() => StudentUserResponseDto)
   students: StudentUserResponseDto[];
+
+  @Expose()
+  @Type(() => ExamScheduleAccommodationResponseDto)
+  accommodations: ExamScheduleAccommodationResponseDto[];
 }
@@ -6,7 +6,11 @@ import {
   ArrayMinSize,
   IsInt,
   IsPositive,
+  ValidateNested,
 } from 'class-validator';
+import { Type } from 'class-transformer';
+
+import { ExamScheduleAccommodationUpsertDto } from './exam-schedule-accommodation-upsert.dto';
 
 export class ExamScheduleUpdateDto {
   @IsDateString()
@@ -24,4 +28,10 @@ export class ExamScheduleUpdateDto {
   @IsPositive({ each: true })
   @IsOptional()
   studentIds: number[];
+
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => ExamScheduleAccommodationUpsertDto)
+  @IsOptional()
+  accommodations?: ExamScheduleAccommodationUpsertDto[];
 }
@@ -0,0 +1,23 @@
+import { Expose } from 'class-transformer';
+
+import { BaseResponseDto } from '#/common/dtos/base-response.dto';
+
+export class ExamSectionResponseDto extends BaseResponseDto {
+  @Expose()
+  orderNumber: number;
+
+  @Expose()
+  title: string;
+
+  @Expose()
+  instructions: string;
+
+  @Expose()
+  randomizeQuestions: boolean;
+
+  @Expose()
+  visibleQuestionsCount: number;
+
+  @Expose()
+  pointsPerQuestion: number;
+}
@@ -0,0 +1,40 @@
+import {
+  IsBoolean,
+  IsInt,
+  IsNumber,
+  IsOptional,
+  IsPositive,
+  IsString,
+  MaxLength,
+  Min,
+  MinLength,
+} from 'class-validator';
+
+export class ExamSectionUpsertDto {
+  @IsInt()
+  @Min(1)
+  orderNumber: number;
+
+  @IsString()
+  @MinLength(1)
+  @MaxLength(255)
+  title: string;
+
+  @IsString()
+  @IsOptional()
+  instructions: string;
+
+  @IsBoolean()
+  @IsOptional()
+  randomizeQuestions: boolean;
+
+  @IsInt()
+  @IsPositive()
+  @IsOptional()
+  visibleQuestionsCount: number;
+
+  @IsNumber()
+  @IsPositive()
+  @IsOptional()
+  pointsPerQuestion: number;
+}
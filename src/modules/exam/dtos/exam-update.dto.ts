@@ -2,6 +2,9 @@ import {
   IsEnum,
   IsOptional,
   IsInt,
+  Min,
+  Max,
+  IsNumber,
   IsPositive,
   IsString,
   MinLength,
@@ -16,7 +19,14 @@ import {
 import { Type } from 'class-transformer';
 
 import { RecordStatus } from '#/common/enums/content.enum';
+import {
+  ExamAttemptScoring,
+  ExamLatePolicy,
+  ExamReviewPolicy,
+} from '../enums/exam.enum';
 import { ExamQuestionUpdateDto } from './exam-question-update.dto';
+import { ExamQuestionPoolUpsertDto } from './exam-question-pool-upsert.dto';
+import { ExamSectionUpsertDto } from './exam-section-upsert.dto';
 
 export class ExamUpdateDto {
   @IsEnum(RecordStatus)
@@ -38,6 +48,10 @@ export class ExamUpdateDto {
   @IsOptional()
   randomizeQuestions: boolean;
 
+  @IsBoolean()
+  @IsOptional()
+  randomizeChoices: boolean;
+
   @IsInt()
   @IsPositive()
   @IsOptional()
@@ -53,6 +67,58 @@ export class ExamUpdateDto {
   @IsOptional()
   passingPoints: number;
 
+  @IsBoolean()
+  @IsOptional()
+  negativeMarking: boolean;
+
+  @IsNumber()
+  @Min(0)
+  @Max(1)
+  @IsOptional()
+  negativeMarkingRatio: number;
+
+  @IsInt()
+  @IsPositive()
+  @IsOptional()
+  maxAttempts: number;
+
+  @IsInt()
+  @Min(0)
+  @IsOptional()
+  attemptCooldownMinutes: number;
+
+  @IsInt()
+  @IsPositive()
+  @IsOptional()
+  durationMinutes: number;
+
+  @IsEnum(ExamAttemptScoring)
+  @IsOptional()
+  attemptScoring: ExamAttemptScoring;
+
+  @IsEnum(ExamLatePolicy)
+  @IsOptional()
+  latePolicy: ExamLatePolicy;
+
+  @IsInt()
+  @IsPositive()
+  @IsOptional()
+  lateGraceMinutes: number;
+
+  @IsNumber()
+  @IsPositive()
+  @Max(100)
+  @IsOptional()
+  latePenaltyPercent: number;
+
+  @IsEnum(ExamReviewPolicy)
+  @IsOptional()
+  reviewPolicy: ExamReviewPolicy;
+
+  @IsDateString()
+  @IsOptional()
+  reviewDate: Date;
+
   @IsString()
   @IsOptional()
   description: string;
@@ -69,13 +135,41 @@ export class ExamUpdateDto {
   @IsOptional()
   coveredLessonIds: number[];
 
+  // Should only include covered lessons
+  @IsArray()
+  @IsInt({ each: true })
+  @IsPositive({ each: true })
+  @IsOptional()
+  prerequisiteLessonIds: number[];
+
+  @IsInt()
+  @IsPositive()
+  @IsOptional()
+  prerequisiteActivityId: number;
+
+  @IsNumber()
+  @Min(0)
+  @IsOptional()
+  prerequisiteActivityScore: number;
+
   @IsArray()
-  @ArrayNotEmpty()
   @ValidateNested({ each: true })
   @IsOptional()
   @Type(() => ExamQuestionUpdateDto)
   questions: ExamQuestionUpdateDto[];
 
+  @IsArray()
+  @ValidateNested({ each: true })
+  @IsOptional()
+  @Type(() => ExamQuestionPoolUpsertDto)
+  questionPools: ExamQuestionPoolUpsertDto[];
+
+  @IsArray()
+  @ValidateNested({ each: true })
+  @IsOptional()
+  @Type(() => ExamSectionUpsertDto)
+  sections: ExamSectionUpsertDto[];
+
   // TODO separate scheduling or retain step like lesson?
   @IsDateString()
   @IsOptional()
@@ -0,0 +1,13 @@
+import { Expose, Type } from 'class-transformer';
+
+import { BaseResponseDto } from '#/common/dtos/base-response.dto';
+import { ExamQuestionResponseDto } from './exam-question-response.dto';
+
+export class ExamVersionResponseDto extends BaseResponseDto {
+  @Expose()
+  versionNumber: number;
+
+  @Expose()
+  @Type(() => ExamQuestionResponseDto)
+  questions: ExamQuestionResponseDto[];
+}
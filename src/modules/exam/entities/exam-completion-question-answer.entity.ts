@@ -1,4 +1,4 @@
-import { Entity, ManyToOne } from 'typeorm';
+import { Column, Entity, JoinTable, ManyToMany, ManyToOne } from 'typeorm';
 
 import { Base as BaseEntity } from '#/common/entities/base.entity';
 import { ExamCompletion } from './exam-completion.entity';
@@ -28,4 +28,21 @@ export class ExamCompletionQuestionAnswer extends BaseEntity {
     { nullable: true },
   )
   selectedQuestionChoice: ExamQuestionChoice;
+
+  // For multiple select questions
+  @ManyToMany(() => ExamQuestionChoice)
+  @JoinTable({ name: 'exam_completion_question_answer_selected_choices' })
+  selectedQuestionChoices: ExamQuestionChoice[];
+
+  // For numeric questions
+  @Column({ type: 'float', nullable: true })
+  numericAnswer: number;
+
+  // For fill in the blank questions
+  @Column({ type: 'text', nullable: true })
+  textAnswer: string;
+
+  // Points set by teacher, replaces the computed points of the answer
+  @Column({ type: 'float', nullable: true })
+  overriddenPoints: number;
 }
@@ -0,0 +1,35 @@
+import { Column, Entity, ManyToOne } from 'typeorm';
+
+import { Base as BaseEntity } from '#/common/entities/base.entity';
+import { TeacherUserAccount } from '#/modules/user/entities/teacher-user-account.entity';
+import { ExamCompletion } from './exam-completion.entity';
+import { ExamCompletionQuestionAnswer } from './exam-completion-question-answer.entity';
+
+// Audit trail of teacher score overrides, score is the answer points if a question answer is overridden
+@Entity()
+export class ExamCompletionScoreOverride extends BaseEntity {
+  @Column({ type: 'float', nullable: true })
+  previousScore: number;
+
+  @Column({ type: 'float' })
+  score: number;
+
+  @Column({ type: 'text' })
+  reason: string;
+
+  @ManyToOne(
+    () => ExamCompletion,
+    (examCompletion) => examCompletion.scoreOverrides,
+    { onDelete: 'CASCADE' },
+  )
+  completion: ExamCompletion;
+
+  @ManyToOne(() => ExamCompletionQuestionAnswer, {
+    nullable: true,
+    onDelete: 'CASCADE',
+  })
+  questionAnswer: ExamCompletionQuestionAnswer;
+
+  @ManyToOne(() => TeacherUserAccount)
+  teacher: TeacherUserAccount;
+}
@@ -10,12 +10,43 @@ import { Base as BaseEntity } from '#/common/entities/base.entity';
 import { StudentUserAccount } from '#/modules/user/entities/student-user-account.entity';
 import { Exam } from './exam.entity';
 import { ExamCompletionQuestionAnswer } from './exam-completion-question-answer.entity';
+import { ExamCompletionScoreOverride } from './exam-completion-score-override.entity';
+import { ExamVersion } from './exam-version.entity';
 
 @Entity()
 export class ExamCompletion extends BaseEntity {
-  @Column({ type: 'int', nullable: true, default: null })
+  @Column({ type: 'float', nullable: true, default: null })
   score: number;
 
+  // Total points of the questions served to student
+  @Column({ type: 'float', nullable: true })
+  maxScore: number;
+
+  // Score set by teacher for the whole completion, replaces the computed score
+  @Column({ type: 'float', nullable: true })
+  overriddenScore: number;
+
+  @Column({ type: 'boolean', default: false })
+  isScoreAdjusted: boolean;
+
+  // Submitted after the schedule window, within the exam's grace period
+  @Column({ type: 'boolean', default: false })
+  isLate: boolean;
+
+  // Penalty deducted from the computed score of a late submission
+  @Column({ type: 'float', nullable: true })
+  latePenaltyPercent: number;
+
+  @Column({ type: 'int', default: 1 })
+  attemptNumber: number;
+
+  @Column({ type: 'int', array: true, default: [] })
+  servedQuestionIds: number[];
+
+  // Served choice ids in order, keyed by question id
+  @Column({ type: 'jsonb', default: {} })
+  servedChoiceIds: Record<number, number[]>;
+
   @CreateDateColumn({ type: 'timestamp' })
   submittedAt: Date;
 
@@ -24,6 +55,17 @@ export class ExamCompletion extends BaseEntity {
   })
   exam: Exam;
 
+  // Questions the completion was graded against
+  @ManyToOne(() => ExamVersion, { nullable: true, onDelete: 'SET NULL' })
+  version: ExamVersion;
+
+  // Questions the completion was last regraded against, version stays as taken
+  @ManyToOne(() => ExamVersion, { nullable: true, onDelete: 'SET NULL' })
+  regradedVersion: ExamVersion;
+
+  @Column({ type: 'timestamp', nullable: true })
+  regradedAt: Date;
+
   @OneToMany(
     () => ExamCompletionQuestionAnswer,
     (examCompletionQuestionAnswer) => examCompletionQuestionAnswer.completion,
@@ -31,6 +73,12 @@ export class ExamCompletion extends BaseEntity {
   )
   questionAnswers: ExamCompletionQuestionAnswer[];
 
+  @OneToMany(
+    () => ExamCompletionScoreOverride,
+    (examCompletionScoreOverride) => examCompletionScoreOverride.completion,
+  )
+  scoreOverrides: ExamCompletionScoreOverride[];
+
   @ManyToOne(
     () => StudentUserAccount,
     (studentUserAccount) => studentUserAccount.examCompletions,
@@ -0,0 +1,42 @@
+import { Column, Entity, Index, ManyToOne } from 'typeorm';
+
+import { Base as BaseEntity } from '#/common/entities/base.entity';
+import { StudentUserAccount } from '#/modules/user/entities/student-user-account.entity';
+import { Exam } from './exam.entity';
+import { ExamSchedule } from './exam-schedule.entity';
+
+// Questions and choices (in order) served to a student for a single exam attempt of a schedule
+@Entity()
+@Index(['exam', 'schedule', 'student', 'attemptNumber'], { unique: true })
+// Null schedules are distinct in the index above, keep deliveries without schedule unique too
+@Index(['exam', 'student', 'attemptNumber'], {
+  unique: true,
+  where: '"schedule_id" IS NULL',
+})
+export class ExamDelivery extends BaseEntity {
+  @Column({ type: 'int', default: 1 })
+  attemptNumber: number;
+
+  @Column({ type: 'varchar', length: 255 })
+  seed: string;
+
+  @Column({ type: 'int', array: true, default: [] })
+  questionIds: number[];
+
+  // Choice ids in order, keyed by question id
+  @Column({ type: 'jsonb', default: {} })
+  choiceIds: Record<number, number[]>;
+
+  // Set on first exam take, used for exams with duration
+  @Column({ type: 'timestamp', nullable: true })
+  startedAt: Date;
+
+  @ManyToOne(() => Exam, { onDelete: 'CASCADE' })
+  exam: Exam;
+
+  @ManyToOne(() => ExamSchedule, { nullable: true, onDelete: 'SET NULL' })
+  schedule: ExamSchedule;
+
+  @ManyToOne(() => StudentUserAccount, { onDelete: 'CASCADE' })
+  student: StudentUserAccount;
+}
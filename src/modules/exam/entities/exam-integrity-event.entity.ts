@@ -0,0 +1,32 @@
+import { Column, Entity, ManyToOne } from 'typeorm';
+
+import { Base as BaseEntity } from '#/common/entities/base.entity';
+import { StudentUserAccount } from '#/modules/user/entities/student-user-account.entity';
+import { ExamIntegrityEventType } from '../enums/exam.enum';
+import { Exam } from './exam.entity';
+import { ExamCompletion } from './exam-completion.entity';
+
+@Entity()
+export class ExamIntegrityEvent extends BaseEntity {
+  @Column({ type: 'enum', enum: ExamIntegrityEventType })
+  type: ExamIntegrityEventType;
+
+  @Column({ type: 'timestamp' })
+  occurredAt: Date;
+
+  @Column({ type: 'jsonb', nullable: true })
+  metadata: Record<string, any>;
+
+  @Column({ type: 'int', default: 1 })
+  attemptNumber: number;
+
+  @ManyToOne(() => Exam, { onDelete: 'CASCADE' })
+  exam: Exam;
+
+  @ManyToOne(() => StudentUserAccount, { onDelete: 'CASCADE' })
+  student: StudentUserAccount;
+
+  // Set once the attempt is submitted
+  @ManyToOne(() => ExamCompletion, { nullable: true, onDelete: 'SET NULL' })
+  completion: ExamCompletion;
+}
@@ -23,6 +23,10 @@ export class ExamQuestionChoice extends BaseEntity {
   @Column({ type: 'boolean', default: false })
   isCorrect: boolean;
 
+  // Partial credit (0 to 1) given when an incorrect choice is selected
+  @Column({ type: 'float', nullable: true })
+  creditWeight: number;
+
   @ManyToOne(() => ExamQuestion, (examQuestion) => examQuestion.choices, {
     onDelete: 'CASCADE',
   })
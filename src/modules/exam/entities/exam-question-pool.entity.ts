@@ -0,0 +1,35 @@
+import {
+  Column,
+  Entity,
+  JoinTable,
+  ManyToMany,
+  ManyToOne,
+  OneToMany,
+} from 'typeorm';
+
+import { Base as BaseEntity } from '#/common/entities/base.entity';
+import { QuestionBankItem } from '#/modules/question-bank/entities/question-bank-item.entity';
+import { Exam } from './exam.entity';
+import { ExamQuestion } from './exam-question.entity';
+
+@Entity()
+export class ExamQuestionPool extends BaseEntity {
+  // Number of questions drawn from pool for each student
+  @Column({ type: 'int' })
+  drawCount: number;
+
+  @ManyToOne(() => Exam, (exam) => exam.questionPools, {
+    onDelete: 'CASCADE',
+  })
+  exam: Exam;
+
+  @ManyToMany(() => QuestionBankItem)
+  @JoinTable({ name: 'exam_question_pool_items' })
+  questionBankItems: QuestionBankItem[];
+
+  // Copies of question bank items, so answers keep referencing exam questions
+  @OneToMany(() => ExamQuestion, (examQuestion) => examQuestion.pool, {
+    cascade: true,
+  })
+  questions: ExamQuestion[];
+}
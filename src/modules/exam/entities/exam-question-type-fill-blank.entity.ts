@@ -0,0 +1,19 @@
+import { Entity, Column, OneToOne, JoinColumn } from 'typeorm';
+
+import { Base as BaseEntity } from '#/common/entities/base.entity';
+import { ExamQuestion } from './exam-question.entity';
+
+@Entity()
+export class ExamQuestionTypeFillBlank extends BaseEntity {
+  @Column({ type: 'text', array: true })
+  acceptedAnswers: string[];
+
+  @Column({ type: 'boolean', default: false })
+  caseSensitive: boolean;
+
+  @OneToOne(() => ExamQuestion, (examQuestion) => examQuestion.typeFillBlank, {
+    onDelete: 'CASCADE',
+  })
+  @JoinColumn()
+  question: ExamQuestion;
+}
@@ -0,0 +1,25 @@
+import { Entity, Column, OneToOne, JoinColumn } from 'typeorm';
+
+import { Base as BaseEntity } from '#/common/entities/base.entity';
+import { ExamMultipleSelectScoring } from '../enums/exam.enum';
+import { ExamQuestion } from './exam-question.entity';
+
+@Entity()
+export class ExamQuestionTypeMultipleSelect extends BaseEntity {
+  @Column({
+    type: 'enum',
+    enum: ExamMultipleSelectScoring,
+    default: ExamMultipleSelectScoring.AllOrNothing,
+  })
+  scoring: ExamMultipleSelectScoring;
+
+  @OneToOne(
+    () => ExamQuestion,
+    (examQuestion) => examQuestion.typeMultipleSelect,
+    {
+      onDelete: 'CASCADE',
+    },
+  )
+  @JoinColumn()
+  question: ExamQuestion;
+}
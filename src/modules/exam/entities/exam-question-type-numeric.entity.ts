@@ -0,0 +1,28 @@
+import { Entity, Column, OneToOne, JoinColumn } from 'typeorm';
+
+import { Base as BaseEntity } from '#/common/entities/base.entity';
+import { ExamNumericToleranceType } from '../enums/exam.enum';
+import { ExamQuestion } from './exam-question.entity';
+
+@Entity()
+export class ExamQuestionTypeNumeric extends BaseEntity {
+  @Column({ type: 'float' })
+  answer: number;
+
+  // Absolute difference, or fraction of the answer if relative (0.05 = 5%)
+  @Column({ type: 'float', default: 0 })
+  tolerance: number;
+
+  @Column({
+    type: 'enum',
+    enum: ExamNumericToleranceType,
+    default: ExamNumericToleranceType.Absolute,
+  })
+  toleranceType: ExamNumericToleranceType;
+
+  @OneToOne(() => ExamQuestion, (examQuestion) => examQuestion.typeNumeric, {
+    onDelete: 'CASCADE',
+  })
+  @JoinColumn()
+  question: ExamQuestion;
+}
@@ -1,10 +1,17 @@
-import { Column, Entity, ManyToOne, OneToMany } from 'typeorm';
+import { Column, Entity, ManyToOne, OneToMany, OneToOne } from 'typeorm';
 
 import { ExActTextType } from '#/common/enums/content.enum';
 import { Base as BaseEntity } from '#/common/entities/base.entity';
+import { QuestionBankItem } from '#/modules/question-bank/entities/question-bank-item.entity';
+import { ExamQuestionType } from '../enums/exam.enum';
 import { Exam } from './exam.entity';
 import { ExamQuestionChoice } from './exam-question-choice.entity';
+import { ExamQuestionTypeNumeric } from './exam-question-type-numeric.entity';
+import { ExamQuestionTypeMultipleSelect } from './exam-question-type-multiple-select.entity';
+import { ExamQuestionTypeFillBlank } from './exam-question-type-fill-blank.entity';
+import { ExamQuestionPool } from './exam-question-pool.entity';
 import { ExamCompletionQuestionAnswer } from './exam-completion-question-answer.entity';
+import { ExamSection } from './exam-section.entity';
 
 @Entity()
 export class ExamQuestion extends BaseEntity {
@@ -21,11 +28,45 @@ export class ExamQuestion extends BaseEntity {
   })
   textType: ExActTextType;
 
+  @Column({
+    type: 'enum',
+    enum: ExamQuestionType,
+    default: ExamQuestionType.SingleChoice,
+  })
+  type: ExamQuestionType;
+
+  // Overrides exam points per question if present
+  @Column({ type: 'float', nullable: true })
+  points: number;
+
+  @Column({ type: 'text', nullable: true })
+  explanationText: string;
+
+  // Image path of the worked solution
+  @Column({ type: 'text', nullable: true })
+  solutionImageUrl: string;
+
   @ManyToOne(() => Exam, (exam) => exam.questions, {
     onDelete: 'CASCADE',
   })
   exam: Exam;
 
+  // Pool questions are only linked to the exam through their pool
+  @ManyToOne(() => ExamQuestionPool, (pool) => pool.questions, {
+    nullable: true,
+    onDelete: 'CASCADE',
+  })
+  pool: ExamQuestionPool;
+
+  @ManyToOne(() => ExamSection, (section) => section.questions, {
+    nullable: true,
+    onDelete: 'SET NULL',
+  })
+  section: ExamSection;
+
+  @ManyToOne(() => QuestionBankItem, { nullable: true, onDelete: 'SET NULL' })
+  questionBankItem: QuestionBankItem;
+
   @OneToMany(
     () => ExamQuestionChoice,
     (examQuestionChoice) => examQuestionChoice.question,
@@ -33,6 +74,27 @@ export class ExamQuestion extends BaseEntity {
   )
   choices: ExamQuestionChoice[];
 
+  @OneToOne(
+    () => ExamQuestionTypeNumeric,
+    (examQuestionTypeNumeric) => examQuestionTypeNumeric.question,
+    { cascade: true },
+  )
+  typeNumeric: ExamQuestionTypeNumeric;
+
+  @OneToOne(
+    () => ExamQuestionTypeMultipleSelect,
+    (examQuestionTypeMultipleSelect) => examQuestionTypeMultipleSelect.question,
+    { cascade: true },
+  )
+  typeMultipleSelect: ExamQuestionTypeMultipleSelect;
+
+  @OneToOne(
+    () => ExamQuestionTypeFillBlank,
+    (examQuestionTypeFillBlank) => examQuestionTypeFillBlank.question,
+    { cascade: true },
+  )
+  typeFillBlank: ExamQuestionTypeFillBlank;
+
   @OneToMany(
     () => ExamCompletionQuestionAnswer,
     (examCompletionQuestionAnswer) => examCompletionQuestionAnswer.question,
@@ -0,0 +1,23 @@
+import { Column, Entity, ManyToOne } from 'typeorm';
+
+import { Base as BaseEntity } from '#/common/entities/base.entity';
+import { StudentUserAccount } from '#/modules/user/entities/student-user-account.entity';
+import { ExamAnswer } from '../models/exam.model';
+import { ExamRoom } from './exam-room.entity';
+
+@Entity()
+export class ExamRoomStudent extends BaseEntity {
+  @Column({ type: 'jsonb', default: [] })
+  answers: ExamAnswer[];
+
+  @Column({ type: 'timestamp', nullable: true })
+  lastActivityAt: Date;
+
+  @ManyToOne(() => ExamRoom, (examRoom) => examRoom.students, {
+    onDelete: 'CASCADE',
+  })
+  room: ExamRoom;
+
+  @ManyToOne(() => StudentUserAccount, { onDelete: 'CASCADE' })
+  student: StudentUserAccount;
+}
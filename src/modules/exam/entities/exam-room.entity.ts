@@ -0,0 +1,41 @@
+import { Column, Entity, ManyToOne, OneToMany } from 'typeorm';
+
+import { Base as BaseEntity } from '#/common/entities/base.entity';
+import { Exam } from './exam.entity';
+import { ExamSchedule } from './exam-schedule.entity';
+import { ExamRoomStudent } from './exam-room-student.entity';
+
+@Entity()
+export class ExamRoom extends BaseEntity {
+  @Column({ type: 'varchar', length: 255, unique: true })
+  name: string;
+
+  @Column({ type: 'timestamp' })
+  endDate: Date;
+
+  // Set while the countdown is paused by the teacher
+  @Column({ type: 'timestamp', nullable: true })
+  pausedAt: Date;
+
+  // Set once the countdown reaches zero, room is removed after the grace period
+  @Column({ type: 'timestamp', nullable: true })
+  expiredAt: Date;
+
+  // Api instance currently running the room timer, for multi-instance setups
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  ownerInstanceId: string;
+
+  @Column({ type: 'timestamp', nullable: true })
+  ownerHeartbeatAt: Date;
+
+  @ManyToOne(() => Exam, { onDelete: 'CASCADE' })
+  exam: Exam;
+
+  @ManyToOne(() => ExamSchedule, { onDelete: 'CASCADE' })
+  schedule: ExamSchedule;
+
+  @OneToMany(() => ExamRoomStudent, (examRoomStudent) => examRoomStudent.room, {
+    cascade: true,
+  })
+  students: ExamRoomStudent[];
+}
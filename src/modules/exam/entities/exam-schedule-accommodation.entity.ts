@@ -0,0 +1,35 @@
+import { Column, Entity, Index, ManyToOne } from 'typeorm';
+
+import { Base as BaseEntity } from '#/common/entities/base.entity';
+import { StudentUserAccount } from '#/modules/user/entities/student-user-account.entity';
+import { ExamSchedule } from './exam-schedule.entity';
+
+// Per student override of an exam schedule window
+@Entity()
+@Index(['schedule', 'student'], { unique: true })
+export class ExamScheduleAccommodation extends BaseEntity {
+  @Column({ type: 'int', default: 0 })
+  extraMinutes: number;
+
+  @Column({ type: 'timestamp', nullable: true })
+  startDate: Date;
+
+  @Column({ type: 'timestamp', nullable: true })
+  endDate: Date;
+
+  // Personal duration counted from the start date, replaces end date if present
+  @Column({ type: 'int', nullable: true })
+  durationMinutes: number;
+
+  @ManyToOne(
+    () => ExamSchedule,
+    (examSchedule) => examSchedule.accommodations,
+    {
+      onDelete: 'CASCADE',
+    },
+  )
+  schedule: ExamSchedule;
+
+  @ManyToOne(() => StudentUserAccount, { onDelete: 'CASCADE' })
+  student: StudentUserAccount;
+}
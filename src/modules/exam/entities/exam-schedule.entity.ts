@@ -1,8 +1,16 @@
-import { Column, Entity, JoinTable, ManyToMany, ManyToOne } from 'typeorm';
+import {
+  Column,
+  Entity,
+  JoinTable,
+  ManyToMany,
+  ManyToOne,
+  OneToMany,
+} from 'typeorm';
 
 import { Base as BaseEntity } from '#/common/entities/base.entity';
 import { StudentUserAccount } from '#/modules/user/entities/student-user-account.entity';
 import { Exam } from './exam.entity';
+import { ExamScheduleAccommodation } from './exam-schedule-accommodation.entity';
 
 @Entity()
 export class ExamSchedule extends BaseEntity {
@@ -17,6 +25,10 @@ export class ExamSchedule extends BaseEntity {
   })
   exam: Exam;
 
+  // Set for make-up schedules of students absent on the original schedule
+  @ManyToOne(() => ExamSchedule, { nullable: true, onDelete: 'SET NULL' })
+  originalSchedule: ExamSchedule;
+
   // TODO exam schedule should specify student and not null
   @ManyToMany(
     () => StudentUserAccount,
@@ -25,4 +37,11 @@ export class ExamSchedule extends BaseEntity {
   )
   @JoinTable({ name: 'exam_schedule_students' })
   students: StudentUserAccount[];
+
+  @OneToMany(
+    () => ExamScheduleAccommodation,
+    (examScheduleAccommodation) => examScheduleAccommodation.schedule,
+    { cascade: true },
+  )
+  accommodations: ExamScheduleAccommodation[];
 }
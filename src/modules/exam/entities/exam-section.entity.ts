@@ -0,0 +1,36 @@
+import { Column, Entity, ManyToOne, OneToMany } from 'typeorm';
+
+import { Base as BaseEntity } from '#/common/entities/base.entity';
+import { Exam } from './exam.entity';
+import { ExamQuestion } from './exam-question.entity';
+
+@Entity()
+export class ExamSection extends BaseEntity {
+  @Column({ type: 'int' })
+  orderNumber: number;
+
+  @Column({ type: 'varchar', length: 255 })
+  title: string;
+
+  @Column({ type: 'text', nullable: true })
+  instructions: string;
+
+  @Column({ type: 'boolean', default: false })
+  randomizeQuestions: boolean;
+
+  // Number of section questions served to each student, all if empty
+  @Column({ type: 'int', nullable: true })
+  visibleQuestionsCount: number;
+
+  // Overrides exam points per question for section questions if present
+  @Column({ type: 'float', nullable: true })
+  pointsPerQuestion: number;
+
+  @ManyToOne(() => Exam, (exam) => exam.sections, {
+    onDelete: 'CASCADE',
+  })
+  exam: Exam;
+
+  @OneToMany(() => ExamQuestion, (examQuestion) => examQuestion.section)
+  questions: ExamQuestion[];
+}
@@ -0,0 +1,23 @@
+import { Column, Entity, Index, ManyToOne } from 'typeorm';
+
+import { Base as BaseEntity } from '#/common/entities/base.entity';
+import { ExamVersionQuestion } from '../models/exam.model';
+import { Exam } from './exam.entity';
+
+// Immutable snapshot of exam questions, completions are graded against a version
+@Entity()
+@Index(['exam', 'versionNumber'], { unique: true })
+export class ExamVersion extends BaseEntity {
+  @Column({ type: 'int' })
+  versionNumber: number;
+
+  // Hash of the questions snapshot, used to skip creating identical versions
+  @Column({ type: 'varchar', length: 64 })
+  checksum: string;
+
+  @Column({ type: 'jsonb', default: [] })
+  questions: ExamVersionQuestion[];
+
+  @ManyToOne(() => Exam, { onDelete: 'CASCADE' })
+  exam: Exam;
+}
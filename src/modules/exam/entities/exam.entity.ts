@@ -9,12 +9,20 @@ import {
 } from 'typeorm';
 
 import { RecordStatus } from '#/common/enums/content.enum';
+import {
+  ExamAttemptScoring,
+  ExamLatePolicy,
+  ExamReviewPolicy,
+} from '../enums/exam.enum';
 import { Base as BaseEntity } from '#/common/entities/base.entity';
 import { TeacherUserAccount } from '#/modules/user/entities/teacher-user-account.entity';
 import { Lesson } from '#/modules/lesson/entities/lesson.entity';
+import { Activity } from '#/modules/activity/entities/activity.entity';
 import { ExamSchedule } from './exam-schedule.entity';
 import { ExamCompletion } from './exam-completion.entity';
+import { ExamQuestionPool } from './exam-question-pool.entity';
 import { ExamQuestion } from './exam-question.entity';
+import { ExamSection } from './exam-section.entity';
 
 @Entity()
 export class Exam extends BaseEntity {
@@ -37,6 +45,9 @@ export class Exam extends BaseEntity {
   @Column({ type: 'boolean', default: false })
   randomizeQuestions: boolean;
 
+  @Column({ type: 'boolean', default: false })
+  randomizeChoices: boolean;
+
   @Column({ type: 'int' })
   visibleQuestionsCount: number;
 
@@ -46,6 +57,55 @@ export class Exam extends BaseEntity {
   @Column({ type: 'int' })
   passingPoints: number;
 
+  // Deduct a fraction of the question points for each wrong answer
+  @Column({ type: 'boolean', default: false })
+  negativeMarking: boolean;
+
+  @Column({ type: 'float', default: 0.25 })
+  negativeMarkingRatio: number;
+
+  @Column({ type: 'int', default: 1 })
+  maxAttempts: number;
+
+  @Column({ type: 'int', default: 0 })
+  attemptCooldownMinutes: number;
+
+  // Time limit of each attempt, starts when student takes the exam
+  @Column({ type: 'int', nullable: true })
+  durationMinutes: number;
+
+  @Column({
+    type: 'enum',
+    enum: ExamAttemptScoring,
+    default: ExamAttemptScoring.Highest,
+  })
+  attemptScoring: ExamAttemptScoring;
+
+  // Handling of submissions after the student's schedule window has ended
+  @Column({
+    type: 'enum',
+    enum: ExamLatePolicy,
+    default: ExamLatePolicy.Reject,
+  })
+  latePolicy: ExamLatePolicy;
+
+  @Column({ type: 'int', nullable: true })
+  lateGraceMinutes: number;
+
+  @Column({ type: 'float', nullable: true })
+  latePenaltyPercent: number;
+
+  // When students can see correct answers and explanations of their answers
+  @Column({
+    type: 'enum',
+    enum: ExamReviewPolicy,
+    default: ExamReviewPolicy.AfterSchedule,
+  })
+  reviewPolicy: ExamReviewPolicy;
+
+  @Column({ type: 'timestamp', nullable: true })
+  reviewDate: Date;
+
   @Column({ type: 'text', nullable: true })
   description: string;
 
@@ -56,11 +116,32 @@ export class Exam extends BaseEntity {
   @JoinTable({ name: 'exam_covered_lessons' })
   coveredLessons: Lesson[] | null;
 
+  // Covered lessons student should complete before exam unlocks
+  @ManyToMany(() => Lesson, { nullable: true })
+  @JoinTable({ name: 'exam_prerequisite_lessons' })
+  prerequisiteLessons: Lesson[] | null;
+
+  // Activity student should reach the minimum score on before exam unlocks
+  @ManyToOne(() => Activity, { nullable: true, onDelete: 'SET NULL' })
+  prerequisiteActivity: Activity;
+
+  @Column({ type: 'float', nullable: true })
+  prerequisiteActivityScore: number;
+
   @OneToMany(() => ExamQuestion, (examQuestion) => examQuestion.exam, {
     cascade: true,
   })
   questions: ExamQuestion[];
 
+  @OneToMany(
+    () => ExamQuestionPool,
+    (examQuestionPool) => examQuestionPool.exam,
+  )
+  questionPools: ExamQuestionPool[];
+
+  @OneToMany(() => ExamSection, (examSection) => examSection.exam)
+  sections: ExamSection[];
+
   @OneToMany(() => ExamCompletion, (examCompletion) => examCompletion.exam)
   completions: ExamCompletion[];
 
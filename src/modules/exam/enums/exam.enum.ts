@@ -0,0 +1,59 @@
+export enum ExamAttemptScoring {
+  Highest = 'highest',
+  Latest = 'latest',
+  Average = 'average',
+}
+
+export enum ExamLatePolicy {
+  Reject = 'reject',
+  Grace = 'grace',
+  Penalty = 'penalty',
+}
+
+export enum ExamReviewPolicy {
+  Never = 'never',
+  Immediate = 'immediate',
+  AfterSchedule = 'after-schedule',
+  FromDate = 'from-date',
+}
+
+export enum ExamQuestionType {
+  SingleChoice = 'single-choice',
+  MultipleSelect = 'multiple-select',
+  Numeric = 'numeric',
+  FillBlank = 'fill-blank',
+}
+
+export enum ExamNumericToleranceType {
+  Absolute = 'absolute',
+  Relative = 'relative',
+}
+
+export enum ExamMultipleSelectScoring {
+  AllOrNothing = 'all-or-nothing',
+  Partial = 'partial',
+}
+
+export enum ExamIntegrityEventType {
+  Blur = 'blur',
+  Focus = 'focus',
+  VisibilityHidden = 'visibility-hidden',
+  VisibilityVisible = 'visibility-visible',
+  Copy = 'copy',
+  Paste = 'paste',
+  Disconnect = 'disconnect',
+  Reconnect = 'reconnect',
+}
+
+export enum ExamIntegrityFlag {
+  FrequentFocusLoss = 'frequent-focus-loss',
+  LongFocusLoss = 'long-focus-loss',
+  CopyPaste = 'copy-paste',
+  FrequentReconnects = 'frequent-reconnects',
+}
+
+export enum ExamQuestionFormat {
+  Aiken = 'aiken',
+  Gift = 'gift',
+  Qti = 'qti',
+}
@@ -0,0 +1,98 @@
+import { randomUUID } from 'crypto';
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { FindOptionsWhere, IsNull, Repository } from 'typeorm';
+
+import { Exam } from './entities/exam.entity';
+import { ExamDelivery } from './entities/exam-delivery.entity';
+import { generateExamDelivery } from './helpers/exam.helper';
+
+@Injectable()
+export class ExamDeliveryService {
+  constructor(
+    @InjectRepository(ExamDelivery)
+    private readonly repo: Repository<ExamDelivery>,
+  ) {}
+
+  getAllByExamId(examId: number): Promise<ExamDelivery[]> {
+    return this.repo.find({
+      where: { exam: { id: examId } },
+      relations: { schedule: true, student: true },
+    });
+  }
+
+  getOne(
+    examId: number,
+    scheduleId: number,
+    studentId: number,
+    attemptNumber: number,
+  ): Promise<ExamDelivery> {
+    return this.repo.findOne({
+      where: {
+        exam: { id: examId },
+        schedule: scheduleId ? { id: scheduleId } : IsNull(),
+        student: { id: studentId },
+        attemptNumber,
+      },
+    });
+  }
+
+  // Exam should include its sections, questions (with choices and section) and question pools (with questions)
+  async getOrCreate(
+    exam: Exam,
+    scheduleId: number,
+    studentId: number,
+    attemptNumber: number,
+  ): Promise<ExamDelivery> {
+    // Each schedule (e.g. make-up schedule) gets its own order
+    const where: FindOptionsWhere<ExamDelivery> = {
+      exam: { id: exam.id },
+      schedule: scheduleId ? { id: scheduleId } : IsNull(),
+      student: { id: studentId },
+      attemptNumber,
+    };
+
+    const delivery = await this.repo.findOne({ where });
+
+    if (delivery) {
+      return delivery;
+    }
+
+    const seed = randomUUID();
+    const { questionIds, choiceIds } = generateExamDelivery(exam, seed);
+
+    // Ignore insert if the same delivery was created by a concurrent request
+    await this.repo
+      .createQueryBuilder()
+      .insert()
+      .values({
+        attemptNumber,
+        seed,
+        questionIds,
+        choiceIds,
+        exam: { id: exam.id },
+        schedule: scheduleId ? { id: scheduleId } : null,
+        student: { id: studentId },
+      })
+      .orIgnore()
+      .execute();
+
+    return this.repo.findOne({ where });
+  }
+
+  // Keep the first start date if another request already set it
+  async setStarted(
+    delivery: ExamDelivery,
+    startedAt: Date,
+  ): Promise<ExamDelivery> {
+    await this.repo
+      .createQueryBuilder()
+      .update()
+      .set({ startedAt })
+      .where('id = :id', { id: delivery.id })
+      .andWhere('started_at IS NULL')
+      .execute();
+
+    return this.repo.findOne({ where: { id: delivery.id } });
+  }
+}
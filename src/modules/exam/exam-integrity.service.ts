@@ -0,0 +1,62 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+
+import { ExamIntegrityEventType } from './enums/exam.enum';
+import { ExamIntegrityEvent } from './entities/exam-integrity-event.entity';
+
+@Injectable()
+export class ExamIntegrityService {
+  constructor(
+    @InjectRepository(ExamIntegrityEvent)
+    private readonly repo: Repository<ExamIntegrityEvent>,
+  ) {}
+
+  getAllByExamIdAndStudentId(
+    examId: number,
+    studentId: number,
+  ): Promise<ExamIntegrityEvent[]> {
+    return this.repo.find({
+      where: { exam: { id: examId }, student: { id: studentId } },
+      relations: { completion: true },
+      order: { occurredAt: 'ASC' },
+    });
+  }
+
+  create(
+    examId: number,
+    studentId: number,
+    attemptNumber: number,
+    type: ExamIntegrityEventType,
+    metadata?: Record<string, any>,
+  ): Promise<ExamIntegrityEvent> {
+    const event = this.repo.create({
+      type,
+      attemptNumber,
+      metadata: metadata || null,
+      occurredAt: new Date(),
+      exam: { id: examId },
+      student: { id: studentId },
+    });
+
+    return this.repo.save(event);
+  }
+
+  // Link events of a submitted attempt to its completion
+  async setCompletion(
+    examId: number,
+    studentId: number,
+    attemptNumber: number,
+    completionId: number,
+  ): Promise<void> {
+    await this.repo
+      .createQueryBuilder()
+      .update()
+      .set({ completion: { id: completionId } })
+      .where('exam_id = :examId', { examId })
+      .andWhere('student_id = :studentId', { studentId })
+      .andWhere('attempt_number = :attemptNumber', { attemptNumber })
+      .andWhere('completion_id IS NULL')
+      .execute();
+  }
+}
@@ -0,0 +1,117 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, Repository } from 'typeorm';
+
+import { RecordStatus } from '#/common/enums/content.enum';
+import { LessonCompletion } from '../lesson/entities/lesson-completion.entity';
+import { Activity } from '../activity/entities/activity.entity';
+import { ActivityCategoryCompletion } from '../activity/entities/activity-category-completion.entity';
+import { Exam } from './entities/exam.entity';
+import { ExamCreateDto } from './dtos/exam-create.dto';
+import { ExamMissingPrerequisites } from './models/exam.model';
+
+@Injectable()
+export class ExamPrerequisiteService {
+  constructor(
+    @InjectRepository(Activity)
+    private readonly activityRepo: Repository<Activity>,
+    @InjectRepository(LessonCompletion)
+    private readonly lessonCompletionRepo: Repository<LessonCompletion>,
+    @InjectRepository(ActivityCategoryCompletion)
+    private readonly activityCategoryCompletionRepo: Repository<ActivityCategoryCompletion>,
+  ) {}
+
+  async validateUpsert(
+    examDto: Pick<
+      ExamCreateDto,
+      'coveredLessonIds' | 'prerequisiteLessonIds' | 'prerequisiteActivityId'
+    >,
+    teacherId: number,
+  ) {
+    const { coveredLessonIds, prerequisiteLessonIds, prerequisiteActivityId } =
+      examDto;
+
+    // Prerequisite lessons are picked from the covered lessons of exam
+    if (prerequisiteLessonIds?.some((id) => !coveredLessonIds?.includes(id))) {
+      return {
+        error: new BadRequestException(
+          'Prerequisite lesson should be a covered lesson',
+        ),
+      };
+    }
+
+    if (prerequisiteActivityId) {
+      const activityCount = await this.activityRepo.count({
+        where: {
+          id: prerequisiteActivityId,
+          status: RecordStatus.Published,
+          teacher: { id: teacherId },
+        },
+      });
+
+      if (!activityCount) {
+        return {
+          error: new BadRequestException('Prerequisite activity is invalid'),
+        };
+      }
+    }
+
+    return { error: null };
+  }
+
+  // Exam should include its prerequisite lessons and activity,
+  // returns null if student has met all prerequisites
+  async getMissingByStudentId(
+    exam: Exam,
+    studentId: number,
+  ): Promise<ExamMissingPrerequisites | null> {
+    const {
+      prerequisiteLessons,
+      prerequisiteActivity,
+      prerequisiteActivityScore,
+    } = exam;
+
+    let lessons = [];
+    if (prerequisiteLessons?.length) {
+      const completions = await this.lessonCompletionRepo.find({
+        where: {
+          lesson: { id: In(prerequisiteLessons.map((lesson) => lesson.id)) },
+          student: { id: studentId },
+        },
+        relations: { lesson: true },
+      });
+
+      lessons = prerequisiteLessons.filter(
+        (lesson) => !completions.some((com) => com.lesson.id === lesson.id),
+      );
+    }
+
+    // Compare minimum score with the student's best completion on any activity category
+    let studentActivityScore = null;
+    let isActivityMissing = false;
+    if (prerequisiteActivity) {
+      studentActivityScore = await this.activityCategoryCompletionRepo.maximum(
+        'score',
+        {
+          activityCategory: { activity: { id: prerequisiteActivity.id } },
+          student: { id: studentId },
+        },
+      );
+
+      isActivityMissing =
+        studentActivityScore == null ||
+        studentActivityScore < (prerequisiteActivityScore || 0);
+    }
+
+    if (!lessons.length && !isActivityMissing) {
+      return null;
+    }
+
+    return {
+      lessons,
+      activity: isActivityMissing ? prerequisiteActivity : null,
+      activityScore: isActivityMissing ? prerequisiteActivityScore : null,
+      studentActivityScore,
+    };
+  }
+}
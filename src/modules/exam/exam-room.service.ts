@@ -0,0 +1,211 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Brackets, IsNull, Repository } from 'typeorm';
+
+import dayjs from '#/common/configs/dayjs.config';
+import { ExamRoom } from './entities/exam-room.entity';
+import { ExamRoomStudent } from './entities/exam-room-student.entity';
+import { ExamAnswer } from './models/exam.model';
+
+@Injectable()
+export class ExamRoomService {
+  constructor(
+    @InjectRepository(ExamRoom)
+    private readonly repo: Repository<ExamRoom>,
+    @InjectRepository(ExamRoomStudent)
+    private readonly examRoomStudentRepo: Repository<ExamRoomStudent>,
+  ) {}
+
+  getAll(): Promise<ExamRoom[]> {
+    return this.repo.find();
+  }
+
+  getAllByExamId(examId: number): Promise<ExamRoom[]> {
+    return this.repo.find({
+      where: { exam: { id: examId } },
+      relations: { schedule: true, students: { student: { user: true } } },
+      order: { createdAt: 'ASC' },
+    });
+  }
+
+  getOneByName(name: string): Promise<ExamRoom> {
+    return this.repo.findOne({
+      where: { name },
+      relations: {
+        exam: { teacher: true },
+        schedule: true,
+        students: { student: true },
+      },
+    });
+  }
+
+  // Get room without relations, used by the room countdown
+  getTimerByName(name: string): Promise<ExamRoom> {
+    return this.repo.findOne({ where: { name } });
+  }
+
+  getStudentByExamIdAndStudentId(
+    examId: number,
+    studentId: number,
+  ): Promise<ExamRoomStudent> {
+    return this.examRoomStudentRepo.findOne({
+      where: { room: { exam: { id: examId } }, student: { id: studentId } },
+      relations: { room: { exam: true } },
+    });
+  }
+
+  getStudentByRoomNameAndStudentId(
+    roomName: string,
+    studentId: number,
+  ): Promise<ExamRoomStudent> {
+    return this.examRoomStudentRepo.findOne({
+      where: { room: { name: roomName }, student: { id: studentId } },
+      relations: { room: { exam: true } },
+    });
+  }
+
+  async create(
+    name: string,
+    examId: number,
+    scheduleId: number,
+    endDate: Date,
+    ownerInstanceId: string,
+  ): Promise<ExamRoom> {
+    // Ignore insert if another api instance created the same room first
+    await this.repo
+      .createQueryBuilder()
+      .insert()
+      .values({
+        name,
+        endDate,
+        ownerInstanceId,
+        ownerHeartbeatAt: new Date(),
+        exam: { id: examId },
+        schedule: { id: scheduleId },
+      })
+      .orIgnore()
+      .execute();
+
+    return this.getOneByName(name);
+  }
+
+  // Take over room timer if it has no owner or its owner stopped sending heartbeats,
+  // room should still have the same expiration state so only one instance acts on it
+  async claim(
+    room: ExamRoom,
+    instanceId: string,
+    staleBefore: Date,
+  ): Promise<boolean> {
+    const result = await this.repo
+      .createQueryBuilder()
+      .update()
+      .set({ ownerInstanceId: instanceId, ownerHeartbeatAt: new Date() })
+      .where('id = :id', { id: room.id })
+      .andWhere(
+        new Brackets((qb) => {
+          qb.where('owner_instance_id IS NULL')
+            .orWhere('owner_instance_id = :instanceId', { instanceId })
+            .orWhere('owner_heartbeat_at < :staleBefore', { staleBefore });
+        }),
+      )
+      .andWhere(
+        room.expiredAt ? 'expired_at IS NOT NULL' : 'expired_at IS NULL',
+      )
+      .execute();
+
+    return !!result.affected;
+  }
+
+  async setHeartbeatByOwner(instanceId: string): Promise<void> {
+    await this.repo.update(
+      { ownerInstanceId: instanceId },
+      { ownerHeartbeatAt: new Date() },
+    );
+  }
+
+  addStudent(
+    room: ExamRoom,
+    studentId: number,
+    answers: ExamAnswer[],
+  ): Promise<ExamRoomStudent> {
+    const roomStudent = this.examRoomStudentRepo.create({
+      answers,
+      lastActivityAt: new Date(),
+      room: { id: room.id },
+      student: { id: studentId },
+    });
+
+    return this.examRoomStudentRepo.save(roomStudent);
+  }
+
+  async setStudentAnswers(
+    roomStudent: ExamRoomStudent,
+    answers: ExamAnswer[],
+  ): Promise<boolean> {
+    const result = await this.examRoomStudentRepo.update(
+      { id: roomStudent.id },
+      { answers, lastActivityAt: new Date() },
+    );
+
+    return !!result.affected;
+  }
+
+  async moveStudent(
+    roomStudent: ExamRoomStudent,
+    room: ExamRoom,
+  ): Promise<boolean> {
+    const result = await this.examRoomStudentRepo.update(
+      { id: roomStudent.id },
+      { room: { id: room.id } },
+    );
+
+    return !!result.affected;
+  }
+
+  async removeStudent(roomStudent: ExamRoomStudent): Promise<boolean> {
+    const result = await this.examRoomStudentRepo.delete({
+      id: roomStudent.id,
+    });
+
+    return !!result.affected;
+  }
+
+  // Only the room owner can expire the room once
+  async setExpiredByOwner(
+    room: ExamRoom,
+    instanceId: string,
+    expiredAt: Date,
+  ): Promise<boolean> {
+    const result = await this.repo.update(
+      { id: room.id, ownerInstanceId: instanceId, expiredAt: IsNull() },
+      { expiredAt },
+    );
+
+    return !!result.affected;
+  }
+
+  async setPaused(room: ExamRoom, pausedAt: Date): Promise<ExamRoom> {
+    await this.repo.update({ id: room.id }, { pausedAt });
+    return { ...room, pausedAt };
+  }
+
+  // Resume countdown and push end date by the paused duration
+  async setResumed(room: ExamRoom, resumedAt: Date): Promise<ExamRoom> {
+    const endDate = dayjs(room.endDate)
+      .add(dayjs(resumedAt).diff(room.pausedAt), 'ms')
+      .toDate();
+
+    await this.repo.update({ id: room.id }, { endDate, pausedAt: null });
+    return { ...room, endDate, pausedAt: null };
+  }
+
+  async setEndDate(room: ExamRoom, endDate: Date): Promise<ExamRoom> {
+    await this.repo.update({ id: room.id }, { endDate });
+    return { ...room, endDate };
+  }
+
+  async delete(id: number): Promise<boolean> {
+    const result = await this.repo.delete({ id });
+    return !!result.affected;
+  }
+}
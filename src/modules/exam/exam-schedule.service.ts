@@ -9,6 +9,7 @@ import {
 import { InjectRepository } from '@nestjs/typeorm';
 import {
   Between,
+  DeepPartial,
   FindOptionsWhere,
   In,
   LessThan,
@@ -23,14 +24,19 @@ import { UserApprovalStatus } from '../user/enums/user.enum';
 import { UserService } from '../user/user.service';
 import { ScheduleService } from '../schedule/schedule.service';
 import { ExamSchedule } from './entities/exam-schedule.entity';
+import { ExamScheduleAccommodation } from './entities/exam-schedule-accommodation.entity';
 import { ExamScheduleCreateDto } from './dtos/exam-schedule-create.dto';
 import { ExamScheduleUpdateDto } from './dtos/exam-schedule-update.dto';
+import { ExamScheduleAccommodationUpsertDto } from './dtos/exam-schedule-accommodation-upsert.dto';
+import { getExamScheduleStudentWindow } from './helpers/exam.helper';
 
 @Injectable()
 export class ExamScheduleService {
   constructor(
     @InjectRepository(ExamSchedule)
     private readonly repo: Repository<ExamSchedule>,
+    @InjectRepository(ExamScheduleAccommodation)
+    private readonly examScheduleAccommodationRepo: Repository<ExamScheduleAccommodation>,
     @Inject(UserService)
     private readonly userService: UserService,
     @Inject(forwardRef(() => ScheduleService))
@@ -171,10 +177,75 @@ export class ExamScheduleService {
     return { error: null };
   }
 
+  async validateAccommodations(
+    accommodations: ExamScheduleAccommodationUpsertDto[],
+    teacherId: number,
+    studentIds?: number[],
+  ) {
+    let targetStudentIds = studentIds || [];
+    if (!targetStudentIds.length) {
+      const allStudents = await this.userService.getStudentsByTeacherId(
+        teacherId,
+        null,
+        null,
+        UserApprovalStatus.Approved,
+      );
+      targetStudentIds = allStudents.map((student) => student.id);
+    }
+
+    const accommodationStudentIds = accommodations.map((acc) => acc.studentId);
+
+    // Check if accommodations are only for the students of the schedule
+    if (
+      accommodationStudentIds.some((id) => !targetStudentIds.includes(id)) ||
+      new Set(accommodationStudentIds).size !== accommodationStudentIds.length
+    ) {
+      return {
+        error: new BadRequestException('Accommodation student is invalid'),
+      };
+    }
+
+    const isInvalidDate = accommodations.some(
+      ({ startDate, endDate }) =>
+        startDate && endDate && !dayjs(startDate).isBefore(endDate),
+    );
+
+    if (isInvalidDate) {
+      return {
+        error: new BadRequestException('Accommodation schedule is invalid'),
+      };
+    }
+
+    return { error: null };
+  }
+
   getOneById(id: number): Promise<ExamSchedule> {
     return this.repo.findOne({ where: { id } });
   }
 
+  getOneByIdAndTeacherId(id: number, teacherId: number): Promise<ExamSchedule> {
+    return this.repo.findOne({
+      where: {
+        id,
+        exam: { status: RecordStatus.Published, teacher: { id: teacherId } },
+      },
+      relations: {
+        exam: true,
+        students: true,
+        accommodations: { student: true },
+      },
+    });
+  }
+
+  getMakeUpsByOriginalScheduleId(
+    originalScheduleId: number,
+  ): Promise<ExamSchedule[]> {
+    return this.repo.find({
+      where: { originalSchedule: { id: originalScheduleId } },
+      relations: { students: true },
+    });
+  }
+
   getByStartAndEndDateAndTeacherId(
     startDate: Date,
     endDate: Date,
@@ -218,12 +289,15 @@ export class ExamScheduleService {
         students: { id: studentId },
         exam: { status: RecordStatus.Published, teacher: { id: teacherId } },
       },
-      relations: { exam: true },
+      relations: { exam: true, accommodations: { student: true } },
       order: { startDate: 'ASC' },
     });
 
     const transformedSchedules = schedules.map((s) => {
-      const { exam, ...moreSchedule } = s;
+      // eslint-disable-next-line @typescript-eslint/no-unused-vars
+      const { exam, accommodations, ...moreSchedule } = s;
+      // Apply student accommodation to schedule dates
+      const { startDate, endDate } = getExamScheduleStudentWindow(s, studentId);
       const {
         slug,
         orderNumber,
@@ -236,6 +310,8 @@ export class ExamScheduleService {
 
       return {
         ...moreSchedule,
+        startDate,
+        endDate,
         exam: {
           slug,
           orderNumber,
@@ -274,8 +350,10 @@ export class ExamScheduleService {
   async create(
     examScheduleDto: ExamScheduleCreateDto,
     teacherId: number,
+    originalScheduleId?: number,
   ): Promise<ExamSchedule> {
-    const { examId, studentIds, ...moreExamScheduleDto } = examScheduleDto;
+    const { examId, studentIds, accommodations, ...moreExamScheduleDto } =
+      examScheduleDto;
 
     let students = studentIds?.length ? studentIds.map((id) => ({ id })) : [];
     if (!students.length) {
@@ -291,7 +369,11 @@ export class ExamScheduleService {
     const examSchedule = this.repo.create({
       ...moreExamScheduleDto,
       students,
+      accommodations: this.generateAccommodations(accommodations || []),
       exam: { id: examId },
+      originalSchedule: originalScheduleId
+        ? { id: originalScheduleId }
+        : undefined,
     });
 
     return this.repo.save(examSchedule);
@@ -302,7 +384,7 @@ export class ExamScheduleService {
     examScheduleDto: ExamScheduleUpdateDto,
     teacherId: number,
   ): Promise<ExamSchedule> {
-    const { startDate, endDate, studentIds } = examScheduleDto;
+    const { startDate, endDate, studentIds, accommodations } = examScheduleDto;
     // Get exam schedule, cancel schedule update and throw error if not found
     const examSchedule = await this.getOneById(id);
     if (!examSchedule) {
@@ -320,15 +402,33 @@ export class ExamScheduleService {
       students = allStudents.map(({ id }) => ({ id }));
     }
 
+    // Replace existing accommodations if present
+    if (accommodations) {
+      await this.examScheduleAccommodationRepo.delete({ schedule: { id } });
+    }
+
     return this.repo.save({
       ...examSchedule,
       startDate,
       endDate,
       students,
+      ...(accommodations && {
+        accommodations: this.generateAccommodations(accommodations),
+      }),
       exam: examSchedule.exam,
     });
   }
 
+  generateAccommodations(
+    accommodations: ExamScheduleAccommodationUpsertDto[],
+  ): DeepPartial<ExamScheduleAccommodation>[] {
+    return accommodations.map(({ studentId, ...moreAccommodation }) => ({
+      ...moreAccommodation,
+      extraMinutes: moreAccommodation.extraMinutes || 0,
+      student: { id: studentId },
+    }));
+  }
+
   async delete(id: number): Promise<boolean> {
     const result = await this.repo.delete({ id });
     return !!result.affected;
@@ -0,0 +1,63 @@
+import { createHash } from 'crypto';
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+
+import { ExamQuestion } from './entities/exam-question.entity';
+import { ExamVersion } from './entities/exam-version.entity';
+import { generateExamVersionQuestions } from './helpers/exam.helper';
+
+@Injectable()
+export class ExamVersionService {
+  constructor(
+    @InjectRepository(ExamVersion)
+    private readonly repo: Repository<ExamVersion>,
+  ) {}
+
+  getAllByExamId(examId: number): Promise<ExamVersion[]> {
+    return this.repo.find({
+      where: { exam: { id: examId } },
+      order: { versionNumber: 'DESC' },
+    });
+  }
+
+  // Questions should include their pool, section, choices and type configs.
+  // Reuse the latest version if exam questions did not change since
+  async getOrCreateLatest(
+    examId: number,
+    questions: ExamQuestion[],
+  ): Promise<ExamVersion> {
+    const versionQuestions = generateExamVersionQuestions(questions);
+    const checksum = createHash('sha256')
+      .update(JSON.stringify(versionQuestions))
+      .digest('hex');
+
+    const latestVersion = await this.repo.findOne({
+      where: { exam: { id: examId } },
+      order: { versionNumber: 'DESC' },
+    });
+
+    if (latestVersion?.checksum === checksum) {
+      return latestVersion;
+    }
+
+    const versionNumber = (latestVersion?.versionNumber || 0) + 1;
+
+    // Ignore insert if the same version was created by a concurrent request
+    await this.repo
+      .createQueryBuilder()
+      .insert()
+      .values({
+        versionNumber,
+        checksum,
+        questions: versionQuestions,
+        exam: { id: examId },
+      })
+      .orIgnore()
+      .execute();
+
+    return this.repo.findOne({
+      where: { exam: { id: examId }, versionNumber },
+    });
+  }
+}
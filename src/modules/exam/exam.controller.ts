@@ -14,27 +14,41 @@ import { UseFilterFieldsInterceptor } from '#/common/interceptors/filter-fields.
 import { UseSerializeInterceptor } from '#/common/interceptors/serialize.interceptor';
 import { UseAuthGuard } from '#/common/guards/auth.guard';
 import { User } from '../user/entities/user.entity';
+import { StudentUserResponseDto } from '../user/dtos/student-user-response.dto';
 import { UserRole } from '../user/enums/user.enum';
 import { CurrentUser } from '../user/decorators/current-user.decorator';
 import { Exam } from './entities/exam.entity';
 import { ExamResponseDto } from './dtos/exam-response.dto';
 import { ExamCreateDto } from './dtos/exam-create.dto';
 import { ExamUpdateDto } from './dtos/exam-update.dto';
+import { ExamImportDto } from './dtos/exam-import.dto';
+import { ExamExportResponseDto } from './dtos/exam-export-response.dto';
 import { ExamScheduleResponseDto } from './dtos/exam-schedule-response.dto';
 import { ExamScheduleCreateDto } from './dtos/exam-schedule-create.dto';
 import { ExamScheduleUpdateDto } from './dtos/exam-schedule-update.dto';
+import { ExamScheduleMakeUpCreateDto } from './dtos/exam-schedule-make-up-create.dto';
 import { ExamCompletionResponseDto } from './dtos/exam-completion-response.dto';
 import { StudentExamListResponseDto } from './dtos/student-exam-list-response.dto';
 import { ExamCompletionCreateDto } from './dtos/exam-completion-create.dto';
+import { ExamRoomExtendDto } from './dtos/exam-room-extend.dto';
+import { ExamCompletionScoreOverrideCreateDto } from './dtos/exam-completion-score-override-create.dto';
+import { ExamCompletionScoreOverrideResponseDto } from './dtos/exam-completion-score-override-response.dto';
+import { ExamQuestionFormat } from './enums/exam.enum';
 import { ExamService } from './exam.service';
+import { ExamGateway } from './exam.gateway';
 
 const TEACHER_URL = '/teachers';
 const STUDENT_URL = '/students';
 const SCHEDULE_URL = '/schedules';
+const ROOM_URL = '/rooms';
+const COMPLETION_URL = '/completions';
 
 @Controller('exams')
 export class ExamController {
-  constructor(private readonly examService: ExamService) {}
+  constructor(
+    private readonly examService: ExamService,
+    private readonly examGateway: ExamGateway,
+  ) {}
 
   // TEACHERS
 
@@ -106,6 +120,41 @@ export class ExamController {
     return this.examService.create(transformedBody, teacherId);
   }
 
+  @Post('/:slug/clone')
+  @UseAuthGuard(UserRole.Teacher)
+  @UseSerializeInterceptor(ExamResponseDto)
+  clone(@Param('slug') slug: string, @CurrentUser() user: User): Promise<Exam> {
+    const { id: teacherId } = user.teacherUserAccount;
+    return this.examService.cloneBySlugAndTeacherId(slug, teacherId);
+  }
+
+  @Post('/import')
+  @UseAuthGuard(UserRole.Teacher)
+  @UseSerializeInterceptor(ExamResponseDto)
+  import(
+    @Body() body: ExamImportDto,
+    @CurrentUser() user: User,
+  ): Promise<Exam> {
+    const { id: teacherId } = user.teacherUserAccount;
+    return this.examService.importExam(body, teacherId);
+  }
+
+  @Get('/:slug/export')
+  @UseAuthGuard(UserRole.Teacher)
+  @UseSerializeInterceptor(ExamExportResponseDto)
+  export(
+    @Param('slug') slug: string,
+    @CurrentUser() user: User,
+    @Query('format') format: ExamQuestionFormat,
+  ): Promise<ExamExportResponseDto> {
+    const { id: teacherId } = user.teacherUserAccount;
+    return this.examService.exportExamBySlugAndTeacherId(
+      slug,
+      format,
+      teacherId,
+    );
+  }
+
   @Patch('/:slug')
   @UseAuthGuard(UserRole.Teacher)
   @UseSerializeInterceptor(ExamResponseDto)
@@ -208,6 +257,38 @@ export class ExamController {
     );
   }
 
+  // COMPLETIONS
+
+  @Get(`${COMPLETION_URL}/:completionId/score-overrides`)
+  @UseAuthGuard(UserRole.Teacher)
+  @UseSerializeInterceptor(ExamCompletionScoreOverrideResponseDto)
+  getCompletionScoreOverrides(
+    @Param('completionId') completionId: number,
+    @CurrentUser() user: User,
+  ) {
+    const { id: teacherId } = user.teacherUserAccount;
+    return this.examService.getCompletionScoreOverridesByIdAndTeacherId(
+      completionId,
+      teacherId,
+    );
+  }
+
+  @Post(`${COMPLETION_URL}/:completionId/score-overrides`)
+  @UseAuthGuard(UserRole.Teacher)
+  @UseSerializeInterceptor(ExamCompletionResponseDto)
+  createCompletionScoreOverride(
+    @Param('completionId') completionId: number,
+    @Body() body: ExamCompletionScoreOverrideCreateDto,
+    @CurrentUser() user: User,
+  ) {
+    const { id: teacherId } = user.teacherUserAccount;
+    return this.examService.createCompletionScoreOverrideByIdAndTeacherId(
+      completionId,
+      body,
+      teacherId,
+    );
+  }
+
   // SCHEDULES
 
   @Post(`${SCHEDULE_URL}`)
@@ -252,6 +333,43 @@ export class ExamController {
     );
   }
 
+  @Get(`${SCHEDULE_URL}/:scheduleId/absentees`)
+  @UseAuthGuard(UserRole.Teacher)
+  @UseSerializeInterceptor(StudentUserResponseDto)
+  getScheduleAbsentees(
+    @Param('scheduleId') scheduleId: number,
+    @CurrentUser() user: User,
+  ) {
+    const { id: teacherId } = user.teacherUserAccount;
+    return this.examService.getScheduleAbsenteesByIdAndTeacherId(
+      scheduleId,
+      teacherId,
+    );
+  }
+
+  @Post(`${SCHEDULE_URL}/:scheduleId/make-up`)
+  @UseAuthGuard(UserRole.Teacher)
+  @UseSerializeInterceptor(ExamScheduleResponseDto)
+  createMakeUpSchedule(
+    @Param('scheduleId') scheduleId: number,
+    @Body() body: ExamScheduleMakeUpCreateDto,
+    @CurrentUser() user: User,
+  ) {
+    const { id: teacherId } = user.teacherUserAccount;
+
+    const transformedBody = {
+      ...body,
+      startDate: dayjs(body.startDate).toDate(),
+      endDate: dayjs(body.endDate).toDate(),
+    };
+
+    return this.examService.createMakeUpSchedule(
+      scheduleId,
+      transformedBody,
+      teacherId,
+    );
+  }
+
   @Delete(`${SCHEDULE_URL}/:scheduleId`)
   @UseAuthGuard(UserRole.Teacher)
   deleteSchedule(
@@ -261,4 +379,65 @@ export class ExamController {
     const { id: teacherId } = user.teacherUserAccount;
     return this.examService.deleteSchedule(scheduleId, teacherId);
   }
+
+  // ROOMS
+
+  @Post(`${ROOM_URL}/:roomName/pause`)
+  @UseAuthGuard(UserRole.Teacher)
+  async pauseRoom(
+    @Param('roomName') roomName: string,
+    @CurrentUser() user: User,
+  ) {
+    const { id: teacherId } = user.teacherUserAccount;
+    const { name, endDate, pausedAt } = await this.examGateway.pauseRoom(
+      roomName,
+      teacherId,
+    );
+
+    return { roomName: name, endDate, pausedAt };
+  }
+
+  @Post(`${ROOM_URL}/:roomName/resume`)
+  @UseAuthGuard(UserRole.Teacher)
+  async resumeRoom(
+    @Param('roomName') roomName: string,
+    @CurrentUser() user: User,
+  ) {
+    const { id: teacherId } = user.teacherUserAccount;
+    const { name, endDate, pausedAt } = await this.examGateway.resumeRoom(
+      roomName,
+      teacherId,
+    );
+
+    return { roomName: name, endDate, pausedAt };
+  }
+
+  @Post(`${ROOM_URL}/:roomName/extend`)
+  @UseAuthGuard(UserRole.Teacher)
+  async extendRoom(
+    @Param('roomName') roomName: string,
+    @Body() body: ExamRoomExtendDto,
+    @CurrentUser() user: User,
+  ) {
+    const { id: teacherId } = user.teacherUserAccount;
+    const { name, endDate, pausedAt } = await this.examGateway.extendRoom(
+      roomName,
+      body.minutes,
+      teacherId,
+      body.studentId,
+    );
+
+    return { roomName: name, endDate, pausedAt };
+  }
+
+  @Post(`${ROOM_URL}/:roomName/students/:studentId/submit`)
+  @UseAuthGuard(UserRole.Teacher)
+  forceSubmitRoomStudent(
+    @Param('roomName') roomName: string,
+    @Param('studentId') studentId: number,
+    @CurrentUser() user: User,
+  ) {
+    const { id: teacherId } = user.teacherUserAccount;
+    return this.examGateway.forceSubmitStudent(roomName, studentId, teacherId);
+  }
 }
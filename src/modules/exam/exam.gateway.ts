@@ -1,7 +1,15 @@
-import { NotFoundException } from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import {
+  BadRequestException,
+  Logger,
+  NotFoundException,
+  UseFilters,
+} from '@nestjs/common';
 import {
   ConnectedSocket,
   MessageBody,
+  OnGatewayDisconnect,
+  OnGatewayInit,
   SubscribeMessage,
   WebSocketGateway,
   WebSocketServer,
@@ -9,18 +17,68 @@ import {
 import { InjectRepository } from '@nestjs/typeorm';
 import { Repository } from 'typeorm';
 import { Server, Socket } from 'socket.io';
+import { DefaultEventsMap } from 'socket.io/dist/typed-events';
 
 import dayjs from '#/common/configs/dayjs.config';
 import { RecordStatus } from '#/common/enums/content.enum';
+import { UseAuthGuard } from '#/common/guards/auth.guard';
+import { SocketExceptionFilter } from '#/common/filters/socket-exception.filter';
+import { User } from '../user/entities/user.entity';
+import { UserRole } from '../user/enums/user.enum';
+import { CurrentUser } from '../user/decorators/current-user.decorator';
 import { Exam } from './entities/exam.entity';
 import { ExamQuestion } from './entities/exam-question.entity';
 import { ExamCompletion } from './entities/exam-completion.entity';
-import { ExamAnswer, ExamRoom } from './models/exam.model';
+import { ExamRoom } from './entities/exam-room.entity';
+import { ExamIntegrityEventType } from './enums/exam.enum';
+import { ExamAnswer, ExamSocketData } from './models/exam.model';
+import {
+  generateExamCompletionQuestionAnswers,
+  generateExamProctorRooms,
+  getExamAnswersScore,
+  getExamScheduleStudentWindow,
+  getExamServedQuestionIds,
+  getExamStudentEndDate,
+  getExamTotalPoints,
+  getNextExamAttemptNumber,
+  validateExamAttempt,
+} from './helpers/exam.helper';
+import { ExamRoomService } from './exam-room.service';
+import { ExamDeliveryService } from './exam-delivery.service';
+import { ExamIntegrityService } from './exam-integrity.service';
+import { ExamVersionService } from './exam-version.service';
+import { ExamPrerequisiteService } from './exam-prerequisite.service';
+
+// Grace period before an expired room is closed and remaining answers are saved
+const ROOM_REMOVAL_DELAY = 300000;
+// Integrity events sent by student clients, disconnects and reconnects are detected by the server
+const CLIENT_INTEGRITY_EVENT_TYPES = [
+  ExamIntegrityEventType.Blur,
+  ExamIntegrityEventType.Focus,
+  ExamIntegrityEventType.VisibilityHidden,
+  ExamIntegrityEventType.VisibilityVisible,
+  ExamIntegrityEventType.Copy,
+  ExamIntegrityEventType.Paste,
+];
+// Room owner heartbeat interval, and the heartbeat age before another api instance takes over
+const ROOM_HEARTBEAT_INTERVAL = 10000;
+const ROOM_OWNER_STALE_DURATION = 30000;
+
+type ExamSocket = Socket<
+  DefaultEventsMap,
+  DefaultEventsMap,
+  DefaultEventsMap,
+  ExamSocketData
+>;
 
 @WebSocketGateway()
-export class ExamGateway {
+@UseFilters(new SocketExceptionFilter())
+export class ExamGateway implements OnGatewayInit, OnGatewayDisconnect {
   @WebSocketServer() server: Server;
-  private rooms: ExamRoom[] = [];
+  private readonly logger = new Logger(ExamGateway.name);
+  private readonly instanceId = randomUUID();
+  private roomIntervals = new Map<string, NodeJS.Timeout>();
+  private roomRemovalTimeouts = new Map<string, NodeJS.Timeout>();
 
   constructor(
     @InjectRepository(Exam) private readonly examRepo: Repository<Exam>,
@@ -28,100 +86,437 @@ export class ExamGateway {
     private readonly examQuestionRepo: Repository<ExamQuestion>,
     @InjectRepository(ExamCompletion)
     private readonly examCompletionRepo: Repository<ExamCompletion>,
+    private readonly examRoomService: ExamRoomService,
+    private readonly examDeliveryService: ExamDeliveryService,
+    private readonly examIntegrityService: ExamIntegrityService,
+    private readonly examVersionService: ExamVersionService,
+    private readonly examPrerequisiteService: ExamPrerequisiteService,
   ) {}
 
+  // Rebuild room timers from persisted rooms after an api restart,
+  // and keep taking over rooms left by api instances that went down
+  async afterInit() {
+    await this.claimOrphanRooms();
+
+    // Timer callbacks should never throw, a rejection would crash the process
+    setInterval(async () => {
+      try {
+        await this.examRoomService.setHeartbeatByOwner(this.instanceId);
+        await this.claimOrphanRooms();
+      } catch (error) {
+        this.logger.error('Exam room heartbeat failed', error);
+      }
+    }, ROOM_HEARTBEAT_INTERVAL);
+  }
+
+  private getRoomOwnerStaleBefore() {
+    return dayjs().subtract(ROOM_OWNER_STALE_DURATION, 'ms').toDate();
+  }
+
+  private async claimOrphanRooms() {
+    const staleBefore = this.getRoomOwnerStaleBefore();
+    const rooms = await this.examRoomService.getAll();
+
+    for (const room of rooms) {
+      // Skip rooms already handled by this instance
+      if (
+        this.roomIntervals.has(room.name) ||
+        this.roomRemovalTimeouts.has(room.name)
+      ) {
+        continue;
+      }
+
+      const isClaimed = await this.examRoomService.claim(
+        room,
+        this.instanceId,
+        staleBefore,
+      );
+
+      if (!isClaimed) {
+        continue;
+      }
+
+      if (!room.expiredAt) {
+        this.startRoomCountdown(room);
+        continue;
+      }
+
+      const remainingDelay = Math.max(
+        0,
+        dayjs(room.expiredAt).add(ROOM_REMOVAL_DELAY, 'ms').diff(dayjs()),
+      );
+
+      this.scheduleRoomRemoval(room.name, remainingDelay);
+    }
+  }
+
   private async saveStudentsCompletion(room: ExamRoom) {
-    const { examId, students } = room;
+    const { exam: roomExam, schedule: roomSchedule, students } = room;
     const currentDateTime = dayjs();
 
     const exam = await this.examRepo.findOne({
-      where: { id: examId, status: RecordStatus.Published },
+      where: { id: roomExam.id, status: RecordStatus.Published },
     });
 
+    // Include questions drawn from question pools
     const examQuestions = await this.examQuestionRepo.find({
-      where: { exam: { id: examId } },
-      relations: { choices: true },
+      where: [
+        { exam: { id: roomExam.id } },
+        { pool: { exam: { id: roomExam.id } } },
+      ],
+      relations: {
+        pool: true,
+        section: true,
+        choices: true,
+        typeNumeric: true,
+        typeMultipleSelect: true,
+        typeFillBlank: true,
+      },
+    });
+
+    const examCompletions = await this.examCompletionRepo.find({
+      where: { exam: { id: roomExam.id } },
+      relations: { student: true },
     });
 
+    const examDeliveries = await this.examDeliveryService.getAllByExamId(
+      roomExam.id,
+    );
+
+    const version = await this.examVersionService.getOrCreateLatest(
+      roomExam.id,
+      examQuestions,
+    );
+
     await Promise.all(
-      students.map(async ({ studentId, answers }) => {
-        const correctCount = answers.reduce(
-          (acc, { questionId, selectedChoiceId }) => {
-            if (!questionId || !selectedChoiceId) {
-              return acc;
-            }
-
-            const question = examQuestions.find((q) => q.id === questionId);
-            const choice = question
-              ? question.choices.find((c) => c.id === selectedChoiceId)
-              : null;
-
-            return choice.isCorrect ? acc + 1 : acc;
-          },
-          0,
+      students.map(async ({ student, answers: roomAnswers, createdAt }) => {
+        const studentCompletions = examCompletions.filter(
+          (com) => com.student.id === student.id,
         );
 
-        const score = correctCount * exam.pointsPerQuestion;
+        // Skip students who already submitted since joining room or have no remaining attempts
+        const { error } = validateExamAttempt(exam, studentCompletions);
+        if (
+          error ||
+          studentCompletions.some((com) =>
+            dayjs(com.submittedAt).isAfter(createdAt),
+          )
+        ) {
+          return;
+        }
+
+        const attemptNumber = getNextExamAttemptNumber(studentCompletions);
+        const delivery = examDeliveries.find(
+          (d) =>
+            d.student.id === student.id &&
+            d.schedule?.id === roomSchedule?.id &&
+            d.attemptNumber === attemptNumber,
+        );
+        const servedQuestionIds = getExamServedQuestionIds(
+          examQuestions,
+          delivery,
+        );
+        const servedQuestions = examQuestions.filter((q) =>
+          servedQuestionIds.includes(q.id),
+        );
 
-        const newQuestionAnswers = answers.map(
-          ({ questionId, selectedChoiceId }) => ({
-            question: { id: questionId },
-            selectedQuestionChoice: selectedChoiceId
-              ? { id: selectedChoiceId }
-              : null,
-          }),
+        // Only keep answers of questions served to student
+        const answers = roomAnswers.filter((a) =>
+          servedQuestionIds.includes(a.questionId),
         );
+        const score = getExamAnswersScore(exam, servedQuestions, answers);
+
+        const newQuestionAnswers =
+          generateExamCompletionQuestionAnswers(answers);
 
         const completion = this.examCompletionRepo.create({
           score,
-          submittedAt: currentDateTime,
+          maxScore: getExamTotalPoints(exam, servedQuestions),
+          attemptNumber,
+          servedQuestionIds,
+          servedChoiceIds: delivery?.choiceIds || {},
+          submittedAt: currentDateTime.toDate(),
           exam,
+          version,
           questionAnswers: newQuestionAnswers,
-          student: { id: studentId },
+          student: { id: student.id },
         });
 
-        await this.examCompletionRepo.save(completion);
+        const { id: completionId } =
+          await this.examCompletionRepo.save(completion);
+
+        await this.examIntegrityService.setCompletion(
+          exam.id,
+          student.id,
+          attemptNumber,
+          completionId,
+        );
       }),
     );
   }
 
-  private removeRoom(targetRoomName: string) {
-    const expiredRoomIndex = this.rooms.findIndex(
-      (r) => r.name === targetRoomName,
-    );
+  // Send latest rooms and student progress to teachers proctoring the exam
+  private async emitProctorUpdate(examId: number) {
+    const rooms = await this.examRoomService.getAllByExamId(examId);
+
+    this.server
+      .to(`exam-proctor-${examId}`)
+      .emit('exam-proctor-update', generateExamProctorRooms(rooms));
+  }
+
+  private startRoomCountdown(room: ExamRoom) {
+    const { name: roomName } = room;
+
+    const countdownSeconds = async () => {
+      try {
+        // Get latest end date and pause state since teacher can change them from any api instance
+        const currentRoom = await this.examRoomService.getTimerByName(roomName);
+
+        // Skip if timer was stopped while fetching
+        if (!this.roomIntervals.has(roomName)) {
+          return;
+        }
+
+        // Stop timer if room was removed
+        if (!currentRoom) {
+          clearInterval(this.roomIntervals.get(roomName));
+          this.roomIntervals.delete(roomName);
+          return;
+        }
+
+        const { endDate, pausedAt } = currentRoom;
+        const targetDayJs = dayjs(endDate);
+        // Freeze countdown while room is paused
+        const sourceDayJs = pausedAt ? dayjs(pausedAt) : dayjs();
+        const duration = dayjs.duration(
+          Math.max(0, targetDayJs.diff(sourceDayJs) || 0),
+        );
+        const countdownSeconds = Math.floor(duration.asSeconds());
+
+        // If end date and time is reached then clear interval and the room itself
+        if (countdownSeconds <= 0 && !pausedAt) {
+          this.server.to(roomName).emit('exam-take-expired', countdownSeconds);
+          await this.removeRoom(roomName);
+        }
+
+        this.server.to(roomName).emit('exam-tick', countdownSeconds);
+      } catch (error) {
+        this.logger.error(`Exam room ${roomName} countdown failed`, error);
+      }
+    };
 
-    if (expiredRoomIndex < 0) {
+    this.roomIntervals.set(roomName, setInterval(countdownSeconds, 1000));
+  }
+
+  private async removeRoom(targetRoomName: string) {
+    // Clear room interval (stop exam timer)
+    clearInterval(this.roomIntervals.get(targetRoomName));
+    this.roomIntervals.delete(targetRoomName);
+
+    const room = await this.examRoomService.getOneByName(targetRoomName);
+
+    if (!room) {
       return;
     }
 
-    // Clear room interval (stop exam timer)
-    expiredRoomIndex >= 0 &&
-      clearInterval(this.rooms[expiredRoomIndex].interval);
+    // Persist expiration so the pending removal survives a restart,
+    // skip if another instance took over the room
+    const isExpired = await this.examRoomService.setExpiredByOwner(
+      room,
+      this.instanceId,
+      dayjs().toDate(),
+    );
 
-    // Delete expired room after 5 minutes (300000)
+    if (isExpired) {
+      this.scheduleRoomRemoval(targetRoomName, ROOM_REMOVAL_DELAY);
+    }
+  }
+
+  private scheduleRoomRemoval(targetRoomName: string, delay: number) {
+    // Delete expired room after the delay (default 5 minutes)
     // but check for remaining students first (not yet submitted exam form after 5 mins)
     // and save exam form (exam completion)
-    setTimeout(async () => {
-      await this.saveStudentsCompletion(this.rooms[expiredRoomIndex]);
-      this.rooms.splice(expiredRoomIndex, 1);
-      // Delete websocket room
-      const sockets = await this.server.in(targetRoomName).fetchSockets();
-      sockets.forEach((socket) => {
-        socket.leave(targetRoomName);
-      });
-    }, 300000);
+    const timeout = setTimeout(async () => {
+      this.roomRemovalTimeouts.delete(targetRoomName);
+
+      try {
+        const room = await this.examRoomService.getOneByName(targetRoomName);
+
+        if (!room) {
+          return;
+        }
+
+        // Keep ownership so students are not saved again by another instance
+        const isClaimed = await this.examRoomService.claim(
+          room,
+          this.instanceId,
+          this.getRoomOwnerStaleBefore(),
+        );
+
+        if (!isClaimed) {
+          return;
+        }
+
+        await this.saveStudentsCompletion(room);
+        await this.examRoomService.delete(room.id);
+        await this.emitProctorUpdate(room.exam.id);
+        // Delete websocket room
+        const sockets = await this.server.in(targetRoomName).fetchSockets();
+        sockets.forEach((socket) => {
+          socket.leave(targetRoomName);
+        });
+      } catch (error) {
+        this.logger.error(`Exam room ${targetRoomName} removal failed`, error);
+      }
+    }, delay);
+
+    this.roomRemovalTimeouts.set(targetRoomName, timeout);
+  }
+
+  private async getTeacherRoom(roomName: string, teacherId: number) {
+    const room = await this.examRoomService.getOneByName(roomName);
+
+    if (!room || room.exam.teacher.id !== teacherId) {
+      throw new NotFoundException('Exam room not found');
+    }
+
+    return room;
+  }
+
+  async pauseRoom(roomName: string, teacherId: number) {
+    const room = await this.getTeacherRoom(roomName, teacherId);
+
+    if (room.expiredAt) {
+      throw new BadRequestException('Exam room has already expired');
+    } else if (room.pausedAt) {
+      throw new BadRequestException('Exam room is already paused');
+    }
+
+    const pausedRoom = await this.examRoomService.setPaused(
+      room,
+      dayjs().toDate(),
+    );
+
+    this.server.to(roomName).emit('exam-paused', true);
+    await this.emitProctorUpdate(room.exam.id);
+    return pausedRoom;
+  }
+
+  async resumeRoom(roomName: string, teacherId: number) {
+    const room = await this.getTeacherRoom(roomName, teacherId);
+
+    if (!room.pausedAt) {
+      throw new BadRequestException('Exam room is not paused');
+    }
+
+    const resumedRoom = await this.examRoomService.setResumed(
+      room,
+      dayjs().toDate(),
+    );
+
+    this.server.to(roomName).emit('exam-resumed', true);
+    await this.emitProctorUpdate(room.exam.id);
+    return resumedRoom;
+  }
+
+  // Extend end date of the whole room, or of one student by moving the student to own room
+  async extendRoom(
+    roomName: string,
+    minutes: number,
+    teacherId: number,
+    studentId?: number,
+  ) {
+    const room = await this.getTeacherRoom(roomName, teacherId);
+
+    if (room.expiredAt) {
+      throw new BadRequestException('Exam room has already expired');
+    }
+
+    const endDate = dayjs(room.endDate).add(minutes, 'minute').toDate();
+
+    if (studentId == null) {
+      const extendedRoom = await this.examRoomService.setEndDate(room, endDate);
+
+      this.server.to(roomName).emit('exam-extended', endDate);
+      await this.emitProctorUpdate(room.exam.id);
+      return extendedRoom;
+    }
+
+    const roomStudent = room.students.find((s) => s.student.id === studentId);
+
+    if (!roomStudent) {
+      throw new NotFoundException('Student not found');
+    }
+
+    const newRoom = await this.examRoomService.create(
+      `${roomName}-${studentId}`,
+      room.exam.id,
+      room.schedule.id,
+      endDate,
+      this.instanceId,
+    );
+
+    // Keep pause state of previous room
+    const studentRoom = room.pausedAt
+      ? await this.examRoomService.setPaused(newRoom, room.pausedAt)
+      : newRoom;
+
+    await this.examRoomService.moveStudent(roomStudent, studentRoom);
+
+    // Move student sockets to the new room
+    const studentSocketRoomName = `exam-student-${studentId}`;
+    this.server.in(studentSocketRoomName).socketsJoin(studentRoom.name);
+    this.server.in(studentSocketRoomName).socketsLeave(roomName);
+    this.server
+      .to(studentSocketRoomName)
+      .emit('exam-room-changed', { roomName: studentRoom.name });
+
+    if (
+      studentRoom.ownerInstanceId === this.instanceId &&
+      !this.roomIntervals.has(studentRoom.name)
+    ) {
+      this.startRoomCountdown(studentRoom);
+    }
+
+    await this.emitProctorUpdate(room.exam.id);
+    return studentRoom;
+  }
+
+  // Save synced answers of student as completion, same as when room is removed
+  async forceSubmitStudent(
+    roomName: string,
+    studentId: number,
+    teacherId: number,
+  ) {
+    const room = await this.getTeacherRoom(roomName, teacherId);
+    const roomStudent = room.students.find((s) => s.student.id === studentId);
+
+    if (!roomStudent) {
+      throw new NotFoundException('Student not found');
+    }
+
+    await this.saveStudentsCompletion({ ...room, students: [roomStudent] });
+    const isRemoved = await this.examRoomService.removeStudent(roomStudent);
+
+    this.server
+      .to(`exam-student-${studentId}`)
+      .emit('exam-force-submitted', true);
+    await this.emitProctorUpdate(room.exam.id);
+    return isRemoved;
   }
 
   @SubscribeMessage('exam-take')
+  @UseAuthGuard(UserRole.Student)
   async takeExam(
-    @MessageBody()
-    data: { slug: string; questions: ExamQuestion[]; studentId: number },
-    @ConnectedSocket() client: Socket,
+    @MessageBody() data: { slug: string },
+    @ConnectedSocket() client: ExamSocket,
+    @CurrentUser() user: User,
   ) {
-    const { slug, questions, studentId } = data;
+    const { id: studentId } = user.studentUserAccount;
+    const { slug } = data;
 
     // Get exam by slug with schedules and completions
-    // Throw error if exam not found
+    // Send error event if exam not found
     const exam = await this.examRepo.findOne({
       where: [
         {
@@ -132,147 +527,369 @@ export class ExamGateway {
       ],
       relations: {
         coveredLessons: true,
-        questions: { choices: true },
-        schedules: { students: true },
-        completions: { questionAnswers: true },
+        prerequisiteLessons: true,
+        prerequisiteActivity: true,
+        questions: {
+          choices: true,
+          typeNumeric: true,
+          typeMultipleSelect: true,
+          typeFillBlank: true,
+          section: true,
+        },
+        questionPools: { questions: { choices: true } },
+        sections: true,
+        schedules: { students: true, accommodations: { student: true } },
+        completions: { student: true },
       },
     });
     if (!exam) {
       throw new NotFoundException('Exam not found');
     }
 
-    // Check if exam is ongoing, if false then return null
+    const completions = exam.completions.filter(
+      (com) => com.student.id === studentId,
+    );
+
+    // Check if exam is ongoing for current student (including accommodation), if false then return null
     // Student should only take ongoing exams
-    const isOngoing = exam.schedules.some((schedule) => {
-      const startDate = dayjs(schedule.startDate);
-      const endDate = dayjs(schedule.endDate);
+    const ongoingSchedule = exam.schedules.find((schedule) => {
+      const { startDate, endDate } = getExamScheduleStudentWindow(
+        schedule,
+        studentId,
+      );
       return dayjs().isBetween(startDate, endDate, null, '[]');
     });
 
-    if (!isOngoing || exam.completions.length) {
+    if (!ongoingSchedule) {
       return null;
     }
 
-    // Create room name base on exam id and schedule id
-    const roomName = `exam-${exam.id}-${exam.schedules[0].id}`;
-    // Let student join socket room, automatically creates room if nonexistent
-    client.join(roomName);
+    // Locked exams can only be taken after student meets prerequisites
+    const missingPrerequisites =
+      await this.examPrerequisiteService.getMissingByStudentId(exam, studentId);
 
-    // Check if room already exists, if false then push new room with current student,
-    // And with questions with no selected choice (in order) as answers
-    const roomIndex = this.rooms.findIndex((r) => r.name === roomName);
-    if (roomIndex < 0) {
-      const endDate = exam.schedules[0].endDate;
+    if (missingPrerequisites) {
+      throw new BadRequestException('Exam prerequisites are not met');
+    }
 
-      const countdownSeconds = () => {
-        const targetDayJs = dayjs(endDate);
-        const sourceDayJs = dayjs();
-        const duration = dayjs.duration(
-          Math.max(0, targetDayJs.diff(sourceDayJs) || 0),
-        );
-        const countdownSeconds = Math.floor(duration.asSeconds());
+    const { isAccommodated } = getExamScheduleStudentWindow(
+      ongoingSchedule,
+      studentId,
+    );
 
-        // If end date and time is reached then clear interval and the room itself
-        if (countdownSeconds <= 0) {
-          this.server.to(roomName).emit('exam-take-expired', countdownSeconds);
-          this.removeRoom(roomName);
-        }
+    // Check if student can still take another attempt
+    const { error } = validateExamAttempt(exam, completions);
+    if (error) {
+      throw error;
+    }
 
-        this.server.to(roomName).emit('exam-tick', countdownSeconds);
-      };
+    // Get questions and choices order served to student, same as the exam detail
+    let delivery = await this.examDeliveryService.getOrCreate(
+      exam,
+      ongoingSchedule.id,
+      studentId,
+      getNextExamAttemptNumber(completions),
+    );
+    const { questionIds, choiceIds } = delivery;
 
-      const students = [
-        {
-          studentId,
-          answers: questions.map((q) => ({ questionId: q.id })),
-        },
-      ];
+    // Start exam duration timer on first exam take
+    if (exam.durationMinutes && !delivery.startedAt) {
+      delivery = await this.examDeliveryService.setStarted(
+        delivery,
+        dayjs().toDate(),
+      );
+    }
 
-      this.rooms.push({
-        name: roomName,
-        examId: exam.id,
-        endDate: exam.schedules[0].endDate,
-        interval: setInterval(countdownSeconds, 1000),
-        students,
-      });
+    const endDate = getExamStudentEndDate(
+      exam,
+      ongoingSchedule,
+      studentId,
+      delivery.startedAt,
+    );
 
-      return { roomName, answers: [] };
-    } else {
-      // If room is existing then get if current student has joined room before,
-      // If true then just return student answers, else push new student with questions same as above
-      const student = this.rooms[roomIndex].students.find(
-        (s) => s.studentId === studentId,
+    // Resume room of student if already taking the exam (e.g. moved to own room by teacher)
+    const currentRoomStudent =
+      await this.examRoomService.getStudentByExamIdAndStudentId(
+        exam.id,
+        studentId,
       );
 
-      if (!student) {
-        const newStudent = {
-          studentId,
-          answers: questions.map((q) => ({ questionId: q.id })),
-        };
+    // Create room name base on exam id and schedule id,
+    // students with accommodation or exam duration get their own room (per attempt) with their own end date
+    const roomName =
+      currentRoomStudent?.room.name ||
+      (isAccommodated || exam.durationMinutes
+        ? `exam-${exam.id}-${ongoingSchedule.id}-${studentId}-${delivery.attemptNumber}`
+        : `exam-${exam.id}-${ongoingSchedule.id}`);
+
+    // Check if room already exists, if false then create new room with current student,
+    // And with questions with no selected choice (in order) as answers
+    const room = await this.examRoomService.getOneByName(roomName);
+    const answers = questionIds.map((questionId) => ({ questionId }));
 
-        this.rooms[roomIndex].students.push(newStudent);
+    // Student can no longer start if exam duration already ran out
+    if (!room && dayjs().isAfter(endDate)) {
+      throw new BadRequestException('Exam time is up');
+    }
+
+    // Let student join socket room, automatically creates room if nonexistent
+    // and own socket room for teacher actions on the student
+    client.join([roomName, `exam-student-${studentId}`]);
+    // Keep current exam take on socket for integrity events
+    client.data.examTake = {
+      examId: exam.id,
+      attemptNumber: delivery.attemptNumber,
+    };
+
+    if (!room) {
+      const newRoom = await this.examRoomService.create(
+        roomName,
+        exam.id,
+        ongoingSchedule.id,
+        endDate,
+        this.instanceId,
+      );
+
+      await this.examRoomService.addStudent(newRoom, studentId, answers);
+      // Only the owner instance runs the room timer, others receive its events through the adapter
+      if (newRoom.ownerInstanceId === this.instanceId) {
+        this.startRoomCountdown(newRoom);
+      }
+
+      await this.emitProctorUpdate(exam.id);
+      return { roomName, answers: [], questionIds, choiceIds };
+    } else {
+      // If room is existing then get if current student has joined room before,
+      // If true then just return student answers (also resumes after a restart),
+      // else add new student with questions same as above
+      const student = room.students.find((s) => s.student.id === studentId);
 
-        return { roomName, answers: [] };
+      if (!student) {
+        await this.examRoomService.addStudent(room, studentId, answers);
+        await this.emitProctorUpdate(exam.id);
+        return { roomName, answers: [], questionIds, choiceIds };
       }
 
-      return { roomName, answers: student.answers };
+      await this.examIntegrityService.create(
+        exam.id,
+        studentId,
+        delivery.attemptNumber,
+        ExamIntegrityEventType.Reconnect,
+      );
+
+      await this.emitProctorUpdate(exam.id);
+      return { roomName, answers: student.answers, questionIds, choiceIds };
     }
   }
 
   @SubscribeMessage('exam-sync-answers')
+  @UseAuthGuard(UserRole.Student)
   async syncAnswers(
-    @MessageBody()
-    data: {
-      roomName: string;
-      answers: ExamAnswer[];
-      studentId: number;
-    },
+    @MessageBody() data: { roomName: string; answers: ExamAnswer[] },
+    @CurrentUser() user: User,
   ) {
-    const { roomName, answers, studentId } = data;
-    // Get room index using room name
-    const roomIndex = this.rooms.findIndex((r) => r.name === roomName);
-    // Return false if room does not exist
-    if (roomIndex < 0) {
-      return false;
-    }
-    // Get student index using student id and room index
-    const studentIndex = this.rooms[roomIndex].students.findIndex(
-      (s) => s.studentId === studentId,
+    const { id: studentId } = user.studentUserAccount;
+    const { roomName, answers } = data;
+    // Get target student using room name and student id
+    const student = await this.examRoomService.getStudentByRoomNameAndStudentId(
+      roomName,
+      studentId,
     );
-    // Return false if student does not exist
-    if (studentIndex < 0) {
+    // Return false if room or student does not exist
+    if (!student) {
       return false;
     }
 
     // Sync target student answers with updated data
-    this.rooms[roomIndex].students[studentIndex].answers = answers.filter(
-      (a) => !!a,
+    const isSynced = await this.examRoomService.setStudentAnswers(
+      student,
+      answers.filter((a) => !!a),
     );
-    return true;
+
+    await this.emitProctorUpdate(student.room.exam.id);
+    return isSynced;
   }
 
   @SubscribeMessage('exam-take-done')
+  @UseAuthGuard(UserRole.Student)
   async takeExamDone(
-    @MessageBody() data: { roomName: string; studentId: number },
+    @MessageBody() data: { roomName: string },
+    @CurrentUser() user: User,
   ) {
-    const { roomName, studentId } = data;
-    // Get room index using room name
-    const roomIndex = this.rooms.findIndex((r) => r.name === roomName);
-    // Return false if room does not exist
-    if (roomIndex < 0) {
+    const { id: studentId } = user.studentUserAccount;
+    const { roomName } = data;
+    // Get target student using room name and student id
+    const student = await this.examRoomService.getStudentByRoomNameAndStudentId(
+      roomName,
+      studentId,
+    );
+    // Return false if room or student does not exist
+    if (!student) {
       return false;
     }
-    // Get student index using student id and room index
-    const studentIndex = this.rooms[roomIndex].students.findIndex(
-      (s) => s.studentId === studentId,
-    );
-    // Return false if student does not exist
-    if (studentIndex < 0) {
+
+    // Remove student from target room
+    const isRemoved = await this.examRoomService.removeStudent(student);
+
+    await this.emitProctorUpdate(student.room.exam.id);
+    return isRemoved;
+  }
+
+  @SubscribeMessage('exam-proctor-join')
+  @UseAuthGuard(UserRole.Teacher)
+  async joinProctor(
+    @MessageBody() data: { slug: string },
+    @ConnectedSocket() client: ExamSocket,
+    @CurrentUser() user: User,
+  ) {
+    const { id: teacherId } = user.teacherUserAccount;
+    const { slug } = data;
+
+    const exam = await this.examRepo.findOne({
+      where: { slug, teacher: { id: teacherId } },
+    });
+
+    if (!exam) {
+      throw new NotFoundException('Exam not found');
+    }
+
+    // Let teacher join proctor room of exam, and send current rooms
+    const proctorRoomName = `exam-proctor-${exam.id}`;
+    client.join(proctorRoomName);
+
+    const rooms = await this.examRoomService.getAllByExamId(exam.id);
+    return { proctorRoomName, rooms: generateExamProctorRooms(rooms) };
+  }
+
+  @SubscribeMessage('exam-proctor-leave')
+  @UseAuthGuard(UserRole.Teacher)
+  leaveProctor(
+    @MessageBody() data: { proctorRoomName: string },
+    @ConnectedSocket() client: ExamSocket,
+  ) {
+    client.leave(data.proctorRoomName);
+    return true;
+  }
+
+  @SubscribeMessage('exam-room-pause')
+  @UseAuthGuard(UserRole.Teacher)
+  async pauseRoomByTeacher(
+    @MessageBody() data: { roomName: string },
+    @CurrentUser() user: User,
+  ) {
+    const { id: teacherId } = user.teacherUserAccount;
+    await this.pauseRoom(data.roomName, teacherId);
+    return true;
+  }
+
+  @SubscribeMessage('exam-room-resume')
+  @UseAuthGuard(UserRole.Teacher)
+  async resumeRoomByTeacher(
+    @MessageBody() data: { roomName: string },
+    @CurrentUser() user: User,
+  ) {
+    const { id: teacherId } = user.teacherUserAccount;
+    await this.resumeRoom(data.roomName, teacherId);
+    return true;
+  }
+
+  @SubscribeMessage('exam-room-extend')
+  @UseAuthGuard(UserRole.Teacher)
+  async extendRoomByTeacher(
+    @MessageBody()
+    data: { roomName: string; minutes: number; studentId?: number },
+    @CurrentUser() user: User,
+  ) {
+    const { id: teacherId } = user.teacherUserAccount;
+    const { roomName, minutes, studentId } = data;
+
+    if (!Number.isInteger(minutes) || minutes <= 0) {
+      throw new BadRequestException('Minutes is invalid');
+    }
+
+    const room = await this.extendRoom(roomName, minutes, teacherId, studentId);
+    return { roomName: room.name, endDate: room.endDate };
+  }
+
+  @SubscribeMessage('exam-room-force-submit')
+  @UseAuthGuard(UserRole.Teacher)
+  forceSubmitStudentByTeacher(
+    @MessageBody() data: { roomName: string; studentId: number },
+    @CurrentUser() user: User,
+  ) {
+    const { id: teacherId } = user.teacherUserAccount;
+    return this.forceSubmitStudent(data.roomName, data.studentId, teacherId);
+  }
+
+  @SubscribeMessage('exam-integrity-event')
+  @UseAuthGuard(UserRole.Student)
+  async addIntegrityEvent(
+    @MessageBody()
+    data: { type: ExamIntegrityEventType; metadata?: Record<string, any> },
+    @ConnectedSocket() client: ExamSocket,
+    @CurrentUser() user: User,
+  ) {
+    const { id: studentId } = user.studentUserAccount;
+    const { type, metadata } = data;
+    const { examTake } = client.data;
+
+    if (!CLIENT_INTEGRITY_EVENT_TYPES.includes(type)) {
+      throw new BadRequestException('Integrity event is invalid');
+    }
+
+    // Return false if student has not taken or already finished the exam
+    const student = examTake
+      ? await this.examRoomService.getStudentByExamIdAndStudentId(
+          examTake.examId,
+          studentId,
+        )
+      : null;
+
+    if (!student) {
       return false;
     }
 
-    // Remove student from target room using room index and student index
-    this.rooms[roomIndex].students.splice(studentIndex, 1);
+    await this.examIntegrityService.create(
+      examTake.examId,
+      studentId,
+      examTake.attemptNumber,
+      type,
+      metadata,
+    );
+
     return true;
   }
+
+  // Record disconnect of students that have not finished the exam
+  async handleDisconnect(client: ExamSocket) {
+    const { examTake } = client.data;
+    const studentId = client.data.currentUser?.studentUserAccount?.id;
+
+    if (!examTake || !studentId) {
+      return;
+    }
+
+    try {
+      const student = await this.examRoomService.getStudentByExamIdAndStudentId(
+        examTake.examId,
+        studentId,
+      );
+
+      if (!student) {
+        return;
+      }
+
+      await this.examIntegrityService.create(
+        examTake.examId,
+        studentId,
+        examTake.attemptNumber,
+        ExamIntegrityEventType.Disconnect,
+      );
+    } catch (error) {
+      this.logger.error(
+        `Exam ${examTake.examId} disconnect of student ${studentId} failed`,
+        error,
+      );
+    }
+  }
 }
@@ -1,20 +1,42 @@
 import { Module, forwardRef } from '@nestjs/common';
 import { TypeOrmModule } from '@nestjs/typeorm';
 
+import { CoreModule } from '../core/core.module';
 import { UserModule } from '../user/user.module';
 import { ScheduleModule } from '../schedule/schedule.module';
 import { LessonModule } from '../lesson/lesson.module';
+import { QuestionBankModule } from '../question-bank/question-bank.module';
+import { LessonCompletion } from '../lesson/entities/lesson-completion.entity';
+import { Activity } from '../activity/entities/activity.entity';
+import { ActivityCategoryCompletion } from '../activity/entities/activity-category-completion.entity';
 import { Exam } from './entities/exam.entity';
 import { ExamQuestion } from './entities/exam-question.entity';
 import { ExamQuestionChoice } from './entities/exam-question-choice.entity';
 import { ExamSchedule } from './entities/exam-schedule.entity';
 import { ExamCompletion } from './entities/exam-completion.entity';
 import { ExamCompletionQuestionAnswer } from './entities/exam-completion-question-answer.entity';
+import { ExamCompletionScoreOverride } from './entities/exam-completion-score-override.entity';
+import { ExamRoom } from './entities/exam-room.entity';
+import { ExamRoomStudent } from './entities/exam-room-student.entity';
+import { ExamQuestionTypeNumeric } from './entities/exam-question-type-numeric.entity';
+import { ExamQuestionTypeMultipleSelect } from './entities/exam-question-type-multiple-select.entity';
+import { ExamQuestionTypeFillBlank } from './entities/exam-question-type-fill-blank.entity';
+import { ExamQuestionPool } from './entities/exam-question-pool.entity';
+import { ExamSection } from './entities/exam-section.entity';
+import { ExamDelivery } from './entities/exam-delivery.entity';
+import { ExamScheduleAccommodation } from './entities/exam-schedule-accommodation.entity';
+import { ExamIntegrityEvent } from './entities/exam-integrity-event.entity';
+import { ExamVersion } from './entities/exam-version.entity';
 import { ExamController } from './exam.controller';
 import { ExamSubscriber } from './subscribers/exam.subscriber';
 import { ExamGateway } from './exam.gateway';
 import { ExamService } from './exam.service';
 import { ExamScheduleService } from './exam-schedule.service';
+import { ExamRoomService } from './exam-room.service';
+import { ExamDeliveryService } from './exam-delivery.service';
+import { ExamIntegrityService } from './exam-integrity.service';
+import { ExamVersionService } from './exam-version.service';
+import { ExamPrerequisiteService } from './exam-prerequisite.service';
 
 @Module({
   imports: [
@@ -25,13 +47,40 @@ import { ExamScheduleService } from './exam-schedule.service';
       ExamSchedule,
       ExamCompletion,
       ExamCompletionQuestionAnswer,
+      ExamCompletionScoreOverride,
+      ExamRoom,
+      ExamRoomStudent,
+      ExamQuestionTypeNumeric,
+      ExamQuestionTypeMultipleSelect,
+      ExamQuestionTypeFillBlank,
+      ExamQuestionPool,
+      ExamSection,
+      ExamDelivery,
+      ExamScheduleAccommodation,
+      ExamIntegrityEvent,
+      ExamVersion,
+      LessonCompletion,
+      Activity,
+      ActivityCategoryCompletion,
     ]),
+    CoreModule,
     UserModule,
     LessonModule,
+    QuestionBankModule,
     forwardRef(() => ScheduleModule),
   ],
   controllers: [ExamController],
-  providers: [ExamGateway, ExamSubscriber, ExamService, ExamScheduleService],
-  exports: [ExamService, ExamScheduleService],
+  providers: [
+    ExamGateway,
+    ExamSubscriber,
+    ExamService,
+    ExamScheduleService,
+    ExamRoomService,
+    ExamDeliveryService,
+    ExamIntegrityService,
+    ExamVersionService,
+    ExamPrerequisiteService,
+  ],
+  exports: [ExamService, ExamScheduleService, ExamIntegrityService],
 })
 export class ExamModule {}
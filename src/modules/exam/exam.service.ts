@@ -3,7 +3,9 @@ import {
   ConflictException,
   Inject,
   Injectable,
+  InternalServerErrorException,
   NotFoundException,
+  ValidationPipe,
 } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
 import {
@@ -21,21 +23,85 @@ import {
 
 import dayjs from '#/common/configs/dayjs.config';
 import { DEFAULT_TAKE } from '#/common/helpers/pagination.helper';
-import { shuffleArray } from '#/common/helpers/array.helper';
+import { getClonedImagePaths } from '#/common/helpers/file.helper';
 import { ExamScheduleStatus, RecordStatus } from '#/common/enums/content.enum';
+import { SupabaseService } from '../core/supabase.service';
 import { UserService } from '../user/user.service';
+import { StudentUserAccount } from '../user/entities/student-user-account.entity';
 import { LessonService } from '../lesson/lesson.service';
+import { QuestionBankService } from '../question-bank/question-bank.service';
 import { Exam } from './entities/exam.entity';
 import { ExamQuestion } from './entities/exam-question.entity';
 import { ExamQuestionChoice } from './entities/exam-question-choice.entity';
+import { ExamQuestionTypeNumeric } from './entities/exam-question-type-numeric.entity';
+import { ExamQuestionTypeMultipleSelect } from './entities/exam-question-type-multiple-select.entity';
+import { ExamQuestionTypeFillBlank } from './entities/exam-question-type-fill-blank.entity';
+import { ExamQuestionPool } from './entities/exam-question-pool.entity';
+import { ExamSection } from './entities/exam-section.entity';
 import { ExamCompletion } from './entities/exam-completion.entity';
+import { ExamCompletionQuestionAnswer } from './entities/exam-completion-question-answer.entity';
+import { ExamCompletionScoreOverride } from './entities/exam-completion-score-override.entity';
+import { ExamSchedule } from './entities/exam-schedule.entity';
 import { ExamCreateDto } from './dtos/exam-create.dto';
 import { ExamUpdateDto } from './dtos/exam-update.dto';
+import { ExamQuestionCreateDto } from './dtos/exam-question-create.dto';
+import { ExamQuestionPoolUpsertDto } from './dtos/exam-question-pool-upsert.dto';
+import { ExamSectionUpsertDto } from './dtos/exam-section-upsert.dto';
 import { ExamQuestionUpdateDto } from './dtos/exam-question-update.dto';
 import { ExamScheduleCreateDto } from './dtos/exam-schedule-create.dto';
 import { ExamScheduleUpdateDto } from './dtos/exam-schedule-update.dto';
+import { ExamScheduleMakeUpCreateDto } from './dtos/exam-schedule-make-up-create.dto';
 import { ExamCompletionCreateDto } from './dtos/exam-completion-create.dto';
+import { ExamCompletionScoreOverrideCreateDto } from './dtos/exam-completion-score-override-create.dto';
+import { ExamImportDto } from './dtos/exam-import.dto';
+import {
+  ExamLatePolicy,
+  ExamQuestionFormat,
+  ExamQuestionType,
+  ExamReviewPolicy,
+} from './enums/exam.enum';
+import { ExamRegradeSummary } from './models/exam.model';
 import { ExamScheduleService } from './exam-schedule.service';
+import { ExamDeliveryService } from './exam-delivery.service';
+import { ExamIntegrityService } from './exam-integrity.service';
+import { ExamVersionService } from './exam-version.service';
+import { ExamPrerequisiteService } from './exam-prerequisite.service';
+import { ExamRoomService } from './exam-room.service';
+import {
+  generateClonedExamQuestion,
+  generateExamAnswersFromCompletionQuestionAnswers,
+  generateExamCompletionQuestionAnswers,
+  generateExamQuestionFromBankItem,
+  getExamAnswersScore,
+  getExamAttemptScore,
+  getExamCompletionScore,
+  getExamLatePenaltyScore,
+  getExamQuestionPoints,
+  getExamTotalPoints,
+  getExamScheduleStudentWindow,
+  getExamRoomEndDate,
+  getExamStudentEndDate,
+  getExamStudentSchedule,
+  getExamSubmissionLateness,
+  getNextExamAttemptNumber,
+  hideExamCompletionAnswerKeys,
+  hideExamQuestionAnswerKey,
+  isExamAnswerKeyChanged,
+  isExamAnswerKeyUpdate,
+  isExamReviewAvailable,
+  sortExamQuestionsByDelivery,
+  validateExamAttempt,
+} from './helpers/exam.helper';
+import {
+  generateExamFormatContent,
+  generateExamQuestionsFromFormatQuestions,
+  parseExamFormatQuestions,
+} from './helpers/exam-format.helper';
+
+// Schedule start and end date of a student, apply accommodation if present
+const STUDENT_START_DATE_SQL =
+  'COALESCE(accommodations.startDate, schedules.startDate)';
+const STUDENT_END_DATE_SQL = `COALESCE(${STUDENT_START_DATE_SQL} + make_interval(mins => accommodations.durationMinutes), accommodations.endDate, schedules.endDate) + make_interval(mins => COALESCE(accommodations.extraMinutes, 0))`;
 
 @Injectable()
 export class ExamService {
@@ -45,14 +111,42 @@ export class ExamService {
     private readonly examQuestionRepo: Repository<ExamQuestion>,
     @InjectRepository(ExamQuestionChoice)
     private readonly examQuestionChoiceRepo: Repository<ExamQuestionChoice>,
+    @InjectRepository(ExamQuestionTypeNumeric)
+    private readonly examQuestionTypeNumericRepo: Repository<ExamQuestionTypeNumeric>,
+    @InjectRepository(ExamQuestionTypeMultipleSelect)
+    private readonly examQuestionTypeMultipleSelectRepo: Repository<ExamQuestionTypeMultipleSelect>,
+    @InjectRepository(ExamQuestionTypeFillBlank)
+    private readonly examQuestionTypeFillBlankRepo: Repository<ExamQuestionTypeFillBlank>,
     @InjectRepository(ExamCompletion)
     private readonly examCompletionRepo: Repository<ExamCompletion>,
+    @InjectRepository(ExamCompletionQuestionAnswer)
+    private readonly examCompletionQuestionAnswerRepo: Repository<ExamCompletionQuestionAnswer>,
+    @InjectRepository(ExamCompletionScoreOverride)
+    private readonly examCompletionScoreOverrideRepo: Repository<ExamCompletionScoreOverride>,
+    @InjectRepository(ExamQuestionPool)
+    private readonly examQuestionPoolRepo: Repository<ExamQuestionPool>,
+    @InjectRepository(ExamSection)
+    private readonly examSectionRepo: Repository<ExamSection>,
     @Inject(ExamScheduleService)
     private readonly examScheduleService: ExamScheduleService,
+    @Inject(ExamDeliveryService)
+    private readonly examDeliveryService: ExamDeliveryService,
+    @Inject(ExamIntegrityService)
+    private readonly examIntegrityService: ExamIntegrityService,
+    @Inject(ExamVersionService)
+    private readonly examVersionService: ExamVersionService,
+    @Inject(ExamPrerequisiteService)
+    private readonly examPrerequisiteService: ExamPrerequisiteService,
+    @Inject(ExamRoomService)
+    private readonly examRoomService: ExamRoomService,
     @Inject(LessonService)
     private readonly lessonService: LessonService,
     @Inject(UserService)
     private readonly userService: UserService,
+    @Inject(QuestionBankService)
+    private readonly questionBankService: QuestionBankService,
+    @Inject(SupabaseService)
+    private readonly supabaseService: SupabaseService,
   ) {}
 
   getPaginationTeacherExamsByTeacherId(
@@ -110,6 +204,7 @@ export class ExamService {
     status?: string,
     withSchedules?: boolean,
     withCompletions?: boolean,
+    withQuestions?: boolean,
   ) {
     const generateWhere = () => {
       let baseWhere: FindOptionsWhere<Exam> = {
@@ -148,7 +243,12 @@ export class ExamService {
     return this.examRepo.find({
       where: generateWhere(),
       order: generateOrder(),
-      relations: { schedules: withSchedules, completions: withCompletions },
+      relations: {
+        schedules: withSchedules,
+        completions: withCompletions,
+        questions: withQuestions && { section: true },
+        questionPools: withQuestions && { questions: true },
+      },
     });
   }
 
@@ -280,11 +380,22 @@ export class ExamService {
       where: generateWhere(),
       relations: {
         coveredLessons: true,
-        questions: { choices: true },
-        schedules: { students: true },
+        prerequisiteLessons: true,
+        prerequisiteActivity: true,
+        questions: {
+          choices: true,
+          typeNumeric: true,
+          typeMultipleSelect: true,
+          typeFillBlank: true,
+          section: true,
+        },
+        questionPools: { questionBankItems: true },
+        sections: true,
+        schedules: { students: true, accommodations: { student: true } },
       },
       order: {
         questions: { orderNumber: 'ASC', choices: { orderNumber: 'ASC' } },
+        sections: { orderNumber: 'ASC' },
       },
     });
 
@@ -308,7 +419,17 @@ export class ExamService {
     // Find exam, throw error if none found
     const exam = await this.examRepo.findOne({
       where: { slug, teacher: { id: teacherId } },
-      relations: { questions: { choices: true } },
+      relations: {
+        questions: {
+          choices: true,
+          typeNumeric: true,
+          typeMultipleSelect: true,
+          typeFillBlank: true,
+          section: true,
+        },
+        questionPools: { questionBankItems: true },
+        sections: true,
+      },
     });
 
     return this.validateUpdateExam(
@@ -326,7 +447,11 @@ export class ExamService {
       endDate,
       studentIds,
       coveredLessonIds,
+      prerequisiteLessonIds,
+      prerequisiteActivityId,
       questions,
+      questionPools,
+      sections,
       ...moreExamDto
     } = examDto;
 
@@ -336,20 +461,53 @@ export class ExamService {
     const coveredLessons = coveredLessonIds
       ? coveredLessonIds.map((lessonId) => ({ id: lessonId }))
       : [];
+    const prerequisiteLessons = prerequisiteLessonIds
+      ? prerequisiteLessonIds.map((lessonId) => ({ id: lessonId }))
+      : [];
     // Create exam entity and save it
     const exam = this.examRepo.create({
       ...moreExamDto,
       coveredLessons,
+      prerequisiteLessons,
+      prerequisiteActivity: prerequisiteActivityId
+        ? { id: prerequisiteActivityId }
+        : null,
       questions,
       teacher: { id: teacherId },
     });
     const { id } = await this.examRepo.save(exam);
+
+    if (questionPools?.length) {
+      await this.setExamQuestionPools(questionPools, id, teacherId);
+    }
+
+    if (sections?.length) {
+      await this.setExamSections(
+        id,
+        sections,
+        exam.questions.map((question, index) => ({
+          id: question.id,
+          sectionOrderNumber: questions[index].sectionOrderNumber,
+        })),
+      );
+    }
+
     // Manually query newly created exam since relations aren't returned on exam creation
     const newExam = await this.examRepo.findOne({
       where: { id },
       relations: {
         coveredLessons: true,
-        questions: { choices: true },
+        prerequisiteLessons: true,
+        prerequisiteActivity: true,
+        questions: {
+          choices: true,
+          typeNumeric: true,
+          typeMultipleSelect: true,
+          typeFillBlank: true,
+          section: true,
+        },
+        questionPools: { questionBankItems: true },
+        sections: true,
       },
     });
 
@@ -378,20 +536,34 @@ export class ExamService {
     examDto: ExamUpdateDto,
     teacherId: number,
     scheduleId?: number,
-  ): Promise<Exam> {
+  ): Promise<Exam & { regradeSummary?: ExamRegradeSummary }> {
     const {
       startDate,
       endDate,
       studentIds,
       coveredLessonIds,
+      prerequisiteLessonIds,
+      prerequisiteActivityId,
       questions,
+      questionPools,
+      sections,
       ...moreExamDto
     } = examDto;
 
     // Find exam, throw error if none found
     const exam = await this.examRepo.findOne({
       where: { slug, teacher: { id: teacherId } },
-      relations: { questions: { choices: true } },
+      relations: {
+        questions: {
+          choices: true,
+          typeNumeric: true,
+          typeMultipleSelect: true,
+          typeFillBlank: true,
+          section: true,
+        },
+        questionPools: { questionBankItems: true },
+        sections: true,
+      },
     });
 
     await this.validateUpdateExam(examDto, slug, exam, teacherId, scheduleId);
@@ -399,18 +571,65 @@ export class ExamService {
     const coveredLessons = coveredLessonIds
       ? coveredLessonIds.map((lessonId) => ({ id: lessonId }))
       : [];
+    const prerequisiteLessons = prerequisiteLessonIds
+      ? prerequisiteLessonIds.map((lessonId) => ({ id: lessonId }))
+      : [];
+
+    // Existing completions are only regraded if answer keys or points are changed
+    const isRegradeNeeded =
+      !!questions && isExamAnswerKeyChanged(exam, questions);
 
     // Delete questions and choices not included in request
     await this.deleteExamQuestionsAndChoices(questions, exam);
 
     // Update exam, ignore schedule if previous exam status is published
-    const updatedExam = await this.examRepo.save({
-      ...exam,
+    const {
+      questionPools: currentQuestionPools,
+      sections: currentSections,
+      ...moreExam
+    } = exam;
+    const savedExam = await this.examRepo.save({
+      ...moreExam,
       ...moreExamDto,
       coveredLessons,
+      prerequisiteLessons,
+      prerequisiteActivity: prerequisiteActivityId
+        ? { id: prerequisiteActivityId }
+        : null,
       questions,
     });
 
+    // Replace question pools if included in request
+    const newQuestionPools = questionPools
+      ? await this.setExamQuestionPools(questionPools, exam.id, teacherId)
+      : currentQuestionPools;
+
+    // Replace sections if included in request, reassign questions to sections if included
+    const newSections =
+      sections || questions
+        ? await this.setExamSections(
+            exam.id,
+            sections,
+            questions &&
+              savedExam.questions.map((question, index) => ({
+                id: question.id,
+                sectionOrderNumber: questions[index].sectionOrderNumber,
+              })),
+          )
+        : currentSections;
+
+    // Recompute scores of existing completions with the updated answer keys
+    const regradeSummary = isRegradeNeeded
+      ? await this.regradeCompletionsByExamId(exam.id)
+      : undefined;
+
+    const updatedExam = {
+      ...savedExam,
+      questionPools: newQuestionPools,
+      sections: newSections,
+      regradeSummary,
+    };
+
     if (exam.status === RecordStatus.Published) {
       return updatedExam;
     }
@@ -442,6 +661,434 @@ export class ExamService {
     return updatedExam;
   }
 
+  // Deep copy exam as a new draft with the next order number, schedules and completions are not copied
+  async cloneBySlugAndTeacherId(slug: string, teacherId: number) {
+    const questionRelations = {
+      choices: true,
+      typeNumeric: true,
+      typeMultipleSelect: true,
+      typeFillBlank: true,
+      questionBankItem: true,
+    };
+
+    const exam = await this.examRepo.findOne({
+      where: { slug, teacher: { id: teacherId } },
+      relations: {
+        coveredLessons: true,
+        prerequisiteLessons: true,
+        prerequisiteActivity: true,
+        questions: { ...questionRelations, section: true },
+        questionPools: {
+          questionBankItems: true,
+          questions: questionRelations,
+        },
+        sections: true,
+      },
+    });
+
+    if (!exam) {
+      throw new NotFoundException('Exam not found');
+    }
+
+    const maxOrderNumber = await this.examRepo.maximum('orderNumber', {
+      teacher: { id: teacherId },
+    });
+    const orderNumber = (maxOrderNumber || 0) + 1;
+    // Uploaded exam images are grouped by exam base folder
+    const imageBaseName = `e${orderNumber}`;
+
+    const {
+      coveredLessons,
+      prerequisiteLessons,
+      prerequisiteActivity,
+      questions,
+      questionPools,
+      sections,
+    } = exam;
+
+    try {
+      await this.supabaseService.copyFiles(
+        getClonedImagePaths(
+          [...questions, ...questionPools.flatMap((pool) => pool.questions)],
+          imageBaseName,
+        ),
+      );
+    } catch (error) {
+      throw new InternalServerErrorException(
+        'An error has occured. Image copy failed',
+      );
+    }
+
+    const newExam = this.examRepo.create({
+      status: RecordStatus.Draft,
+      orderNumber,
+      title: exam.title,
+      randomizeQuestions: exam.randomizeQuestions,
+      randomizeChoices: exam.randomizeChoices,
+      visibleQuestionsCount: exam.visibleQuestionsCount,
+      pointsPerQuestion: exam.pointsPerQuestion,
+      passingPoints: exam.passingPoints,
+      negativeMarking: exam.negativeMarking,
+      negativeMarkingRatio: exam.negativeMarkingRatio,
+      maxAttempts: exam.maxAttempts,
+      attemptCooldownMinutes: exam.attemptCooldownMinutes,
+      durationMinutes: exam.durationMinutes,
+      attemptScoring: exam.attemptScoring,
+      latePolicy: exam.latePolicy,
+      lateGraceMinutes: exam.lateGraceMinutes,
+      latePenaltyPercent: exam.latePenaltyPercent,
+      reviewPolicy: exam.reviewPolicy,
+      reviewDate: exam.reviewDate,
+      description: exam.description,
+      excerpt: exam.excerpt,
+      coveredLessons: coveredLessons.map((lesson) => ({ id: lesson.id })),
+      prerequisiteLessons: prerequisiteLessons.map((lesson) => ({
+        id: lesson.id,
+      })),
+      prerequisiteActivity: prerequisiteActivity
+        ? { id: prerequisiteActivity.id }
+        : null,
+      prerequisiteActivityScore: exam.prerequisiteActivityScore,
+      questions: questions.map((question) =>
+        generateClonedExamQuestion(question, imageBaseName),
+      ),
+      teacher: { id: teacherId },
+    });
+
+    const { id } = await this.examRepo.save(newExam);
+
+    if (sections.length) {
+      await this.setExamSections(
+        id,
+        sections.map((section) => ({
+          orderNumber: section.orderNumber,
+          title: section.title,
+          instructions: section.instructions,
+          randomizeQuestions: section.randomizeQuestions,
+          visibleQuestionsCount: section.visibleQuestionsCount,
+          pointsPerQuestion: section.pointsPerQuestion,
+        })),
+        newExam.questions.map((question, index) => ({
+          id: question.id,
+          sectionOrderNumber: questions[index].section?.orderNumber,
+        })),
+      );
+    }
+
+    // Pools aren't cascaded from exam, save them with their copied questions
+    if (questionPools.length) {
+      await this.examQuestionPoolRepo.save(
+        questionPools.map((pool) =>
+          this.examQuestionPoolRepo.create({
+            drawCount: pool.drawCount,
+            exam: { id },
+            questionBankItems: pool.questionBankItems.map((item) => ({
+              id: item.id,
+            })),
+            questions: pool.questions.map((question) =>
+              generateClonedExamQuestion(question, imageBaseName),
+            ),
+          }),
+        ),
+      );
+    }
+
+    return this.examRepo.findOne({
+      where: { id },
+      relations: {
+        coveredLessons: true,
+        prerequisiteLessons: true,
+        prerequisiteActivity: true,
+        questions: {
+          choices: true,
+          typeNumeric: true,
+          typeMultipleSelect: true,
+          typeFillBlank: true,
+          section: true,
+        },
+        questionPools: { questionBankItems: true },
+        sections: true,
+      },
+      order: {
+        questions: { orderNumber: 'ASC', choices: { orderNumber: 'ASC' } },
+      },
+    });
+  }
+
+  // Create draft exam from Aiken, GIFT or QTI content, report every invalid line
+  async importExam(examDto: ExamImportDto, teacherId: number): Promise<Exam> {
+    const { format, content, ...moreExamDto } = examDto;
+    const { questions, errors } = parseExamFormatQuestions(format, content);
+
+    if (errors.length) {
+      throw new BadRequestException(
+        errors.map(({ line, message }) => `Line ${line}: ${message}`),
+      );
+    }
+
+    // Parsed questions skip request validation, validate them same as a create request
+    const examCreateDto: ExamCreateDto = await new ValidationPipe({
+      whitelist: true,
+      forbidNonWhitelisted: true,
+      forbidUnknownValues: true,
+      transform: true,
+    }).transform(
+      {
+        ...moreExamDto,
+        status: RecordStatus.Draft,
+        randomizeQuestions: false,
+        randomizeChoices: false,
+        visibleQuestionsCount: questions.length,
+        questions: generateExamQuestionsFromFormatQuestions(questions),
+      },
+      { type: 'body', metatype: ExamCreateDto },
+    );
+
+    return this.create(examCreateDto, teacherId);
+  }
+
+  // Pool questions are excluded since they are not part of the exam itself
+  async exportExamBySlugAndTeacherId(
+    slug: string,
+    format: ExamQuestionFormat,
+    teacherId: number,
+  ) {
+    if (!Object.values(ExamQuestionFormat).includes(format)) {
+      throw new BadRequestException('Format is invalid');
+    }
+
+    const exam = await this.getOneBySlugAndTeacherId(slug, teacherId);
+
+    if (
+      format === ExamQuestionFormat.Aiken &&
+      exam.questions.some((q) => q.type !== ExamQuestionType.SingleChoice)
+    ) {
+      throw new BadRequestException(
+        'Aiken format only supports single choice questions',
+      );
+    }
+
+    const extension =
+      format === ExamQuestionFormat.Aiken
+        ? 'txt'
+        : format === ExamQuestionFormat.Gift
+          ? 'gift'
+          : 'xml';
+
+    return {
+      format,
+      fileName: `${exam.slug}.${extension}`,
+      content: generateExamFormatContent(format, exam.questions, exam.title),
+    };
+  }
+
+  getAllQuestionsByExamId(examId: number): Promise<ExamQuestion[]> {
+    return this.examQuestionRepo.find({
+      where: [{ exam: { id: examId } }, { pool: { exam: { id: examId } } }],
+      relations: {
+        pool: true,
+        section: true,
+        choices: true,
+        typeNumeric: true,
+        typeMultipleSelect: true,
+        typeFillBlank: true,
+      },
+    });
+  }
+
+  getAllCompletionsWithAnswersByExamId(
+    examId: number,
+  ): Promise<ExamCompletion[]> {
+    return this.examCompletionRepo.find({
+      where: { exam: { id: examId } },
+      relations: {
+        student: true,
+        version: true,
+        regradedVersion: true,
+        questionAnswers: {
+          question: true,
+          selectedQuestionChoice: true,
+          selectedQuestionChoices: true,
+        },
+      },
+      // Keep answers of questions removed after completion
+      withDeleted: true,
+    });
+  }
+
+  async regradeCompletionsByExamId(
+    examId: number,
+  ): Promise<ExamRegradeSummary> {
+    const exam = await this.examRepo.findOne({ where: { id: examId } });
+    const completions = await this.getAllCompletionsWithAnswersByExamId(examId);
+
+    if (!completions.length) {
+      return { regradedCount: 0, changedScores: [] };
+    }
+
+    const examQuestions = await this.getAllQuestionsByExamId(examId);
+    // Completions keep the version they were taken against, regrade is recorded separately
+    const version = await this.examVersionService.getOrCreateLatest(
+      examId,
+      examQuestions,
+    );
+    const changedScores = [];
+
+    for (const completion of completions) {
+      const { score, maxScore } = getExamCompletionScore(
+        exam,
+        examQuestions,
+        completion,
+      );
+
+      if (
+        score === completion.score &&
+        maxScore === completion.maxScore &&
+        (completion.regradedVersion || completion.version)?.id === version.id
+      ) {
+        continue;
+      }
+
+      await this.examCompletionRepo.update(
+        { id: completion.id },
+        {
+          score,
+          maxScore,
+          regradedVersion: { id: version.id },
+          regradedAt: new Date(),
+        },
+      );
+
+      if (score !== completion.score) {
+        changedScores.push({
+          completionId: completion.id,
+          studentId: completion.student.id,
+          attemptNumber: completion.attemptNumber,
+          previousScore: completion.score,
+          score,
+        });
+      }
+    }
+
+    return { regradedCount: completions.length, changedScores };
+  }
+
+  async setExamQuestionPools(
+    questionPools: ExamQuestionPoolUpsertDto[],
+    examId: number,
+    teacherId: number,
+  ): Promise<ExamQuestionPool[]> {
+    // Remove current pools, including their copied questions
+    const currentPools = await this.examQuestionPoolRepo.find({
+      where: { exam: { id: examId } },
+    });
+    await this.examQuestionPoolRepo.remove(currentPools);
+
+    if (!questionPools.length) {
+      return [];
+    }
+
+    const itemIds = [
+      ...new Set(questionPools.flatMap((pool) => pool.questionBankItemIds)),
+    ];
+    const items = await this.questionBankService.getItemsByIdsAndTeacherId(
+      itemIds,
+      teacherId,
+    );
+
+    // Copy question bank items as pool questions
+    const pools = questionPools.map(({ drawCount, questionBankItemIds }) => {
+      const poolItems = items.filter((item) =>
+        questionBankItemIds.includes(item.id),
+      );
+
+      return this.examQuestionPoolRepo.create({
+        drawCount,
+        exam: { id: examId },
+        questionBankItems: poolItems.map(({ id }) => ({ id })),
+        questions: poolItems.map((item, index) =>
+          generateExamQuestionFromBankItem(item, index + 1),
+        ),
+      });
+    });
+
+    await this.examQuestionPoolRepo.save(pools);
+
+    return this.examQuestionPoolRepo.find({
+      where: { exam: { id: examId } },
+      relations: { questionBankItems: true },
+    });
+  }
+
+  // Replace sections if included, then assign questions by their section order number.
+  // Questions keep their current section if not included
+  async setExamSections(
+    examId: number,
+    sections?: ExamSectionUpsertDto[],
+    questions?: { id: number; sectionOrderNumber?: number }[],
+  ): Promise<ExamSection[]> {
+    const currentSections = await this.examSectionRepo.find({
+      where: { exam: { id: examId } },
+      relations: { questions: true },
+    });
+
+    const targetQuestions =
+      questions ||
+      currentSections.flatMap((section) =>
+        section.questions.map(({ id }) => ({
+          id,
+          sectionOrderNumber: section.orderNumber,
+        })),
+      );
+
+    let targetSections = currentSections;
+
+    if (sections) {
+      await this.examSectionRepo.remove(currentSections);
+      targetSections = await this.examSectionRepo.save(
+        sections.map((section) =>
+          this.examSectionRepo.create({ ...section, exam: { id: examId } }),
+        ),
+      );
+    }
+
+    await Promise.all(
+      targetSections.map((section) => {
+        const questionIds = targetQuestions
+          .filter((q) => q.sectionOrderNumber === section.orderNumber)
+          .map((q) => q.id);
+
+        return questionIds.length
+          ? this.examQuestionRepo.update(
+              { id: In(questionIds) },
+              { section: { id: section.id } },
+            )
+          : null;
+      }),
+    );
+
+    const unsectionedQuestionIds = targetQuestions
+      .filter(
+        (q) =>
+          !targetSections.some(
+            (section) => section.orderNumber === q.sectionOrderNumber,
+          ),
+      )
+      .map((q) => q.id);
+
+    if (unsectionedQuestionIds.length) {
+      await this.examQuestionRepo.update(
+        { id: In(unsectionedQuestionIds) },
+        { section: null },
+      );
+    }
+
+    return this.examSectionRepo.find({
+      where: { exam: { id: examId } },
+      order: { orderNumber: 'ASC' },
+    });
+  }
+
   async deleteBySlug(slug: string, teacherId: number): Promise<boolean> {
     const exam = await this.getOneBySlugAndTeacherId(slug, teacherId);
 
@@ -468,10 +1115,11 @@ export class ExamService {
     const targetQuestionIds = questions.filter((q) => !!q.id).map((q) => q.id);
 
     // Delete questions not included in update
+    // Soft delete so answers of existing completions keep their questions
     const questionsToDelete = exam.questions.filter(
       (q) => !targetQuestionIds.includes(q.id),
     );
-    await this.examQuestionRepo.remove(questionsToDelete);
+    await this.examQuestionRepo.softRemove(questionsToDelete);
 
     // Delete choices not included in update
     await Promise.all(
@@ -482,7 +1130,7 @@ export class ExamService {
             (q) => q.id === targetQuestion.id,
           );
 
-          const targetChoiceIds = targetQuestion.choices
+          const targetChoiceIds = (targetQuestion.choices || [])
             .filter((c) => !!c.id)
             .map((c) => c.id);
 
@@ -490,7 +1138,34 @@ export class ExamService {
           const choicesToDelete = currentQuestion.choices.filter(
             (c) => !targetChoiceIds.includes(c.id),
           );
-          await this.examQuestionChoiceRepo.remove(choicesToDelete);
+          await this.examQuestionChoiceRepo.softRemove(choicesToDelete);
+
+          // Delete question type configs not included in update
+          const { typeNumeric, typeMultipleSelect, typeFillBlank } =
+            currentQuestion;
+
+          if (
+            typeNumeric &&
+            targetQuestion.typeNumeric?.id !== typeNumeric.id
+          ) {
+            await this.examQuestionTypeNumericRepo.remove(typeNumeric);
+          }
+
+          if (
+            typeMultipleSelect &&
+            targetQuestion.typeMultipleSelect?.id !== typeMultipleSelect.id
+          ) {
+            await this.examQuestionTypeMultipleSelectRepo.remove(
+              typeMultipleSelect,
+            );
+          }
+
+          if (
+            typeFillBlank &&
+            targetQuestion.typeFillBlank?.id !== typeFillBlank.id
+          ) {
+            await this.examQuestionTypeFillBlankRepo.remove(typeFillBlank);
+          }
         }),
     );
   }
@@ -499,7 +1174,8 @@ export class ExamService {
     examScheduleDto: ExamScheduleCreateDto,
     teacherId: number,
   ) {
-    const { examId, startDate, endDate, studentIds } = examScheduleDto;
+    const { examId, startDate, endDate, studentIds, accommodations } =
+      examScheduleDto;
 
     const exam = await this.examRepo.findOne({
       where: {
@@ -527,6 +1203,19 @@ export class ExamService {
       throw error;
     }
 
+    if (accommodations) {
+      const { error: accommodationError } =
+        await this.examScheduleService.validateAccommodations(
+          accommodations,
+          teacherId,
+          studentIds,
+        );
+
+      if (accommodationError) {
+        throw accommodationError;
+      }
+    }
+
     return this.examScheduleService.create(examScheduleDto, teacherId);
   }
 
@@ -535,7 +1224,7 @@ export class ExamService {
     examScheduleDto: ExamScheduleUpdateDto,
     teacherId: number,
   ) {
-    const { startDate, endDate, studentIds } = examScheduleDto;
+    const { startDate, endDate, studentIds, accommodations } = examScheduleDto;
 
     const exam = await this.examRepo.findOne({
       where: {
@@ -564,6 +1253,19 @@ export class ExamService {
       throw error;
     }
 
+    if (accommodations) {
+      const { error: accommodationError } =
+        await this.examScheduleService.validateAccommodations(
+          accommodations,
+          teacherId,
+          studentIds,
+        );
+
+      if (accommodationError) {
+        throw accommodationError;
+      }
+    }
+
     return await this.examScheduleService.update(
       scheduleId,
       examScheduleDto,
@@ -571,6 +1273,80 @@ export class ExamService {
     );
   }
 
+  async getScheduleAbsenteesByIdAndTeacherId(
+    scheduleId: number,
+    teacherId: number,
+  ): Promise<StudentUserAccount[]> {
+    const schedule = await this.examScheduleService.getOneByIdAndTeacherId(
+      scheduleId,
+      teacherId,
+    );
+
+    if (!schedule) {
+      throw new NotFoundException('Exam schedule not found');
+    }
+
+    return this.generateScheduleAbsentees(schedule);
+  }
+
+  // Make-up schedule is added to the same exam, so completions and performance
+  // of absent students are counted with the original schedule
+  async createMakeUpSchedule(
+    scheduleId: number,
+    examScheduleDto: ExamScheduleMakeUpCreateDto,
+    teacherId: number,
+  ) {
+    const { startDate, endDate, studentIds, accommodations } = examScheduleDto;
+
+    const schedule = await this.examScheduleService.getOneByIdAndTeacherId(
+      scheduleId,
+      teacherId,
+    );
+
+    if (!schedule) {
+      throw new NotFoundException('Exam schedule not found');
+    }
+
+    const absentees = await this.generateScheduleAbsentees(schedule);
+
+    if (studentIds.some((id) => !absentees.some((s) => s.id === id))) {
+      throw new BadRequestException(
+        'One of the selected student is not absent',
+      );
+    }
+
+    const { error } = await this.examScheduleService.validateScheduleUpsert(
+      startDate,
+      endDate,
+      teacherId,
+      studentIds,
+      schedule.exam.id,
+    );
+
+    if (error) {
+      throw error;
+    }
+
+    if (accommodations) {
+      const { error: accommodationError } =
+        await this.examScheduleService.validateAccommodations(
+          accommodations,
+          teacherId,
+          studentIds,
+        );
+
+      if (accommodationError) {
+        throw accommodationError;
+      }
+    }
+
+    return this.examScheduleService.create(
+      { ...examScheduleDto, examId: schedule.exam.id },
+      teacherId,
+      schedule.id,
+    );
+  }
+
   async deleteSchedule(
     scheduleId: number,
     teacherId: number,
@@ -600,15 +1376,33 @@ export class ExamService {
     const upcomingExamQuery = this.examRepo
       .createQueryBuilder('exam')
       .leftJoinAndSelect('exam.schedules', 'schedules')
+      .leftJoinAndSelect('exam.prerequisiteLessons', 'prerequisiteLessons')
+      .leftJoinAndSelect('exam.prerequisiteActivity', 'prerequisiteActivity')
       .leftJoin('schedules.students', 'students')
+      .leftJoin(
+        'schedules.accommodations',
+        'accommodations',
+        'accommodations.student.id = :studentId',
+        { studentId },
+      )
       .where('exam.status = :status', { status: RecordStatus.Published })
       .andWhere('students.id = :studentId', { studentId })
-      .andWhere('schedules.startDate > :currentDateTime', { currentDateTime });
+      .andWhere(`${STUDENT_START_DATE_SQL} > :currentDateTime`, {
+        currentDateTime,
+      });
 
     const ongoingExamsQuery = this.examRepo
       .createQueryBuilder('exam')
       .leftJoinAndSelect('exam.schedules', 'schedules')
+      .leftJoinAndSelect('exam.prerequisiteLessons', 'prerequisiteLessons')
+      .leftJoinAndSelect('exam.prerequisiteActivity', 'prerequisiteActivity')
       .leftJoin('schedules.students', 'students')
+      .leftJoin(
+        'schedules.accommodations',
+        'accommodations',
+        'accommodations.student.id = :studentId',
+        { studentId },
+      )
       .leftJoinAndSelect(
         'exam.completions',
         'completions',
@@ -619,10 +1413,10 @@ export class ExamService {
       .andWhere('students.id = :studentId', { studentId })
       .andWhere(
         new Brackets((sqb) => {
-          sqb.where('schedules.startDate <= :currentDateTime', {
+          sqb.where(`${STUDENT_START_DATE_SQL} <= :currentDateTime`, {
             currentDateTime,
           });
-          sqb.andWhere('schedules.endDate >= :currentDateTime', {
+          sqb.andWhere(`${STUDENT_END_DATE_SQL} >= :currentDateTime`, {
             currentDateTime,
           });
         }),
@@ -640,10 +1434,21 @@ export class ExamService {
         'exam.slug',
         'exam.excerpt',
         'exam.randomizeQuestions',
+        'exam.randomizeChoices',
         'exam.visibleQuestionsCount',
         'exam.pointsPerQuestion',
         'exam.passingPoints',
+        'exam.maxAttempts',
+        'exam.attemptCooldownMinutes',
+        'exam.durationMinutes',
+        'exam.attemptScoring',
+        'exam.latePolicy',
+        'exam.lateGraceMinutes',
+        'exam.latePenaltyPercent',
+        'exam.prerequisiteActivityScore',
         'schedules',
+        'prerequisiteLessons',
+        'prerequisiteActivity',
       ])
       .orderBy('schedules.startDate', 'ASC')
       .getOne();
@@ -659,10 +1464,21 @@ export class ExamService {
         'exam.slug',
         'exam.excerpt',
         'exam.randomizeQuestions',
+        'exam.randomizeChoices',
         'exam.visibleQuestionsCount',
         'exam.pointsPerQuestion',
         'exam.passingPoints',
+        'exam.maxAttempts',
+        'exam.attemptCooldownMinutes',
+        'exam.durationMinutes',
+        'exam.attemptScoring',
+        'exam.latePolicy',
+        'exam.lateGraceMinutes',
+        'exam.latePenaltyPercent',
+        'exam.prerequisiteActivityScore',
         'schedules',
+        'prerequisiteLessons',
+        'prerequisiteActivity',
         'completions',
       ])
       .orderBy('schedules.startDate', 'ASC')
@@ -672,10 +1488,33 @@ export class ExamService {
       .filter((e) => !!e)
       .map((e) => e.id);
 
+    // Upcoming and ongoing exams stay locked until student meets prerequisites
+    const [transformedUpcomingExam, ...transformedOngoingExams] =
+      await Promise.all(
+        [upcomingExam, ...ongoingExams].map(async (exam) =>
+          exam
+            ? {
+                ...exam,
+                missingPrerequisites:
+                  await this.examPrerequisiteService.getMissingByStudentId(
+                    exam,
+                    studentId,
+                  ),
+              }
+            : null,
+        ),
+      );
+
     const otherExamsQuery = this.examRepo
       .createQueryBuilder('exam')
       .leftJoinAndSelect('exam.schedules', 'schedules')
       .leftJoin('schedules.students', 'students')
+      .leftJoin(
+        'schedules.accommodations',
+        'accommodations',
+        'accommodations.student.id = :studentId',
+        { studentId },
+      )
       .leftJoinAndSelect(
         'exam.completions',
         'completions',
@@ -684,7 +1523,9 @@ export class ExamService {
       )
       .where('exam.status = :status', { status: RecordStatus.Published })
       .andWhere('students.id = :studentId', { studentId })
-      .andWhere('schedules.endDate < :currentDateTime', { currentDateTime });
+      .andWhere(`${STUDENT_END_DATE_SQL} < :currentDateTime`, {
+        currentDateTime,
+      });
 
     if (excludeIds.length) {
       otherExamsQuery.andWhere('exam.id NOT IN (:...excludeIds)', {
@@ -708,9 +1549,17 @@ export class ExamService {
         'exam.slug',
         'exam.excerpt',
         'exam.randomizeQuestions',
+        'exam.randomizeChoices',
         'exam.visibleQuestionsCount',
         'exam.pointsPerQuestion',
         'exam.passingPoints',
+        'exam.maxAttempts',
+        'exam.attemptCooldownMinutes',
+        'exam.durationMinutes',
+        'exam.attemptScoring',
+        'exam.latePolicy',
+        'exam.lateGraceMinutes',
+        'exam.latePenaltyPercent',
         'schedules',
         'completions',
       ])
@@ -719,20 +1568,20 @@ export class ExamService {
 
     if (ongoingExams?.length) {
       return {
-        upcomingExam,
+        upcomingExam: transformedUpcomingExam,
         latestExam: null,
         previousExams: otherExams,
-        ongoingExams,
+        ongoingExams: transformedOngoingExams,
       };
     } else {
       const latestExam = otherExams.length ? otherExams[0] : null;
       const previousExams = otherExams.length > 1 ? otherExams.slice(1) : [];
 
       return {
-        upcomingExam,
+        upcomingExam: transformedUpcomingExam,
         latestExam,
         previousExams,
-        ongoingExams,
+        ongoingExams: transformedOngoingExams,
       };
     }
   }
@@ -746,15 +1595,21 @@ export class ExamService {
         },
       ],
       relations: {
-        schedules: { students: true },
+        schedules: { students: true, accommodations: { student: true } },
       },
       order: { schedules: { startDate: 'ASC' } },
     });
 
+    // Only keep schedules and accommodations of current student
     const transformedExams = exams.map((exam) => {
-      const schedules = exam.schedules.filter((schedule) =>
-        schedule.students.some((s) => s.id === studentId),
-      );
+      const schedules = exam.schedules
+        .filter((schedule) => schedule.students.some((s) => s.id === studentId))
+        .map((schedule) => ({
+          ...schedule,
+          accommodations: schedule.accommodations.filter(
+            (acc) => acc.student.id === studentId,
+          ),
+        }));
 
       return {
         ...exam,
@@ -769,6 +1624,7 @@ export class ExamService {
     slug: string,
     studentId: number,
     noSchedules?: boolean,
+    withAnswerKeys?: boolean,
   ) {
     const currentDateTime = dayjs();
 
@@ -784,26 +1640,64 @@ export class ExamService {
       ],
       relations: {
         coveredLessons: true,
-        questions: { choices: true },
-        schedules: { students: true },
-        completions: {
-          questionAnswers: { question: true, selectedQuestionChoice: true },
+        prerequisiteLessons: true,
+        prerequisiteActivity: true,
+        questions: {
+          choices: true,
+          typeNumeric: true,
+          typeMultipleSelect: true,
+          typeFillBlank: true,
+          section: true,
         },
-      },
-      order: { schedules: { startDate: 'ASC' } },
+        questionPools: {
+          questions: {
+            choices: true,
+            typeNumeric: true,
+            typeMultipleSelect: true,
+            typeFillBlank: true,
+          },
+        },
+        sections: true,
+        schedules: { students: true, accommodations: { student: true } },
+      },
+      order: {
+        schedules: { startDate: 'ASC' },
+        sections: { orderNumber: 'ASC' },
+      },
     });
 
     if (!exam || !teacher) {
       throw new NotFoundException('Exam not found');
     }
 
-    if (noSchedules) {
-      return exam;
-    }
+    // Include soft deleted questions and choices so answers show what was graded
+    const completions = await this.examCompletionRepo.find({
+      where: { exam: { id: exam.id } },
+      relations: {
+        student: true,
+        version: true,
+        questionAnswers: {
+          question: true,
+          selectedQuestionChoice: true,
+          selectedQuestionChoices: true,
+        },
+      },
+      withDeleted: true,
+    });
 
-    const filteredSchedules = exam.schedules.filter((schedule) =>
-      schedule.students.find((s) => s.id === studentId),
-    );
+    // Apply current student accommodation to schedule dates
+    const filteredSchedules = exam.schedules
+      .filter((schedule) => schedule.students.find((s) => s.id === studentId))
+      .map((schedule) => {
+        // eslint-disable-next-line @typescript-eslint/no-unused-vars
+        const { accommodations, ...moreSchedule } = schedule;
+        const { startDate, endDate } = getExamScheduleStudentWindow(
+          schedule,
+          studentId,
+        );
+
+        return { ...moreSchedule, startDate, endDate } as ExamSchedule;
+      });
 
     const ongoingDate = filteredSchedules.find((schedule) => {
       const startDate = dayjs(schedule.startDate);
@@ -811,26 +1705,113 @@ export class ExamService {
       return currentDateTime.isBetween(startDate, endDate, null, '[]');
     });
 
+    // Include all attempts of current student, latest attempt first
+    const studentCompletions = completions
+      .filter((com) => com.student.id === studentId)
+      .sort((comA, comB) => comB.attemptNumber - comA.attemptNumber);
+
+    // Answer keys are only shown to teacher, or to student if review policy allows
+    if (noSchedules) {
+      if (
+        withAnswerKeys ||
+        isExamReviewAvailable(
+          exam,
+          filteredSchedules,
+          studentCompletions,
+          currentDateTime,
+        )
+      ) {
+        return { ...exam, completions: studentCompletions };
+      }
+
+      // eslint-disable-next-line @typescript-eslint/no-unused-vars
+      const { questionPools, ...moreExam } = exam;
+
+      return {
+        ...moreExam,
+        questions: exam.questions.map(hideExamQuestionAnswerKey),
+        completions: studentCompletions.map(hideExamCompletionAnswerKeys),
+      };
+    }
+
     const transformedExam = {
       ...exam,
-      completions: exam.completions.length ? [exam.completions[0]] : [],
+      completions: studentCompletions,
+      score: getExamAttemptScore(studentCompletions, exam.attemptScoring),
+      missingPrerequisites:
+        await this.examPrerequisiteService.getMissingByStudentId(
+          exam,
+          studentId,
+        ),
     };
 
+    const isReviewAvailable = isExamReviewAvailable(
+      exam,
+      filteredSchedules,
+      studentCompletions,
+      currentDateTime,
+    );
+
     // If exam is ongoing for current student then remove answers from completion
     if (ongoingDate) {
-      const { questions, completions, ...moreExam } = transformedExam;
-      const targetQuestions = moreExam.randomizeQuestions
-        ? shuffleArray(questions)
-        : questions;
+      // eslint-disable-next-line @typescript-eslint/no-unused-vars
+      const { questions, questionPools, completions, ...moreExam } =
+        transformedExam;
+
+      // Answers of previous attempts are only shown if review policy allows
+      const targetCompletions = isReviewAvailable
+        ? completions
+        : completions.map(
+            // eslint-disable-next-line @typescript-eslint/no-unused-vars
+            ({ questionAnswers, version, ...moreCompletion }) => moreCompletion,
+          );
+
+      // Exam stays locked without questions until student meets prerequisites
+      if (moreExam.missingPrerequisites) {
+        return {
+          ...moreExam,
+          completions: targetCompletions,
+          schedules: [ongoingDate],
+          scheduleStatus: ExamScheduleStatus.Ongoing,
+        };
+      }
+
+      // Serve questions and choices in the same order for current attempt
+      const delivery = await this.examDeliveryService.getOrCreate(
+        exam,
+        ongoingDate.id,
+        studentId,
+        getNextExamAttemptNumber(completions),
+      );
+
+      const targetQuestions = sortExamQuestionsByDelivery(
+        [...questions, ...questionPools.flatMap((pool) => pool.questions)],
+        delivery,
+      );
+
+      // Exam with duration ends earlier once student started,
+      // use the room end date instead if teacher has extended or paused it
+      const roomStudent =
+        await this.examRoomService.getStudentByExamIdAndStudentId(
+          exam.id,
+          studentId,
+        );
+
+      const endDate = roomStudent
+        ? getExamRoomEndDate(roomStudent.room)
+        : getExamStudentEndDate(
+            exam,
+            exam.schedules.find((schedule) => schedule.id === ongoingDate.id),
+            studentId,
+            delivery.startedAt,
+          );
 
       return {
         ...moreExam,
-        questions: targetQuestions,
-        completions: completions.map(
-          // eslint-disable-next-line @typescript-eslint/no-unused-vars
-          ({ questionAnswers, ...moreCompletion }) => moreCompletion,
-        ),
-        schedules: [ongoingDate],
+        // Hide answer keys, explanations and solutions of served questions
+        questions: targetQuestions.map(hideExamQuestionAnswerKey),
+        completions: targetCompletions,
+        schedules: [{ ...ongoingDate, endDate }],
         scheduleStatus: ExamScheduleStatus.Ongoing,
       };
     }
@@ -846,12 +1827,13 @@ export class ExamService {
     // If exam is upcoming for current student then remove questions and answers from completion
     if (upcomingDate && currentAvailableExams.upcomingExam.id === exam.id) {
       // eslint-disable-next-line @typescript-eslint/no-unused-vars
-      const { questions, completions, ...moreExam } = transformedExam;
+      const { questions, questionPools, completions, ...moreExam } =
+        transformedExam;
       return {
         ...moreExam,
         completions: completions.map(
           // eslint-disable-next-line @typescript-eslint/no-unused-vars
-          ({ questionAnswers, ...moreCompletion }) => moreCompletion,
+          ({ questionAnswers, version, ...moreCompletion }) => moreCompletion,
         ),
         schedules: [upcomingDate],
         scheduleStatus: ExamScheduleStatus.Upcoming,
@@ -865,8 +1847,21 @@ export class ExamService {
       (data) => data.studentId === studentId,
     );
 
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    const { questionPools, ...moreExam } = transformedExam;
+
+    if (!isReviewAvailable) {
+      return {
+        ...moreExam,
+        questions: moreExam.questions.map(hideExamQuestionAnswerKey),
+        completions: moreExam.completions.map(hideExamCompletionAnswerKeys),
+        scheduleStatus: ExamScheduleStatus.Past,
+        rank,
+      };
+    }
+
     return {
-      ...transformedExam,
+      ...moreExam,
       scheduleStatus: ExamScheduleStatus.Past,
       rank,
     };
@@ -886,69 +1881,155 @@ export class ExamService {
         status: RecordStatus.Published,
         schedules: { students: { id: studentId } },
       },
-      relations: { schedules: true, completions: true },
+      relations: {
+        schedules: { accommodations: { student: true } },
+        completions: true,
+        questions: { choices: true, section: true },
+        questionPools: { questions: { choices: true } },
+        sections: true,
+        prerequisiteLessons: true,
+        prerequisiteActivity: true,
+      },
     });
 
-    if (
-      !exam ||
-      (exam.schedules?.length &&
-        dayjs(exam.schedules[0].startDate).isAfter(currentDateTime))
-    ) {
+    // Check schedule start date of current student, including accommodation
+    const schedule = exam
+      ? getExamStudentSchedule(exam.schedules || [], studentId, currentDateTime)
+      : null;
+
+    if (!exam || (exam.schedules?.length && !schedule)) {
       throw new NotFoundException('Exam not available');
     }
 
+    const missingPrerequisites =
+      await this.examPrerequisiteService.getMissingByStudentId(exam, studentId);
+
+    if (missingPrerequisites) {
+      throw new BadRequestException('Exam prerequisites are not met');
+    }
+
     const completions = await this.examCompletionRepo.find({
       where: { exam: { id: exam.id }, student: { id: studentId } },
     });
 
-    if (completions.length) {
-      throw new BadRequestException('Exam already taken');
+    const { error } = validateExamAttempt(exam, completions);
+    if (error) {
+      throw error;
     }
 
-    const examQuestions = await this.examQuestionRepo.find({
-      where: {
-        id: In(questionAnswers.map((a) => a.questionId)),
-        exam: { id: exam.id },
-      },
-      relations: { choices: true },
-    });
+    const attemptNumber = getNextExamAttemptNumber(completions);
+    const delivery = await this.examDeliveryService.getOrCreate(
+      exam,
+      schedule?.id,
+      studentId,
+      attemptNumber,
+    );
 
-    const correctCount = questionAnswers.reduce(
-      (acc, { questionId, selectedQuestionChoiceId }) => {
-        if (!questionId || !selectedQuestionChoiceId) {
-          return acc;
-        }
+    const roomStudent =
+      await this.examRoomService.getStudentByExamIdAndStudentId(
+        exam.id,
+        studentId,
+      );
 
-        const question = examQuestions.find((q) => q.id === questionId);
-        const choice = question
-          ? question.choices.find((c) => c.id === selectedQuestionChoiceId)
-          : null;
+    // Check submission against the student's room or schedule window and late policy,
+    // room end date is moved when teacher extends or pauses the room
+    const endDate = roomStudent
+      ? getExamRoomEndDate(roomStudent.room, currentDateTime)
+      : schedule &&
+        getExamStudentEndDate(exam, schedule, studentId, delivery.startedAt);
 
-        return choice.isCorrect ? acc + 1 : acc;
-      },
-      0,
+    const { isClosed, isLate, latePenaltyPercent } = endDate
+      ? getExamSubmissionLateness(exam, endDate, currentDateTime)
+      : { isClosed: false, isLate: false, latePenaltyPercent: null };
+
+    if (isClosed) {
+      throw new BadRequestException('Exam submission is closed');
+    }
+
+    // Reject answers of questions not served to student
+    const { questionIds: servedQuestionIds } = delivery;
+    if (
+      questionAnswers.some((a) => !servedQuestionIds.includes(a.questionId))
+    ) {
+      throw new BadRequestException('Answer has an invalid question');
+    }
+
+    // Pin completion to the questions the student was graded against
+    const version = await this.examVersionService.getOrCreateLatest(
+      exam.id,
+      await this.getAllQuestionsByExamId(exam.id),
     );
 
-    const score = correctCount * exam.pointsPerQuestion;
+    // Include questions drawn from question pools
+    const examQuestions = await this.examQuestionRepo.find({
+      where: [
+        { id: In(servedQuestionIds), exam: { id: exam.id } },
+        { id: In(servedQuestionIds), pool: { exam: { id: exam.id } } },
+      ],
+      relations: {
+        section: true,
+        choices: true,
+        typeNumeric: true,
+        typeMultipleSelect: true,
+        typeFillBlank: true,
+      },
+    });
 
-    const newQuestionAnswers = questionAnswers.map(
-      ({ questionId, selectedQuestionChoiceId }) => ({
-        question: { id: questionId },
-        selectedQuestionChoice: selectedQuestionChoiceId
-          ? { id: selectedQuestionChoiceId }
-          : null,
-      }),
+    // Only keep answers of current exam questions
+    const answers = questionAnswers
+      .filter((a) => examQuestions.some((q) => q.id === a.questionId))
+      .map(
+        ({
+          questionId,
+          selectedQuestionChoiceId,
+          selectedQuestionChoiceIds,
+          numericAnswer,
+          textAnswer,
+        }) => ({
+          questionId,
+          selectedChoiceId: selectedQuestionChoiceId,
+          selectedChoiceIds: selectedQuestionChoiceIds,
+          numericAnswer,
+          textAnswer,
+        }),
+      );
+
+    const score = getExamLatePenaltyScore(
+      getExamAnswersScore(exam, examQuestions, answers),
+      latePenaltyPercent,
     );
+    const newQuestionAnswers = generateExamCompletionQuestionAnswers(answers);
 
     const completion = this.examCompletionRepo.create({
       score,
-      submittedAt: currentDateTime.date(),
+      maxScore: getExamTotalPoints(exam, examQuestions),
+      attemptNumber,
+      servedQuestionIds,
+      servedChoiceIds: delivery.choiceIds,
+      isLate,
+      latePenaltyPercent,
+      submittedAt: currentDateTime.toDate(),
       exam,
+      version,
       questionAnswers: newQuestionAnswers,
       student: { id: studentId },
     });
 
-    return this.examCompletionRepo.save(completion);
+    const newCompletion = await this.examCompletionRepo.save(completion);
+
+    await this.examIntegrityService.setCompletion(
+      exam.id,
+      studentId,
+      attemptNumber,
+      newCompletion.id,
+    );
+
+    // Leave exam room so submitted attempt is not auto saved again when room ends
+    if (roomStudent) {
+      await this.examRoomService.removeStudent(roomStudent);
+    }
+
+    return newCompletion;
   }
 
   async deleteExamCompletionBySlugAndStudentId(
@@ -963,6 +2044,126 @@ export class ExamService {
     return !!result.affected;
   }
 
+  // TEACHER COMPLETIONS
+
+  getCompletionScoreOverridesByIdAndTeacherId(
+    completionId: number,
+    teacherId: number,
+  ): Promise<ExamCompletionScoreOverride[]> {
+    return this.examCompletionScoreOverrideRepo.find({
+      where: {
+        completion: { id: completionId, exam: { teacher: { id: teacherId } } },
+      },
+      relations: { questionAnswer: { question: true }, teacher: true },
+      order: { createdAt: 'DESC' },
+    });
+  }
+
+  // Override score of the whole completion or points of a single answer,
+  // completion score is recomputed so rankings use the adjusted score
+  async createCompletionScoreOverrideByIdAndTeacherId(
+    completionId: number,
+    scoreOverrideDto: ExamCompletionScoreOverrideCreateDto,
+    teacherId: number,
+  ): Promise<ExamCompletion> {
+    const { score, reason, questionAnswerId } = scoreOverrideDto;
+
+    const completion = await this.examCompletionRepo.findOne({
+      where: { id: completionId, exam: { teacher: { id: teacherId } } },
+      relations: {
+        exam: true,
+        questionAnswers: {
+          question: true,
+          selectedQuestionChoice: true,
+          selectedQuestionChoices: true,
+        },
+      },
+      withDeleted: true,
+    });
+
+    if (!completion) {
+      throw new NotFoundException('Exam completion not found');
+    }
+
+    const { exam } = completion;
+    const examQuestions = await this.getAllQuestionsByExamId(exam.id);
+    let previousScore = completion.score;
+
+    if (questionAnswerId) {
+      const questionAnswer = completion.questionAnswers.find(
+        (qa) => qa.id === questionAnswerId,
+      );
+      const question = examQuestions.find(
+        (q) => q.id === questionAnswer?.question?.id,
+      );
+
+      if (!questionAnswer || !question) {
+        throw new NotFoundException('Question answer not found');
+      }
+
+      if (score > getExamQuestionPoints(exam, question)) {
+        throw new BadRequestException('Score is more than question points');
+      }
+
+      previousScore =
+        questionAnswer.overriddenPoints ??
+        getExamAnswersScore(
+          exam,
+          [question],
+          generateExamAnswersFromCompletionQuestionAnswers([questionAnswer]),
+        );
+
+      await this.examCompletionQuestionAnswerRepo.update(
+        { id: questionAnswer.id },
+        { overriddenPoints: score },
+      );
+      questionAnswer.overriddenPoints = score;
+    } else {
+      if (completion.maxScore != null && score > completion.maxScore) {
+        throw new BadRequestException('Score is more than max score');
+      }
+
+      completion.overriddenScore = score;
+    }
+
+    const { score: newScore, maxScore } = getExamCompletionScore(
+      exam,
+      examQuestions,
+      completion,
+    );
+
+    await this.examCompletionRepo.update(
+      { id: completion.id },
+      {
+        score: newScore,
+        maxScore,
+        overriddenScore: completion.overriddenScore,
+        isScoreAdjusted: true,
+      },
+    );
+
+    const scoreOverride = this.examCompletionScoreOverrideRepo.create({
+      previousScore,
+      score,
+      reason,
+      completion: { id: completion.id },
+      questionAnswer: questionAnswerId ? { id: questionAnswerId } : null,
+      teacher: { id: teacherId },
+    });
+    await this.examCompletionScoreOverrideRepo.save(scoreOverride);
+
+    return this.examCompletionRepo.findOne({
+      where: { id: completion.id },
+      relations: {
+        student: true,
+        version: true,
+        questionAnswers: { question: true },
+        scoreOverrides: { questionAnswer: true, teacher: true },
+      },
+      withDeleted: true,
+    });
+  }
+
   //  MISC
 
   async validateCreateExam(examDto: ExamCreateDto, teacherId: number) {
@@ -971,14 +2172,48 @@ export class ExamService {
       endDate,
       studentIds,
       coveredLessonIds,
+      prerequisiteLessonIds,
+      prerequisiteActivityId,
       questions,
+      questionPools,
+      sections,
       ...moreExamDto
     } = examDto;
 
+    const poolQuestions = await this.validateExamQuestionPools(
+      questionPools,
+      moreExamDto as Exam,
+      teacherId,
+    );
+
+    this.validateExamQuestionsCount(
+      moreExamDto as Exam,
+      questions,
+      poolQuestions,
+    );
+
+    const sectionQuestions = this.validateExamSections(sections, questions);
+
+    this.validateExamLatePolicy(moreExamDto as Exam);
+    this.validateExamReviewPolicy(moreExamDto as Exam);
+
+    const { error: prerequisiteError } =
+      await this.examPrerequisiteService.validateUpsert(
+        { coveredLessonIds, prerequisiteLessonIds, prerequisiteActivityId },
+        teacherId,
+      );
+
+    if (prerequisiteError) {
+      throw prerequisiteError;
+    }
+
     // Check if passing points is more than the exam's total points
     if (
       moreExamDto.passingPoints >
-      moreExamDto.pointsPerQuestion * moreExamDto.visibleQuestionsCount
+      getExamTotalPoints(moreExamDto as Exam, [
+        ...sectionQuestions,
+        ...poolQuestions,
+      ])
     ) {
       throw new BadRequestException('Passing points is more that total points');
     }
@@ -994,17 +2229,7 @@ export class ExamService {
       throw new ConflictException('Exam number is already present');
     }
 
-    // Check if all questions have atleast one isCorrect choice
-    questions.forEach((question) => {
-      const isCorrectChoice = question.choices.find(
-        (choice) => choice.isCorrect,
-      );
-      if (!isCorrectChoice) {
-        throw new BadRequestException(
-          'Question should have at least 1 correct choice',
-        );
-      }
-    });
+    this.validateExamQuestions(questions);
 
     // Validate if lessons from coveredLessonIds is owned by current user teacher
     if (coveredLessonIds?.length) {
@@ -1059,7 +2284,11 @@ export class ExamService {
       endDate,
       studentIds,
       coveredLessonIds,
+      prerequisiteLessonIds,
+      prerequisiteActivityId,
       questions,
+      questionPools,
+      sections,
       ...moreExamDto
     } = examDto;
 
@@ -1067,10 +2296,48 @@ export class ExamService {
       throw new NotFoundException('Exam not found');
     }
 
+    const targetExam = { ...exam, ...moreExamDto } as Exam;
+    const targetQuestions = questions || exam.questions;
+    // Use current question pools if not included in update
+    const poolQuestions = await this.validateExamQuestionPools(
+      questionPools ||
+        exam.questionPools.map((pool) => ({
+          drawCount: pool.drawCount,
+          questionBankItemIds: pool.questionBankItems.map((item) => item.id),
+        })),
+      targetExam,
+      teacherId,
+    );
+
+    this.validateExamQuestionsCount(targetExam, targetQuestions, poolQuestions);
+
+    // Use current sections and question sections if not included in update
+    const sectionQuestions = this.validateExamSections(
+      sections || exam.sections,
+      questions ||
+        exam.questions.map((question) => ({
+          points: question.points,
+          sectionOrderNumber: question.section?.orderNumber,
+        })),
+    );
+
+    this.validateExamLatePolicy(targetExam);
+    this.validateExamReviewPolicy(targetExam);
+
+    const { error: prerequisiteError } =
+      await this.examPrerequisiteService.validateUpsert(
+        { coveredLessonIds, prerequisiteLessonIds, prerequisiteActivityId },
+        teacherId,
+      );
+
+    if (prerequisiteError) {
+      throw prerequisiteError;
+    }
+
     // Check if passing points is more than the exam's total points
     if (
-      moreExamDto.passingPoints >
-      moreExamDto.pointsPerQuestion * moreExamDto.visibleQuestionsCount
+      targetExam.passingPoints >
+      getExamTotalPoints(targetExam, [...sectionQuestions, ...poolQuestions])
     ) {
       throw new BadRequestException('Passing points is more that total points');
     }
@@ -1080,7 +2347,8 @@ export class ExamService {
       where: { exam: { id: exam.id } },
     });
 
-    if (completionCount > 0) {
+    // Taken exams can only fix answer keys, existing completions are regraded
+    if (completionCount > 0 && !isExamAnswerKeyUpdate(exam, examDto)) {
       throw new BadRequestException(
         'Cannot update exams that are already taken',
       );
@@ -1099,18 +2367,7 @@ export class ExamService {
       throw new ConflictException('Exam number is already present');
     }
 
-    // Check if all questions have atleast one isCorrect choice
-    questions.forEach((question) => {
-      const hasCorrectChoice = question.choices.some(
-        (choice) => choice.isCorrect,
-      );
-
-      if (!hasCorrectChoice) {
-        throw new BadRequestException(
-          'Question should have at least 1 correct choice',
-        );
-      }
-    });
+    this.validateExamQuestions(questions);
 
     // Validate if lessons from coveredLessonIds is owned by current user teacher
     if (coveredLessonIds?.length) {
@@ -1180,6 +2437,202 @@ export class ExamService {
     }
   }
 
+  // Check if question bank items are owned by current teacher user, and
+  // get the lowest points questions that could be drawn from each pool
+  async validateExamQuestionPools(
+    questionPools: ExamQuestionPoolUpsertDto[],
+    exam: Exam,
+    teacherId: number,
+  ): Promise<Pick<ExamQuestion, 'points'>[]> {
+    if (!questionPools?.length) {
+      return [];
+    }
+
+    const itemIds = [
+      ...new Set(questionPools.flatMap((pool) => pool.questionBankItemIds)),
+    ];
+
+    const items = await this.questionBankService.getItemsByIdsAndTeacherId(
+      itemIds,
+      teacherId,
+    );
+
+    if (items.length !== itemIds.length) {
+      throw new BadRequestException('Question pool is invalid');
+    }
+
+    return questionPools.flatMap(({ drawCount, questionBankItemIds }) => {
+      const poolItems = items.filter((item) =>
+        questionBankItemIds.includes(item.id),
+      );
+
+      if (drawCount > poolItems.length) {
+        throw new BadRequestException(
+          'Question pool draw count is more than its questions',
+        );
+      }
+
+      return poolItems
+        .map((item) => ({ points: item.points ?? exam.pointsPerQuestion }))
+        .sort((itemA, itemB) => itemA.points - itemB.points)
+        .slice(0, drawCount);
+    });
+  }
+
+  validateExamQuestionsCount(
+    exam: Exam,
+    questions: Pick<ExamQuestion, 'points'>[],
+    poolQuestions: Pick<ExamQuestion, 'points'>[],
+  ) {
+    const questionsCount = questions.length + poolQuestions.length;
+
+    if (!questionsCount) {
+      throw new BadRequestException('Exam should have at least 1 question');
+    }
+
+    // Students should always be served the same number of questions
+    if (poolQuestions.length && questionsCount < exam.visibleQuestionsCount) {
+      throw new BadRequestException(
+        'Visible questions count is more than exam questions',
+      );
+    }
+  }
+
+  // Return questions with their section, for computing total points
+  validateExamSections(
+    sections: Pick<
+      ExamSection,
+      'orderNumber' | 'visibleQuestionsCount' | 'pointsPerQuestion'
+    >[] = [],
+    questions: (Pick<ExamQuestion, 'points'> & {
+      sectionOrderNumber?: number;
+    })[],
+  ) {
+    const orderNumbers = sections.map((section) => section.orderNumber);
+
+    if (new Set(orderNumbers).size !== orderNumbers.length) {
+      throw new BadRequestException('Section order number should be unique');
+    }
+
+    if (
+      questions.some(
+        (q) =>
+          q.sectionOrderNumber != null &&
+          !orderNumbers.includes(q.sectionOrderNumber),
+      )
+    ) {
+      throw new BadRequestException('Question section is invalid');
+    }
+
+    // Students should always be served the same number of section questions
+    sections.forEach((section) => {
+      const questionsCount = questions.filter(
+        (q) => q.sectionOrderNumber === section.orderNumber,
+      ).length;
+
+      if (questionsCount < section.visibleQuestionsCount) {
+        throw new BadRequestException(
+          'Visible questions count is more than section questions',
+        );
+      }
+    });
+
+    return questions.map(({ points, sectionOrderNumber }) => ({
+      points,
+      section: sections.find(
+        (section) => section.orderNumber === sectionOrderNumber,
+      ),
+    }));
+  }
+
+  validateExamLatePolicy(
+    exam: Pick<Exam, 'latePolicy' | 'lateGraceMinutes' | 'latePenaltyPercent'>,
+  ) {
+    const { latePolicy, lateGraceMinutes, latePenaltyPercent } = exam;
+
+    if (!latePolicy || latePolicy === ExamLatePolicy.Reject) {
+      return;
+    }
+
+    if (!lateGraceMinutes) {
+      throw new BadRequestException('Late grace minutes is required');
+    }
+
+    if (latePolicy === ExamLatePolicy.Penalty && !latePenaltyPercent) {
+      throw new BadRequestException('Late penalty percent is required');
+    }
+  }
+
+  validateExamReviewPolicy(exam: Pick<Exam, 'reviewPolicy' | 'reviewDate'>) {
+    if (exam.reviewPolicy === ExamReviewPolicy.FromDate && !exam.reviewDate) {
+      throw new BadRequestException('Review date is required');
+    }
+  }
+
+  validateExamQuestions(
+    questions: (ExamQuestionCreateDto | ExamQuestionUpdateDto)[],
+  ) {
+    questions.forEach((question) => {
+      switch (question.type) {
+        case ExamQuestionType.Numeric: {
+          if (question.typeNumeric?.answer == null) {
+            throw new BadRequestException(
+              'Numeric question should have an answer',
+            );
+          }
+          break;
+        }
+        case ExamQuestionType.FillBlank: {
+          if (!question.typeFillBlank?.acceptedAnswers?.length) {
+            throw new BadRequestException(
+              'Fill in the blank question should have at least 1 accepted answer',
+            );
+          }
+          break;
+        }
+        default: {
+          // Check if question has atleast one isCorrect choice
+          const hasCorrectChoice = question.choices?.some(
+            (choice) => choice.isCorrect,
+          );
+
+          if (!hasCorrectChoice) {
+            throw new BadRequestException(
+              'Question should have at least 1 correct choice',
+            );
+          }
+        }
+      }
+    });
+  }
+
+  // Students of an ended schedule without completion and not yet given a make-up schedule
+  async generateScheduleAbsentees(schedule: ExamSchedule) {
+    const currentDateTime = dayjs();
+
+    const completions = await this.examCompletionRepo.find({
+      where: { exam: { id: schedule.exam.id } },
+      relations: { student: true },
+    });
+
+    const makeUpSchedules =
+      await this.examScheduleService.getMakeUpsByOriginalScheduleId(
+        schedule.id,
+      );
+
+    return schedule.students.filter((student) => {
+      const { endDate } = getExamScheduleStudentWindow(schedule, student.id);
+
+      return (
+        dayjs(endDate).isSameOrBefore(currentDateTime) &&
+        !completions.some((com) => com.student.id === student.id) &&
+        !makeUpSchedules.some((s) =>
+          s.students.some((st) => st.id === student.id),
+        )
+      );
+    });
+  }
+
   async generateExamRankings(exam: Exam, teacherId: number) {
     const students = await this.userService.getStudentsByTeacherId(teacherId);
 
@@ -1191,23 +2644,22 @@ export class ExamService {
       order: { submittedAt: 'DESC' },
     });
 
-    // Assign completions
+    // Assign completions, latest attempt first, and score base on exam attempt scoring
     const studentData = studentIds.map((studentId) => {
-      const completion = completions.find(
-        (com) => com.student.id === studentId,
-      );
+      const studentCompletions = completions
+        .filter((com) => com.student.id === studentId)
+        .sort((comA, comB) => comB.attemptNumber - comA.attemptNumber);
+
       return {
         studentId,
-        completions: completion ? [completion] : [],
+        completions: studentCompletions,
+        score: getExamAttemptScore(studentCompletions, exam.attemptScoring),
       };
     });
 
     const completeStudentData = studentData
       .filter((data) => !!data.completions.length)
-      .sort(
-        (dataA, dataB) =>
-          dataB.completions[0].score - dataA.completions[0].score,
-      )
+      .sort((dataA, dataB) => dataB.score - dataA.score)
       .map((data, index) => ({ ...data, rank: index + 1 }));
 
     const incompleteStudentData = studentData
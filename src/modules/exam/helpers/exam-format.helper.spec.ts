@@ -0,0 +1,443 @@
+import { ExamQuestion } from '../entities/exam-question.entity';
+import {
+  ExamNumericToleranceType,
+  ExamQuestionFormat,
+  ExamQuestionType,
+} from '../enums/exam.enum';
+import {
+  generateExamFormatContent,
+  generateExamQuestionsFromFormatQuestions,
+  parseAikenQuestions,
+  parseExamFormatQuestions,
+  parseGiftQuestions,
+  parseQtiQuestions,
+} from './exam-format.helper';
+
+const singleChoiceQuestion = {
+  id: 1,
+  orderNumber: 1,
+  text: 'What is the chemical symbol of water?',
+  type: ExamQuestionType.SingleChoice,
+  points: 2,
+  choices: [
+    { id: 1, orderNumber: 1, text: 'H2O', isCorrect: true },
+    { id: 2, orderNumber: 2, text: 'CO2', isCorrect: false },
+    { id: 3, orderNumber: 3, text: 'NaCl', isCorrect: false },
+  ],
+} as ExamQuestion;
+
+const multipleSelectQuestion = {
+  id: 2,
+  orderNumber: 2,
+  text: 'Which are prime numbers?',
+  type: ExamQuestionType.MultipleSelect,
+  points: null,
+  choices: [
+    { id: 4, orderNumber: 1, text: '2', isCorrect: true },
+    { id: 5, orderNumber: 2, text: '4', isCorrect: false },
+    { id: 6, orderNumber: 3, text: '7', isCorrect: true },
+  ],
+} as ExamQuestion;
+
+const numericQuestion = {
+  id: 3,
+  orderNumber: 3,
+  text: 'What is the acceleration due to gravity in m/s^2?',
+  type: ExamQuestionType.Numeric,
+  points: null,
+  choices: [],
+  typeNumeric: {
+    answer: 9.8,
+    tolerance: 0.1,
+    toleranceType: ExamNumericToleranceType.Absolute,
+  },
+} as ExamQuestion;
+
+const fillBlankQuestion = {
+  id: 4,
+  orderNumber: 4,
+  text: 'Plants make food through',
+  type: ExamQuestionType.FillBlank,
+  points: null,
+  choices: [],
+  typeFillBlank: {
+    acceptedAnswers: ['photosynthesis', 'photo synthesis'],
+    caseSensitive: false,
+  },
+} as ExamQuestion;
+
+describe('parseAikenQuestions', () => {
+  it('should parse single choice questions', () => {
+    const content = [
+      'What is the chemical symbol of water?',
+      'A. H2O',
+      'B) CO2',
+      'ANSWER: A',
+      '',
+      'Which planet is closest',
+      'to the sun?',
+      'A. Venus',
+      'B. Mercury',
+      'ANSWER: b',
+    ].join('\n');
+
+    const { questions, errors } = parseAikenQuestions(content);
+
+    expect(errors).toEqual([]);
+    expect(questions).toEqual([
+      {
+        line: 1,
+        text: 'What is the chemical symbol of water?',
+        type: ExamQuestionType.SingleChoice,
+        choices: [
+          { text: 'H2O', isCorrect: true },
+          { text: 'CO2', isCorrect: false },
+        ],
+      },
+      {
+        line: 6,
+        text: 'Which planet is closest to the sun?',
+        type: ExamQuestionType.SingleChoice,
+        choices: [
+          { text: 'Venus', isCorrect: false },
+          { text: 'Mercury', isCorrect: true },
+        ],
+      },
+    ]);
+  });
+
+  it('should report invalid questions with line number', () => {
+    const content = [
+      'Question without answer',
+      'A. One',
+      'B. Two',
+      '',
+      'Question with unknown answer',
+      'A. One',
+      'B. Two',
+      'ANSWER: C',
+      '',
+      'Question with one choice',
+      'A. One',
+      'ANSWER: A',
+    ].join('\n');
+
+    const { questions, errors } = parseAikenQuestions(content);
+
+    expect(questions).toEqual([]);
+    expect(errors).toEqual([
+      { line: 1, message: 'Question has no answer' },
+      { line: 8, message: 'Answer C is not a choice' },
+      { line: 10, message: 'Question should have at least 2 choices' },
+    ]);
+  });
+});
+
+describe('parseGiftQuestions', () => {
+  it('should parse each question type', () => {
+    const content = [
+      '// Comments and categories are skipped',
+      '$CATEGORY: Science',
+      '',
+      '::Q1:: What is the chemical symbol of water? {=H2O ~%50%HO ~CO2}',
+      '',
+      'The sun is a star. {T}',
+      '',
+      'Which are prime numbers? {',
+      '~%50%2',
+      '~%-100%4',
+      '~%50%7',
+      '}',
+      '',
+      'Gravity in m/s^2? {#9.8:0.1}',
+      '',
+      'Plants make food through {=photosynthesis =photo synthesis}.',
+    ].join('\n');
+
+    const { questions, errors } = parseGiftQuestions(content);
+
+    expect(errors).toEqual([]);
+    expect(questions).toEqual([
+      {
+        line: 4,
+        text: 'What is the chemical symbol of water?',
+        type: ExamQuestionType.SingleChoice,
+        choices: [
+          { text: 'H2O', isCorrect: true },
+          { text: 'HO', isCorrect: false, creditWeight: 0.5 },
+          { text: 'CO2', isCorrect: false },
+        ],
+      },
+      {
+        line: 6,
+        text: 'The sun is a star.',
+        type: ExamQuestionType.SingleChoice,
+        choices: [
+          { text: 'True', isCorrect: true },
+          { text: 'False', isCorrect: false },
+        ],
+      },
+      {
+        line: 8,
+        text: 'Which are prime numbers?',
+        type: ExamQuestionType.MultipleSelect,
+        choices: [
+          { text: '2', isCorrect: true },
+          { text: '4', isCorrect: false },
+          { text: '7', isCorrect: true },
+        ],
+      },
+      {
+        line: 14,
+        text: 'Gravity in m/s^2?',
+        type: ExamQuestionType.Numeric,
+        choices: [],
+        numeric: {
+          answer: 9.8,
+          tolerance: 0.1,
+          toleranceType: ExamNumericToleranceType.Absolute,
+        },
+      },
+      {
+        line: 16,
+        text: 'Plants make food through _____ .',
+        type: ExamQuestionType.FillBlank,
+        choices: [],
+        fillBlank: {
+          acceptedAnswers: ['photosynthesis', 'photo synthesis'],
+          caseSensitive: false,
+        },
+      },
+    ]);
+  });
+
+  it('should parse numeric range and escaped characters', () => {
+    const { questions } = parseGiftQuestions(
+      'Pick a number between 1 and 3 \\{inclusive\\} {#1..3}',
+    );
+
+    expect(questions[0]).toMatchObject({
+      text: 'Pick a number between 1 and 3 {inclusive}',
+      numeric: { answer: 2, tolerance: 1 },
+    });
+  });
+
+  it('should report invalid questions with line number', () => {
+    const content = [
+      'Question without answer block',
+      '',
+      'Matching question {=cat -> meow =dog -> woof}',
+      '',
+      'Question with two correct choices {=A =B ~C}',
+    ].join('\n');
+
+    const { questions, errors } = parseGiftQuestions(content);
+
+    expect(questions).toEqual([]);
+    expect(errors).toEqual([
+      { line: 1, message: 'Question has no answer block' },
+      { line: 3, message: 'Matching questions are not supported' },
+      { line: 5, message: 'Question should have only 1 correct choice' },
+    ]);
+  });
+});
+
+describe('parseQtiQuestions', () => {
+  it('should parse choice and text entry items', () => {
+    const content = [
+      '<assessmentItem identifier="Q1">',
+      '<responseDeclaration identifier="RESPONSE" cardinality="single" baseType="identifier">',
+      '<correctResponse><value>B</value></correctResponse>',
+      '</responseDeclaration>',
+      '<outcomeDeclaration identifier="SCORE" cardinality="single" baseType="float" normalMaximum="3"/>',
+      '<itemBody>',
+      '<choiceInteraction responseIdentifier="RESPONSE" maxChoices="1">',
+      '<prompt>Which planet is closest to the sun?</prompt>',
+      '<simpleChoice identifier="A">Venus</simpleChoice>',
+      '<simpleChoice identifier="B">Mercury</simpleChoice>',
+      '</choiceInteraction>',
+      '</itemBody>',
+      '</assessmentItem>',
+      '<assessmentItem identifier="Q2">',
+      '<responseDeclaration identifier="RESPONSE" cardinality="single" baseType="float">',
+      '<correctResponse><value>100</value></correctResponse>',
+      '</responseDeclaration>',
+      '<itemBody><p>Boiling point of water in degrees Celsius? <textEntryInteraction responseIdentifier="RESPONSE"/></p></itemBody>',
+      '<responseProcessing><equal toleranceMode="relative" tolerance="5 5"/></responseProcessing>',
+      '</assessmentItem>',
+    ].join('\n');
+
+    const { questions, errors } = parseQtiQuestions(content);
+
+    expect(errors).toEqual([]);
+    expect(questions).toEqual([
+      {
+        line: 1,
+        text: 'Which planet is closest to the sun?',
+        type: ExamQuestionType.SingleChoice,
+        points: 3,
+        choices: [
+          { text: 'Venus', isCorrect: false },
+          { text: 'Mercury', isCorrect: true },
+        ],
+      },
+      {
+        line: 14,
+        text: 'Boiling point of water in degrees Celsius?',
+        type: ExamQuestionType.Numeric,
+        points: undefined,
+        choices: [],
+        numeric: {
+          answer: 100,
+          tolerance: 0.05,
+          toleranceType: ExamNumericToleranceType.Relative,
+        },
+      },
+    ]);
+  });
+
+  it('should report unsupported items with line number', () => {
+    const content = [
+      '<assessmentItem identifier="Q1">',
+      '<responseDeclaration identifier="RESPONSE" cardinality="single" baseType="identifier"/>',
+      '<itemBody><orderInteraction responseIdentifier="RESPONSE"/></itemBody>',
+      '</assessmentItem>',
+    ].join('\n');
+
+    expect(parseQtiQuestions(content)).toEqual({
+      questions: [],
+      errors: [{ line: 1, message: 'Interaction is not supported' }],
+    });
+  });
+});
+
+describe('parseExamFormatQuestions', () => {
+  it('should report content without questions', () => {
+    expect(
+      parseExamFormatQuestions(ExamQuestionFormat.Gift, '// none'),
+    ).toEqual({
+      questions: [],
+      errors: [{ line: 1, message: 'No questions found' }],
+    });
+  });
+});
+
+describe('generateExamFormatContent', () => {
+  // Parse exported content back into exam questions, without line numbers
+  const roundTrip = (format: ExamQuestionFormat, questions: ExamQuestion[]) => {
+    const { questions: formatQuestions, errors } = parseExamFormatQuestions(
+      format,
+      generateExamFormatContent(format, questions, 'Science & Math'),
+    );
+
+    expect(errors).toEqual([]);
+    return generateExamQuestionsFromFormatQuestions(formatQuestions);
+  };
+
+  const toChoices = (question: ExamQuestion) =>
+    question.choices.map(({ text, isCorrect }) => ({ text, isCorrect }));
+
+  it('should round trip single choice questions in Aiken', () => {
+    const [question] = roundTrip(ExamQuestionFormat.Aiken, [
+      singleChoiceQuestion,
+    ]);
+
+    expect(question).toMatchObject({
+      text: singleChoiceQuestion.text,
+      type: ExamQuestionType.SingleChoice,
+      choices: toChoices(singleChoiceQuestion),
+    });
+  });
+
+  it('should round trip every question type in GIFT', () => {
+    const questions = roundTrip(ExamQuestionFormat.Gift, [
+      fillBlankQuestion,
+      numericQuestion,
+      multipleSelectQuestion,
+      singleChoiceQuestion,
+    ]);
+
+    expect(questions).toMatchObject([
+      {
+        orderNumber: 1,
+        text: singleChoiceQuestion.text,
+        type: ExamQuestionType.SingleChoice,
+        choices: toChoices(singleChoiceQuestion),
+      },
+      {
+        orderNumber: 2,
+        text: multipleSelectQuestion.text,
+        type: ExamQuestionType.MultipleSelect,
+        choices: toChoices(multipleSelectQuestion),
+      },
+      {
+        orderNumber: 3,
+        text: numericQuestion.text,
+        type: ExamQuestionType.Numeric,
+        typeNumeric: numericQuestion.typeNumeric,
+      },
+      {
+        orderNumber: 4,
+        text: fillBlankQuestion.text,
+        type: ExamQuestionType.FillBlank,
+        typeFillBlank: fillBlankQuestion.typeFillBlank,
+      },
+    ]);
+  });
+
+  it('should round trip every question type and points in QTI', () => {
+    const relativeNumericQuestion = {
+      ...numericQuestion,
+      text: 'Speed of light in km/s <approximate>?',
+      typeNumeric: {
+        answer: 300000,
+        tolerance: 0.01,
+        toleranceType: ExamNumericToleranceType.Relative,
+      },
+    } as ExamQuestion;
+
+    const questions = roundTrip(ExamQuestionFormat.Qti, [
+      singleChoiceQuestion,
+      multipleSelectQuestion,
+      relativeNumericQuestion,
+      fillBlankQuestion,
+    ]);
+
+    expect(questions).toMatchObject([
+      {
+        text: singleChoiceQuestion.text,
+        type: ExamQuestionType.SingleChoice,
+        points: 2,
+        choices: toChoices(singleChoiceQuestion),
+      },
+      {
+        text: multipleSelectQuestion.text,
+        type: ExamQuestionType.MultipleSelect,
+        points: null,
+        choices: toChoices(multipleSelectQuestion),
+      },
+      {
+        text: relativeNumericQuestion.text,
+        type: ExamQuestionType.Numeric,
+        typeNumeric: relativeNumericQuestion.typeNumeric,
+      },
+      {
+        text: fillBlankQuestion.text,
+        type: ExamQuestionType.FillBlank,
+        typeFillBlank: fillBlankQuestion.typeFillBlank,
+      },
+    ]);
+  });
+
+  it('should export QTI as a single assessment test', () => {
+    const content = generateExamFormatContent(
+      ExamQuestionFormat.Qti,
+      [singleChoiceQuestion, numericQuestion],
+      'Science & Math',
+    );
+
+    expect(content.match(/<assessmentTest\b/g)).toHaveLength(1);
+    expect(content.match(/<assessmentItem\b/g)).toHaveLength(2);
+    expect(content).toContain('title="Science &amp; Math"');
+  });
+});
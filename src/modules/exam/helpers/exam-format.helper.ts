@@ -0,0 +1,876 @@
+import { DeepPartial } from 'typeorm';
+
+import { ExActTextType } from '#/common/enums/content.enum';
+import {
+  ExamMultipleSelectScoring,
+  ExamNumericToleranceType,
+  ExamQuestionFormat,
+  ExamQuestionType,
+} from '../enums/exam.enum';
+import {
+  ExamFormatError,
+  ExamFormatParseResult,
+  ExamFormatQuestion,
+} from '../models/exam.model';
+import { ExamQuestion } from '../entities/exam-question.entity';
+
+const AIKEN_CHOICE_REGEX = /^([A-Z])[.)]\s+(.+)$/;
+const AIKEN_ANSWER_REGEX = /^ANSWER:\s*([A-Z])\s*$/i;
+const GIFT_SPECIAL_CHARS = ['~', '=', '#', '{', '}', ':'];
+const QTI_NAMESPACE = 'http://www.imsglobal.org/xsd/imsqti_v2p1';
+const QTI_MATCH_CORRECT_TEMPLATE =
+  'http://www.imsglobal.org/question/qti_v2p1/rptemplates/match_correct';
+const QTI_MAP_RESPONSE_TEMPLATE =
+  'http://www.imsglobal.org/question/qti_v2p1/rptemplates/map_response';
+
+function getLineNumber(content: string, index: number) {
+  return content.slice(0, index).split('\n').length;
+}
+
+// AIKEN
+
+export function parseAikenQuestions(content: string): ExamFormatParseResult {
+  const questions: ExamFormatQuestion[] = [];
+  const errors: ExamFormatError[] = [];
+  let current: {
+    line: number;
+    text: string;
+    choices: { letter: string; text: string }[];
+  } = null;
+
+  content.split(/\r?\n/).forEach((rawLine, index) => {
+    const line = index + 1;
+    const text = rawLine.trim();
+
+    if (!text) {
+      return;
+    }
+
+    const answerMatch = text.match(AIKEN_ANSWER_REGEX);
+
+    if (answerMatch) {
+      const letter = answerMatch[1].toUpperCase();
+
+      if (!current) {
+        errors.push({ line, message: 'Answer has no question' });
+      } else if (current.choices.length < 2) {
+        errors.push({
+          line: current.line,
+          message: 'Question should have at least 2 choices',
+        });
+      } else if (!current.choices.some((c) => c.letter === letter)) {
+        errors.push({ line, message: `Answer ${letter} is not a choice` });
+      } else {
+        questions.push({
+          line: current.line,
+          text: current.text,
+          type: ExamQuestionType.SingleChoice,
+          choices: current.choices.map((c) => ({
+            text: c.text,
+            isCorrect: c.letter === letter,
+          })),
+        });
+      }
+
+      current = null;
+      return;
+    }
+
+    const choiceMatch = current ? text.match(AIKEN_CHOICE_REGEX) : null;
+
+    if (choiceMatch) {
+      current.choices.push({
+        letter: choiceMatch[1].toUpperCase(),
+        text: choiceMatch[2].trim(),
+      });
+      return;
+    }
+
+    // Question text can span multiple lines until the first choice
+    if (current && !current.choices.length) {
+      current.text = `${current.text} ${text}`;
+      return;
+    }
+
+    if (current) {
+      errors.push({ line: current.line, message: 'Question has no answer' });
+    }
+
+    current = { line, text, choices: [] };
+  });
+
+  if (current) {
+    errors.push({ line: current.line, message: 'Question has no answer' });
+  }
+
+  return { questions, errors };
+}
+
+export function generateAikenContent(questions: ExamQuestion[]) {
+  return questions
+    .map((question) => {
+      const choices = question.choices.map(
+        (choice, index) =>
+          `${String.fromCharCode(65 + index)}. ${choice.text.replace(
+            /\s+/g,
+            ' ',
+          )}`,
+      );
+      const answerIndex = question.choices.findIndex((c) => c.isCorrect);
+
+      return [
+        question.text.replace(/\s+/g, ' '),
+        ...choices,
+        `ANSWER: ${String.fromCharCode(65 + answerIndex)}`,
+      ].join('\n');
+    })
+    .join('\n\n');
+}
+
+// GIFT
+
+function findUnescaped(text: string, chars: string[], fromIndex = 0) {
+  for (let i = fromIndex; i < text.length; i++) {
+    if (text[i] === '\\') {
+      i++;
+    } else if (chars.includes(text[i])) {
+      return i;
+    }
+  }
+
+  return -1;
+}
+
+function unescapeGift(text: string) {
+  return text
+    .replace(/\\n/g, '\n')
+    .replace(/\\([~=#{}:\\])/g, '$1')
+    .trim();
+}
+
+function escapeGift(text: string) {
+  return [...text]
+    .map((char) =>
+      [...GIFT_SPECIAL_CHARS, '\\'].includes(char) ? `\\${char}` : char,
+    )
+    .join('');
+}
+
+// Remove answer feedback
+function stripGiftFeedback(text: string) {
+  const feedbackIndex = findUnescaped(text, ['#']);
+  return feedbackIndex === -1 ? text : text.slice(0, feedbackIndex);
+}
+
+function parseGiftNumericAnswer(answer: string) {
+  const [rawValue] = stripGiftFeedback(answer.replace(/^=/, '')).split(/[=~]/);
+  const value = rawValue.replace(/^%-?\d+(\.\d+)?%/, '').trim();
+
+  // Range format min..max
+  if (value.includes('..')) {
+    const [min, max] = value.split('..').map((v) => Number(v));
+    return { answer: (min + max) / 2, tolerance: Math.abs(max - min) / 2 };
+  }
+
+  const [answerValue, tolerance] = value.split(':').map((v) => Number(v));
+  return { answer: answerValue, tolerance: tolerance || 0 };
+}
+
+function parseGiftQuestion(
+  block: string,
+  line: number,
+): { question?: ExamFormatQuestion; error?: ExamFormatError } {
+  const text = block
+    .replace(/^::[\s\S]*?::/, '')
+    .replace(/^\s*\[(html|moodle|plain|markdown)\]/, '');
+  const openIndex = findUnescaped(text, ['{']);
+  const closeIndex =
+    openIndex === -1 ? -1 : findUnescaped(text, ['}'], openIndex);
+
+  if (openIndex === -1 || closeIndex === -1) {
+    return { error: { line, message: 'Question has no answer block' } };
+  }
+
+  const beforeText = unescapeGift(text.slice(0, openIndex));
+  const afterText = unescapeGift(text.slice(closeIndex + 1));
+  const questionText = afterText
+    ? `${beforeText} _____ ${afterText}`
+    : beforeText;
+  const answer = text.slice(openIndex + 1, closeIndex).trim();
+
+  if (!questionText) {
+    return { error: { line, message: 'Question text is empty' } };
+  }
+
+  const trueFalseMatch = stripGiftFeedback(answer)
+    .trim()
+    .match(/^(T|TRUE|F|FALSE)$/i);
+
+  if (trueFalseMatch) {
+    const isTrue = trueFalseMatch[1].toUpperCase().startsWith('T');
+
+    return {
+      question: {
+        line,
+        text: questionText,
+        type: ExamQuestionType.SingleChoice,
+        choices: [
+          { text: 'True', isCorrect: isTrue },
+          { text: 'False', isCorrect: !isTrue },
+        ],
+      },
+    };
+  }
+
+  if (answer.startsWith('#')) {
+    const { answer: numericAnswer, tolerance } = parseGiftNumericAnswer(
+      answer.slice(1).trim(),
+    );
+
+    if (Number.isNaN(numericAnswer) || Number.isNaN(tolerance)) {
+      return { error: { line, message: 'Numeric answer is invalid' } };
+    }
+
+    return {
+      question: {
+        line,
+        text: questionText,
+        type: ExamQuestionType.Numeric,
+        choices: [],
+        numeric: {
+          answer: numericAnswer,
+          tolerance,
+          toleranceType: ExamNumericToleranceType.Absolute,
+        },
+      },
+    };
+  }
+
+  // Split answer block into options, each starts with = (correct) or ~ (wrong or weighted)
+  const options: { marker: string; text: string; weight: number | null }[] = [];
+  let optionIndex = findUnescaped(answer, ['=', '~']);
+
+  while (optionIndex !== -1) {
+    const nextIndex = findUnescaped(answer, ['=', '~'], optionIndex + 1);
+    const rawOption = answer.slice(
+      optionIndex + 1,
+      nextIndex === -1 ? undefined : nextIndex,
+    );
+    const weightMatch = rawOption.match(/^\s*%(-?\d+(\.\d+)?)%/);
+
+    options.push({
+      marker: answer[optionIndex],
+      text: unescapeGift(
+        stripGiftFeedback(rawOption.replace(/^\s*%-?\d+(\.\d+)?%/, '')),
+      ),
+      weight: weightMatch ? Number(weightMatch[1]) : null,
+    });
+
+    optionIndex = nextIndex;
+  }
+
+  if (options.some((o) => o.text.includes('->'))) {
+    return {
+      error: { line, message: 'Matching questions are not supported' },
+    };
+  }
+
+  if (!options.length || options.some((o) => !o.text)) {
+    return { error: { line, message: 'Answer block is invalid' } };
+  }
+
+  // Short answer questions only have correct answers
+  if (options.every((o) => o.marker === '=')) {
+    return {
+      question: {
+        line,
+        text: questionText,
+        type: ExamQuestionType.FillBlank,
+        choices: [],
+        fillBlank: {
+          acceptedAnswers: options.map((o) => o.text),
+          caseSensitive: false,
+        },
+      },
+    };
+  }
+
+  if (options.length < 2) {
+    return {
+      error: { line, message: 'Question should have at least 2 choices' },
+    };
+  }
+
+  const correctOptions = options.filter((o) => o.marker === '=');
+
+  // Multiple select questions mark every correct choice with a positive weight
+  if (!correctOptions.length) {
+    if (!options.some((o) => o.weight > 0)) {
+      return {
+        error: { line, message: 'Question should have a correct choice' },
+      };
+    }
+
+    return {
+      question: {
+        line,
+        text: questionText,
+        type: ExamQuestionType.MultipleSelect,
+        choices: options.map((o) => ({
+          text: o.text,
+          isCorrect: o.weight > 0,
+        })),
+      },
+    };
+  }
+
+  if (correctOptions.length > 1) {
+    return {
+      error: { line, message: 'Question should have only 1 correct choice' },
+    };
+  }
+
+  return {
+    question: {
+      line,
+      text: questionText,
+      type: ExamQuestionType.SingleChoice,
+      choices: options.map((o) => ({
+        text: o.text,
+        isCorrect: o.marker === '=',
+        // Wrong choices with positive weight give partial credit
+        ...(o.marker === '~' &&
+          o.weight > 0 && { creditWeight: Math.min(o.weight, 100) / 100 }),
+      })),
+    },
+  };
+}
+
+export function parseGiftQuestions(content: string): ExamFormatParseResult {
+  const questions: ExamFormatQuestion[] = [];
+  const errors: ExamFormatError[] = [];
+  let block: { line: number; lines: string[] } = null;
+
+  const addBlock = () => {
+    if (!block) {
+      return;
+    }
+
+    const { question, error } = parseGiftQuestion(
+      block.lines.join('\n'),
+      block.line,
+    );
+
+    question ? questions.push(question) : errors.push(error);
+    block = null;
+  };
+
+  content.split(/\r?\n/).forEach((rawLine, index) => {
+    const text = rawLine.trim();
+
+    // Skip comments and categories
+    if (text.startsWith('//') || text.startsWith('$CATEGORY:')) {
+      return;
+    }
+
+    // Questions are separated by blank lines
+    if (!text) {
+      addBlock();
+      return;
+    }
+
+    if (!block) {
+      block = { line: index + 1, lines: [] };
+    }
+
+    block.lines.push(rawLine);
+  });
+
+  addBlock();
+
+  return { questions, errors };
+}
+
+export function generateGiftContent(questions: ExamQuestion[]) {
+  return questions
+    .map((question, index) => {
+      const title = `::Q${index + 1}::`;
+      const text = escapeGift(question.text);
+
+      switch (question.type) {
+        case ExamQuestionType.Numeric: {
+          const { answer, tolerance, toleranceType } = question.typeNumeric;
+          const absoluteTolerance =
+            toleranceType === ExamNumericToleranceType.Relative
+              ? Math.abs(answer) * tolerance
+              : tolerance;
+
+          return `${title} ${text} {#${answer}:${absoluteTolerance}}`;
+        }
+        case ExamQuestionType.FillBlank: {
+          const answers = question.typeFillBlank.acceptedAnswers
+            .map((a) => `=${escapeGift(a)}`)
+            .join(' ');
+
+          return `${title} ${text} {${answers}}`;
+        }
+        case ExamQuestionType.MultipleSelect: {
+          const correctCount = question.choices.filter(
+            (c) => c.isCorrect,
+          ).length;
+          const correctWeight = +(100 / correctCount).toFixed(5);
+          const choices = question.choices.map(
+            (c) =>
+              `~%${c.isCorrect ? correctWeight : -100}%${escapeGift(c.text)}`,
+          );
+
+          return `${title} ${text} {\n${choices.join('\n')}\n}`;
+        }
+        default: {
+          const choices = question.choices.map((c) => {
+            if (c.isCorrect) {
+              return `=${escapeGift(c.text)}`;
+            }
+
+            return c.creditWeight
+              ? `~%${+(c.creditWeight * 100).toFixed(5)}%${escapeGift(c.text)}`
+              : `~${escapeGift(c.text)}`;
+          });
+
+          return `${title} ${text} {\n${choices.join('\n')}\n}`;
+        }
+      }
+    })
+    .join('\n\n');
+}
+
+// QTI 2.1
+
+function decodeXml(text: string) {
+  return text
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, '$1')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+function encodeXml(text: string) {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function getXmlText(xml: string) {
+  return decodeXml(xml.replace(/<[^>]+>/g, ' '))
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function getXmlAttribute(attributes: string, name: string) {
+  const match = attributes.match(new RegExp(`\\b${name}\\s*=\\s*"([^"]*)"`));
+  return match ? decodeXml(match[1]) : null;
+}
+
+function getXmlElements(xml: string, tagName: string) {
+  const regex = new RegExp(
+    `<${tagName}\\b([^>]*?)(?:\\/>|>([\\s\\S]*?)<\\/${tagName}>)`,
+    'g',
+  );
+
+  return [...xml.matchAll(regex)].map((match) => ({
+    attributes: match[1] || '',
+    content: match[2] || '',
+  }));
+}
+
+function parseQtiItem(
+  item: string,
+  line: number,
+): { question?: ExamFormatQuestion; error?: ExamFormatError } {
+  const [responseDeclaration] = getXmlElements(item, 'responseDeclaration');
+  const [itemBody] = getXmlElements(item, 'itemBody');
+  const [choiceInteraction] = getXmlElements(item, 'choiceInteraction');
+  const [textEntryInteraction] = getXmlElements(item, 'textEntryInteraction');
+  const [scoreOutcome] = getXmlElements(item, 'outcomeDeclaration').filter(
+    (outcome) => getXmlAttribute(outcome.attributes, 'identifier') === 'SCORE',
+  );
+
+  if (!responseDeclaration || !itemBody) {
+    return { error: { line, message: 'Item has no response declaration' } };
+  }
+
+  const [correctResponse] = getXmlElements(
+    responseDeclaration.content,
+    'correctResponse',
+  );
+  const correctValues = correctResponse
+    ? getXmlElements(correctResponse.content, 'value').map((v) =>
+        getXmlText(v.content),
+      )
+    : [];
+  const normalMaximum = scoreOutcome
+    ? Number(getXmlAttribute(scoreOutcome.attributes, 'normalMaximum'))
+    : NaN;
+  const points = normalMaximum > 0 ? normalMaximum : undefined;
+
+  if (choiceInteraction) {
+    const [prompt] = getXmlElements(choiceInteraction.content, 'prompt');
+    const text = prompt
+      ? getXmlText(prompt.content)
+      : getXmlText(itemBody.content.replace(choiceInteraction.content, ''));
+    const isMultiple =
+      getXmlAttribute(responseDeclaration.attributes, 'cardinality') ===
+      'multiple';
+    const choices = getXmlElements(
+      choiceInteraction.content,
+      'simpleChoice',
+    ).map((choice) => ({
+      text: getXmlText(choice.content),
+      isCorrect: correctValues.includes(
+        getXmlAttribute(choice.attributes, 'identifier'),
+      ),
+    }));
+    const correctCount = choices.filter((c) => c.isCorrect).length;
+
+    if (!text) {
+      return { error: { line, message: 'Question text is empty' } };
+    } else if (choices.length < 2) {
+      return {
+        error: { line, message: 'Question should have at least 2 choices' },
+      };
+    } else if (!correctCount) {
+      return {
+        error: { line, message: 'Question should have a correct choice' },
+      };
+    } else if (!isMultiple && correctCount > 1) {
+      return {
+        error: { line, message: 'Question should have only 1 correct choice' },
+      };
+    }
+
+    return {
+      question: {
+        line,
+        text,
+        type: isMultiple
+          ? ExamQuestionType.MultipleSelect
+          : ExamQuestionType.SingleChoice,
+        points,
+        choices,
+      },
+    };
+  }
+
+  if (textEntryInteraction) {
+    // Interaction at the end of the text is not a blank, same as GIFT
+    const text = getXmlText(
+      itemBody.content.replace(/<textEntryInteraction\b[^>]*\/>/g, ' _____ '),
+    ).replace(/\s*_____$/, '');
+    const baseType = getXmlAttribute(
+      responseDeclaration.attributes,
+      'baseType',
+    );
+
+    if (!text) {
+      return { error: { line, message: 'Question text is empty' } };
+    }
+
+    if (baseType === 'float' || baseType === 'integer') {
+      const answer = Number(correctValues[0]);
+      const [equal] = getXmlElements(item, 'equal');
+      const toleranceMode = equal
+        ? getXmlAttribute(equal.attributes, 'toleranceMode')
+        : null;
+      const tolerance = equal
+        ? Number(
+            (getXmlAttribute(equal.attributes, 'tolerance') || '0').split(
+              /\s+/,
+            )[0],
+          )
+        : 0;
+
+      if (!correctValues.length || Number.isNaN(answer)) {
+        return { error: { line, message: 'Numeric answer is invalid' } };
+      }
+
+      return {
+        question: {
+          line,
+          text,
+          type: ExamQuestionType.Numeric,
+          points,
+          choices: [],
+          numeric: {
+            answer,
+            // Relative tolerance of QTI is in percent
+            tolerance:
+              toleranceMode === 'relative' ? tolerance / 100 : tolerance || 0,
+            toleranceType:
+              toleranceMode === 'relative'
+                ? ExamNumericToleranceType.Relative
+                : ExamNumericToleranceType.Absolute,
+          },
+        },
+      };
+    }
+
+    const mapEntries = getXmlElements(responseDeclaration.content, 'mapEntry');
+    const acceptedAnswers = [
+      ...new Set([
+        ...correctValues,
+        ...mapEntries
+          .filter(
+            (entry) =>
+              Number(getXmlAttribute(entry.attributes, 'mappedValue')) > 0,
+          )
+          .map((entry) => getXmlAttribute(entry.attributes, 'mapKey')),
+      ]),
+    ].filter((answer) => !!answer);
+
+    if (!acceptedAnswers.length) {
+      return { error: { line, message: 'Question has no correct answer' } };
+    }
+
+    return {
+      question: {
+        line,
+        text,
+        type: ExamQuestionType.FillBlank,
+        points,
+        choices: [],
+        fillBlank: {
+          acceptedAnswers,
+          caseSensitive: mapEntries.some(
+            (entry) =>
+              getXmlAttribute(entry.attributes, 'caseSensitive') === 'true',
+          ),
+        },
+      },
+    };
+  }
+
+  return { error: { line, message: 'Interaction is not supported' } };
+}
+
+// Content can be an assessment test or one or more assessment items
+export function parseQtiQuestions(content: string): ExamFormatParseResult {
+  const questions: ExamFormatQuestion[] = [];
+  const errors: ExamFormatError[] = [];
+  const items = [
+    ...content.matchAll(/<assessmentItem\b[\s\S]*?<\/assessmentItem>/g),
+  ];
+
+  items.forEach((match) => {
+    const { question, error } = parseQtiItem(
+      match[0],
+      getLineNumber(content, match.index),
+    );
+
+    question ? questions.push(question) : errors.push(error);
+  });
+
+  return { questions, errors };
+}
+
+function generateQtiItem(question: ExamQuestion, index: number) {
+  const identifier = `Q${index + 1}`;
+  const text = encodeXml(question.text);
+  const scoreOutcome =
+    question.points != null
+      ? `<outcomeDeclaration identifier="SCORE" cardinality="single" baseType="float" normalMaximum="${question.points}"/>`
+      : '<outcomeDeclaration identifier="SCORE" cardinality="single" baseType="float"/>';
+  let responseDeclaration: string;
+  let itemBody: string;
+  let responseProcessing = `<responseProcessing template="${QTI_MATCH_CORRECT_TEMPLATE}"/>`;
+
+  switch (question.type) {
+    case ExamQuestionType.Numeric: {
+      const { answer, tolerance, toleranceType } = question.typeNumeric;
+      const isRelative = toleranceType === ExamNumericToleranceType.Relative;
+      // Relative tolerance of QTI is in percent
+      const qtiTolerance = isRelative ? tolerance * 100 : tolerance;
+
+      responseDeclaration = [
+        '<responseDeclaration identifier="RESPONSE" cardinality="single" baseType="float">',
+        `<correctResponse><value>${answer}</value></correctResponse>`,
+        '</responseDeclaration>',
+      ].join('\n');
+      itemBody = `<p>${text} <textEntryInteraction responseIdentifier="RESPONSE"/></p>`;
+      responseProcessing = [
+        '<responseProcessing>',
+        '<responseCondition>',
+        '<responseIf>',
+        `<equal toleranceMode="${
+          isRelative ? 'relative' : 'absolute'
+        }" tolerance="${qtiTolerance} ${qtiTolerance}">`,
+        '<variable identifier="RESPONSE"/>',
+        '<correct identifier="RESPONSE"/>',
+        '</equal>',
+        '<setOutcomeValue identifier="SCORE"><baseValue baseType="float">1</baseValue></setOutcomeValue>',
+        '</responseIf>',
+        '</responseCondition>',
+        '</responseProcessing>',
+      ].join('\n');
+      break;
+    }
+    case ExamQuestionType.FillBlank: {
+      const { acceptedAnswers, caseSensitive } = question.typeFillBlank;
+      const values = acceptedAnswers
+        .map((a) => `<value>${encodeXml(a)}</value>`)
+        .join('');
+      const mapEntries = acceptedAnswers
+        .map(
+          (a) =>
+            `<mapEntry mapKey="${encodeXml(
+              a,
+            )}" mappedValue="1" caseSensitive="${!!caseSensitive}"/>`,
+        )
+        .join('\n');
+
+      responseDeclaration = [
+        '<responseDeclaration identifier="RESPONSE" cardinality="single" baseType="string">',
+        `<correctResponse>${values}</correctResponse>`,
+        `<mapping defaultValue="0">\n${mapEntries}\n</mapping>`,
+        '</responseDeclaration>',
+      ].join('\n');
+      itemBody = `<p>${text} <textEntryInteraction responseIdentifier="RESPONSE"/></p>`;
+      responseProcessing = `<responseProcessing template="${QTI_MAP_RESPONSE_TEMPLATE}"/>`;
+      break;
+    }
+    default: {
+      const isMultiple = question.type === ExamQuestionType.MultipleSelect;
+      const values = question.choices
+        .map((c, i) => (c.isCorrect ? `<value>C${i + 1}</value>` : ''))
+        .join('');
+      const choices = question.choices
+        .map(
+          (c, i) =>
+            `<simpleChoice identifier="C${i + 1}">${encodeXml(
+              c.text,
+            )}</simpleChoice>`,
+        )
+        .join('\n');
+
+      responseDeclaration = [
+        `<responseDeclaration identifier="RESPONSE" cardinality="${
+          isMultiple ? 'multiple' : 'single'
+        }" baseType="identifier">`,
+        `<correctResponse>${values}</correctResponse>`,
+        '</responseDeclaration>',
+      ].join('\n');
+      itemBody = [
+        `<choiceInteraction responseIdentifier="RESPONSE" shuffle="false" maxChoices="${
+          isMultiple ? 0 : 1
+        }">`,
+        `<prompt>${text}</prompt>`,
+        choices,
+        '</choiceInteraction>',
+      ].join('\n');
+    }
+  }
+
+  return [
+    `<assessmentItem identifier="${identifier}" title="Question ${
+      index + 1
+    }" adaptive="false" timeDependent="false">`,
+    responseDeclaration,
+    scoreOutcome,
+    `<itemBody>\n${itemBody}\n</itemBody>`,
+    responseProcessing,
+    '</assessmentItem>',
+  ].join('\n');
+}
+
+// Single assessment test document, with one assessment item per question
+export function generateQtiContent(questions: ExamQuestion[], title: string) {
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<assessmentTest xmlns="${QTI_NAMESPACE}" identifier="EXAM" title="${encodeXml(
+      title,
+    )}">`,
+    '<testPart identifier="P1" navigationMode="linear" submissionMode="individual">',
+    '<assessmentSection identifier="S1" title="Questions" visible="true">',
+    questions.map(generateQtiItem).join('\n'),
+    '</assessmentSection>',
+    '</testPart>',
+    '</assessmentTest>',
+  ].join('\n');
+}
+
+// MISC
+
+export function parseExamFormatQuestions(
+  format: ExamQuestionFormat,
+  content: string,
+): ExamFormatParseResult {
+  const result =
+    format === ExamQuestionFormat.Aiken
+      ? parseAikenQuestions(content)
+      : format === ExamQuestionFormat.Gift
+        ? parseGiftQuestions(content)
+        : parseQtiQuestions(content);
+
+  if (!result.questions.length && !result.errors.length) {
+    return {
+      questions: [],
+      errors: [{ line: 1, message: 'No questions found' }],
+    };
+  }
+
+  return result;
+}
+
+export function generateExamFormatContent(
+  format: ExamQuestionFormat,
+  questions: ExamQuestion[],
+  title = 'Exam',
+) {
+  const sortedQuestions = [...questions]
+    .sort((qA, qB) => qA.orderNumber - qB.orderNumber)
+    .map((question) => ({
+      ...question,
+      choices: [...(question.choices || [])].sort(
+        (cA, cB) => cA.orderNumber - cB.orderNumber,
+      ),
+    }));
+
+  if (format === ExamQuestionFormat.Aiken) {
+    return generateAikenContent(sortedQuestions);
+  } else if (format === ExamQuestionFormat.Gift) {
+    return generateGiftContent(sortedQuestions);
+  }
+
+  return generateQtiContent(sortedQuestions, title);
+}
+
+export function generateExamQuestionsFromFormatQuestions(
+  questions: ExamFormatQuestion[],
+): DeepPartial<ExamQuestion>[] {
+  return questions.map(
+    ({ text, type, points, choices, numeric, fillBlank }, index) => ({
+      orderNumber: index + 1,
+      text,
+      textType: ExActTextType.Text,
+      type,
+      points: points ?? null,
+      choices: choices.map((choice, choiceIndex) => ({
+        orderNumber: choiceIndex + 1,
+        text: choice.text,
+        textType: ExActTextType.Text,
+        isCorrect: choice.isCorrect,
+        creditWeight: choice.creditWeight ?? null,
+      })),
+      typeNumeric: numeric || null,
+      typeMultipleSelect:
+        type === ExamQuestionType.MultipleSelect
+          ? { scoring: ExamMultipleSelectScoring.AllOrNothing }
+          : null,
+      typeFillBlank: fillBlank || null,
+    }),
+  );
+}
@@ -0,0 +1,767 @@
+import dayjs from '#/common/configs/dayjs.config';
+import { Exam } from '../entities/exam.entity';
+import { ExamCompletion } from '../entities/exam-completion.entity';
+import { ExamQuestion } from '../entities/exam-question.entity';
+import { ExamQuestionChoice } from '../entities/exam-question-choice.entity';
+import { ExamQuestionPool } from '../entities/exam-question-pool.entity';
+import { ExamSchedule } from '../entities/exam-schedule.entity';
+import { ExamSection } from '../entities/exam-section.entity';
+import {
+  ExamLatePolicy,
+  ExamMultipleSelectScoring,
+  ExamNumericToleranceType,
+  ExamQuestionType,
+} from '../enums/exam.enum';
+import {
+  generateExamDelivery,
+  generateExamItemAnalyses,
+  getExamAnswersScore,
+  getExamQuestionPoolLowestPointsQuestions,
+  getExamRoomEndDate,
+  getExamStudentEndDate,
+  getExamSubmissionLateness,
+  getExamTotalPoints,
+  gradeExamQuestionAnswer,
+} from './exam.helper';
+
+function createChoice(
+  id: number,
+  isCorrect = false,
+  creditWeight: number = null,
+): ExamQuestionChoice {
+  return { id, orderNumber: id, isCorrect, creditWeight } as ExamQuestionChoice;
+}
+
+function createQuestion(
+  id: number,
+  question: Partial<ExamQuestion> = {},
+): ExamQuestion {
+  return {
+    id,
+    orderNumber: id,
+    type: ExamQuestionType.SingleChoice,
+    points: null,
+    choices: [],
+    ...question,
+  } as ExamQuestion;
+}
+
+function createExam(exam: Partial<Exam> = {}): Exam {
+  return {
+    id: 1,
+    pointsPerQuestion: 1,
+    visibleQuestionsCount: null,
+    negativeMarking: false,
+    negativeMarkingRatio: 0,
+    randomizeQuestions: false,
+    randomizeChoices: false,
+    questions: [],
+    questionPools: [],
+    sections: [],
+    ...exam,
+  } as Exam;
+}
+
+function createSection(
+  orderNumber: number,
+  section: Partial<ExamSection> = {},
+): ExamSection {
+  return {
+    id: orderNumber,
+    orderNumber,
+    visibleQuestionsCount: null,
+    pointsPerQuestion: null,
+    randomizeQuestions: false,
+    ...section,
+  } as ExamSection;
+}
+
+describe('gradeExamQuestionAnswer', () => {
+  describe('numeric question', () => {
+    const createNumericQuestion = (
+      tolerance: number,
+      toleranceType: ExamNumericToleranceType,
+    ) =>
+      createQuestion(1, {
+        type: ExamQuestionType.Numeric,
+        typeNumeric: { answer: 9.8, tolerance, toleranceType },
+      } as Partial<ExamQuestion>);
+
+    it('should accept answer within absolute tolerance', () => {
+      const question = createNumericQuestion(
+        0.1,
+        ExamNumericToleranceType.Absolute,
+      );
+
+      expect(
+        gradeExamQuestionAnswer(question, {
+          questionId: 1,
+          numericAnswer: 9.9,
+        }),
+      ).toBe(1);
+      expect(
+        gradeExamQuestionAnswer(question, {
+          questionId: 1,
+          numericAnswer: 9.7,
+        }),
+      ).toBe(1);
+      expect(
+        gradeExamQuestionAnswer(question, { questionId: 1, numericAnswer: 10 }),
+      ).toBe(0);
+    });
+
+    it('should accept answer within relative tolerance', () => {
+      // 5% of 9.8 is 0.49
+      const question = createNumericQuestion(
+        0.05,
+        ExamNumericToleranceType.Relative,
+      );
+
+      expect(
+        gradeExamQuestionAnswer(question, {
+          questionId: 1,
+          numericAnswer: 10.25,
+        }),
+      ).toBe(1);
+      expect(
+        gradeExamQuestionAnswer(question, {
+          questionId: 1,
+          numericAnswer: 10.3,
+        }),
+      ).toBe(0);
+    });
+
+    it('should only accept exact answer without tolerance', () => {
+      const question = createNumericQuestion(
+        0,
+        ExamNumericToleranceType.Absolute,
+      );
+
+      expect(
+        gradeExamQuestionAnswer(question, {
+          questionId: 1,
+          numericAnswer: 9.8,
+        }),
+      ).toBe(1);
+      expect(
+        gradeExamQuestionAnswer(question, {
+          questionId: 1,
+          numericAnswer: 9.81,
+        }),
+      ).toBe(0);
+    });
+
+    it('should give no credit to missing answer', () => {
+      const question = createNumericQuestion(
+        1,
+        ExamNumericToleranceType.Absolute,
+      );
+
+      expect(gradeExamQuestionAnswer(question, { questionId: 1 })).toBe(0);
+    });
+  });
+
+  describe('multiple-select question', () => {
+    const createMultipleSelectQuestion = (scoring: ExamMultipleSelectScoring) =>
+      createQuestion(1, {
+        type: ExamQuestionType.MultipleSelect,
+        choices: [
+          createChoice(1, true),
+          createChoice(2, true),
+          createChoice(3),
+          createChoice(4),
+        ],
+        typeMultipleSelect: { scoring },
+      } as Partial<ExamQuestion>);
+
+    it('should only give credit to all correct choices if all or nothing', () => {
+      const question = createMultipleSelectQuestion(
+        ExamMultipleSelectScoring.AllOrNothing,
+      );
+
+      expect(
+        gradeExamQuestionAnswer(question, {
+          questionId: 1,
+          selectedChoiceIds: [1, 2],
+        }),
+      ).toBe(1);
+      expect(
+        gradeExamQuestionAnswer(question, {
+          questionId: 1,
+          selectedChoiceIds: [1],
+        }),
+      ).toBe(0);
+      expect(
+        gradeExamQuestionAnswer(question, {
+          questionId: 1,
+          selectedChoiceIds: [1, 2, 3],
+        }),
+      ).toBe(0);
+    });
+
+    it('should cancel out correct choices with wrong choices if partial', () => {
+      const question = createMultipleSelectQuestion(
+        ExamMultipleSelectScoring.Partial,
+      );
+
+      expect(
+        gradeExamQuestionAnswer(question, {
+          questionId: 1,
+          selectedChoiceIds: [1],
+        }),
+      ).toBe(0.5);
+      expect(
+        gradeExamQuestionAnswer(question, {
+          questionId: 1,
+          selectedChoiceIds: [1, 2, 3],
+        }),
+      ).toBe(0.5);
+      expect(
+        gradeExamQuestionAnswer(question, {
+          questionId: 1,
+          selectedChoiceIds: [1, 3, 4],
+        }),
+      ).toBe(0);
+    });
+
+    it('should give no credit to no selected choices', () => {
+      const question = createMultipleSelectQuestion(
+        ExamMultipleSelectScoring.Partial,
+      );
+
+      expect(
+        gradeExamQuestionAnswer(question, {
+          questionId: 1,
+          selectedChoiceIds: [],
+        }),
+      ).toBe(0);
+    });
+  });
+
+  describe('fill-blank question', () => {
+    const createFillBlankQuestion = (caseSensitive: boolean) =>
+      createQuestion(1, {
+        type: ExamQuestionType.FillBlank,
+        typeFillBlank: {
+          acceptedAnswers: ['Photosynthesis', 'photo synthesis'],
+          caseSensitive,
+        },
+      } as Partial<ExamQuestion>);
+
+    it('should ignore case and extra whitespace if not case sensitive', () => {
+      const question = createFillBlankQuestion(false);
+
+      expect(
+        gradeExamQuestionAnswer(question, {
+          questionId: 1,
+          textAnswer: '  PHOTOSYNTHESIS ',
+        }),
+      ).toBe(1);
+      expect(
+        gradeExamQuestionAnswer(question, {
+          questionId: 1,
+          textAnswer: 'Photo   Synthesis',
+        }),
+      ).toBe(1);
+      expect(
+        gradeExamQuestionAnswer(question, {
+          questionId: 1,
+          textAnswer: 'Respiration',
+        }),
+      ).toBe(0);
+    });
+
+    it('should match case if case sensitive', () => {
+      const question = createFillBlankQuestion(true);
+
+      expect(
+        gradeExamQuestionAnswer(question, {
+          questionId: 1,
+          textAnswer: 'Photosynthesis',
+        }),
+      ).toBe(1);
+      expect(
+        gradeExamQuestionAnswer(question, {
+          questionId: 1,
+          textAnswer: 'photosynthesis',
+        }),
+      ).toBe(0);
+    });
+
+    it('should give no credit to blank answer', () => {
+      const question = createFillBlankQuestion(false);
+
+      expect(
+        gradeExamQuestionAnswer(question, { questionId: 1, textAnswer: '  ' }),
+      ).toBe(0);
+    });
+  });
+});
+
+describe('getExamAnswersScore', () => {
+  const questions = [
+    createQuestion(1, {
+      points: 2,
+      choices: [createChoice(1, true), createChoice(2, false, 0.5)],
+    }),
+    createQuestion(2, {
+      choices: [createChoice(3, true), createChoice(4)],
+    }),
+    createQuestion(3, {
+      points: 3,
+      choices: [createChoice(5, true), createChoice(6)],
+    }),
+  ];
+
+  it('should use question points or exam points per question', () => {
+    const exam = createExam({ pointsPerQuestion: 1.5 });
+
+    expect(
+      getExamAnswersScore(exam, questions, [
+        { questionId: 1, selectedChoiceId: 1 },
+        { questionId: 2, selectedChoiceId: 3 },
+        { questionId: 3, selectedChoiceId: 6 },
+      ]),
+    ).toBe(3.5);
+  });
+
+  it('should give partial credit to incorrect choice with credit weight', () => {
+    const exam = createExam();
+
+    expect(
+      getExamAnswersScore(exam, questions, [
+        { questionId: 1, selectedChoiceId: 2 },
+      ]),
+    ).toBe(1);
+  });
+
+  it('should deduct points of wrong answers if negative marking', () => {
+    const exam = createExam({
+      negativeMarking: true,
+      negativeMarkingRatio: 0.25,
+    });
+
+    expect(
+      getExamAnswersScore(exam, questions, [
+        { questionId: 1, selectedChoiceId: 1 },
+        { questionId: 2, selectedChoiceId: 4 },
+        { questionId: 3, selectedChoiceId: 6 },
+      ]),
+    ).toBe(1);
+  });
+
+  it('should not deduct points of skipped questions or partially correct answers', () => {
+    const exam = createExam({
+      negativeMarking: true,
+      negativeMarkingRatio: 1,
+    });
+
+    expect(
+      getExamAnswersScore(exam, questions, [
+        { questionId: 1, selectedChoiceId: 2 },
+        { questionId: 2 },
+      ]),
+    ).toBe(1);
+  });
+
+  it('should not go below zero', () => {
+    const exam = createExam({
+      negativeMarking: true,
+      negativeMarkingRatio: 1,
+    });
+
+    expect(
+      getExamAnswersScore(exam, questions, [
+        { questionId: 3, selectedChoiceId: 6 },
+      ]),
+    ).toBe(0);
+  });
+
+  it('should replace computed points with points overrides', () => {
+    const exam = createExam();
+
+    expect(
+      getExamAnswersScore(
+        exam,
+        questions,
+        [
+          { questionId: 1, selectedChoiceId: 1 },
+          { questionId: 3, selectedChoiceId: 6 },
+        ],
+        { 3: 1.5 },
+      ),
+    ).toBe(3.5);
+  });
+});
+
+describe('getExamTotalPoints', () => {
+  it('should sum question points with exam and section points as fallback', () => {
+    const exam = createExam({ pointsPerQuestion: 2 });
+    const section = createSection(1, { pointsPerQuestion: 3 });
+
+    expect(
+      getExamTotalPoints(exam, [
+        createQuestion(1, { points: 5 }),
+        createQuestion(2),
+        createQuestion(3, { section }),
+        createQuestion(4, { points: 1, section }),
+      ]),
+    ).toBe(11);
+  });
+
+  it('should only sum the lowest points of visible questions', () => {
+    const exam = createExam({ visibleQuestionsCount: 2 });
+    const section = createSection(1, { visibleQuestionsCount: 1 });
+
+    expect(
+      getExamTotalPoints(exam, [
+        createQuestion(1, { points: 4 }),
+        createQuestion(2, { points: 2 }),
+        createQuestion(3, { points: 3 }),
+        createQuestion(4, { points: 5, section }),
+        createQuestion(5, { points: 1.5, section }),
+      ]),
+    ).toBe(6.5);
+  });
+
+  it('should sum all questions if visible count is more than questions', () => {
+    const exam = createExam({ visibleQuestionsCount: 5 });
+
+    expect(
+      getExamTotalPoints(exam, [
+        createQuestion(1, { points: 4 }),
+        createQuestion(2, { points: 2 }),
+      ]),
+    ).toBe(6);
+  });
+});
+
+describe('getExamQuestionPoolLowestPointsQuestions', () => {
+  it('should pick the draw count of questions with the lowest points', () => {
+    const exam = createExam({ pointsPerQuestion: 2 });
+    const questions = [
+      createQuestion(1, { points: 5 }),
+      createQuestion(2),
+      createQuestion(3, { points: 1 }),
+      createQuestion(4, { points: 3 }),
+    ];
+
+    expect(
+      getExamQuestionPoolLowestPointsQuestions(exam, {
+        drawCount: 2,
+        questions,
+      }).map((q) => q.id),
+    ).toEqual([3, 2]);
+  });
+});
+
+describe('generateExamDelivery', () => {
+  const createChoiceQuestions = (fromId: number, count: number) =>
+    Array.from({ length: count }, (_, index) =>
+      createQuestion(fromId + index, {
+        choices: [1, 2, 3, 4].map((orderNumber) =>
+          createChoice((fromId + index) * 10 + orderNumber),
+        ),
+      }),
+    );
+
+  const exam = createExam({
+    randomizeQuestions: true,
+    randomizeChoices: true,
+    questions: createChoiceQuestions(1, 10),
+  });
+
+  it('should serve the same questions and choices for the same seed', () => {
+    expect(generateExamDelivery(exam, 'seed-a')).toEqual(
+      generateExamDelivery(exam, 'seed-a'),
+    );
+  });
+
+  it('should serve a different order for a different seed', () => {
+    const deliveryA = generateExamDelivery(exam, 'seed-a');
+    const deliveryB = generateExamDelivery(exam, 'seed-b');
+
+    expect(deliveryA.questionIds).not.toEqual(deliveryB.questionIds);
+    expect([...deliveryA.questionIds].sort((a, b) => a - b)).toEqual(
+      [...deliveryB.questionIds].sort((a, b) => a - b),
+    );
+  });
+
+  it('should keep question and choice order if not randomized', () => {
+    const orderedExam = createExam({ questions: createChoiceQuestions(1, 3) });
+
+    expect(generateExamDelivery(orderedExam, 'seed-a')).toEqual({
+      questionIds: [1, 2, 3],
+      choiceIds: {
+        1: [11, 12, 13, 14],
+        2: [21, 22, 23, 24],
+        3: [31, 32, 33, 34],
+      },
+    });
+  });
+
+  it('should only serve visible questions', () => {
+    const { questionIds } = generateExamDelivery(
+      { ...exam, visibleQuestionsCount: 4 } as Exam,
+      'seed-a',
+    );
+
+    expect(questionIds).toHaveLength(4);
+    expect(new Set(questionIds).size).toBe(4);
+  });
+
+  it('should serve section questions first and draw questions from pools', () => {
+    const section = createSection(1, { visibleQuestionsCount: 2 });
+    const sectionQuestions = createChoiceQuestions(1, 3).map((q) => ({
+      ...q,
+      section,
+    }));
+    const pool = {
+      id: 1,
+      drawCount: 2,
+      questions: createChoiceQuestions(11, 5),
+    } as ExamQuestionPool;
+
+    const { questionIds } = generateExamDelivery(
+      createExam({
+        questions: [...sectionQuestions, ...createChoiceQuestions(4, 2)],
+        questionPools: [pool],
+        sections: [section],
+      }),
+      'seed-a',
+    );
+
+    expect(questionIds).toHaveLength(6);
+    expect(questionIds.slice(0, 2).every((id) => id <= 3)).toBe(true);
+    expect(questionIds.slice(2, 4)).toEqual([4, 5]);
+    expect(questionIds.slice(4).every((id) => id >= 11)).toBe(true);
+  });
+
+  it('should not shuffle choices of non-choice questions', () => {
+    const numericQuestion = createQuestion(1, {
+      type: ExamQuestionType.Numeric,
+      choices: [createChoice(11), createChoice(12), createChoice(13)],
+    });
+
+    const { choiceIds } = generateExamDelivery(
+      createExam({ randomizeChoices: true, questions: [numericQuestion] }),
+      'seed-a',
+    );
+
+    expect(choiceIds[1]).toEqual([11, 12, 13]);
+  });
+});
+
+describe('getExamStudentEndDate', () => {
+  const schedule = {
+    startDate: dayjs('2026-01-05 08:00').toDate(),
+    endDate: dayjs('2026-01-05 10:00').toDate(),
+    accommodations: [
+      { student: { id: 2 }, extraMinutes: 30 },
+      {
+        student: { id: 3 },
+        startDate: dayjs('2026-01-06 08:00').toDate(),
+        durationMinutes: 60,
+      },
+    ],
+  } as ExamSchedule;
+
+  it('should use schedule end date', () => {
+    expect(getExamStudentEndDate(createExam(), schedule, 1)).toEqual(
+      schedule.endDate,
+    );
+  });
+
+  it('should apply student accommodation', () => {
+    expect(getExamStudentEndDate(createExam(), schedule, 2)).toEqual(
+      dayjs('2026-01-05 10:30').toDate(),
+    );
+    expect(getExamStudentEndDate(createExam(), schedule, 3)).toEqual(
+      dayjs('2026-01-06 09:00').toDate(),
+    );
+  });
+
+  it('should end after exam duration since student started', () => {
+    const exam = createExam({ durationMinutes: 45 });
+    const startedAt = dayjs('2026-01-05 08:30').toDate();
+
+    expect(getExamStudentEndDate(exam, schedule, 1, startedAt)).toEqual(
+      dayjs('2026-01-05 09:15').toDate(),
+    );
+    // Extra minutes of accommodation also extend the duration
+    expect(getExamStudentEndDate(exam, schedule, 2, startedAt)).toEqual(
+      dayjs('2026-01-05 09:45').toDate(),
+    );
+  });
+
+  it('should not end later than schedule end date', () => {
+    const exam = createExam({ durationMinutes: 45 });
+    const startedAt = dayjs('2026-01-05 09:30').toDate();
+
+    expect(getExamStudentEndDate(exam, schedule, 1, startedAt)).toEqual(
+      schedule.endDate,
+    );
+  });
+});
+
+describe('getExamRoomEndDate', () => {
+  const endDate = dayjs('2026-01-05 10:00').toDate();
+
+  it('should use room end date', () => {
+    expect(getExamRoomEndDate({ endDate, pausedAt: null })).toEqual(endDate);
+  });
+
+  it('should extend end date by the paused duration', () => {
+    expect(
+      getExamRoomEndDate(
+        { endDate, pausedAt: dayjs('2026-01-05 09:00').toDate() },
+        dayjs('2026-01-05 09:20'),
+      ),
+    ).toEqual(dayjs('2026-01-05 10:20').toDate());
+  });
+});
+
+describe('getExamSubmissionLateness', () => {
+  const endDate = dayjs('2026-01-05 10:00').toDate();
+
+  it('should accept submission until end date', () => {
+    const exam = createExam({ latePolicy: ExamLatePolicy.Reject });
+
+    expect(
+      getExamSubmissionLateness(exam, endDate, dayjs('2026-01-05 10:00')),
+    ).toEqual({ isClosed: false, isLate: false, latePenaltyPercent: null });
+  });
+
+  it('should close submission after end date if late policy is reject', () => {
+    const exam = createExam({
+      latePolicy: ExamLatePolicy.Reject,
+      lateGraceMinutes: 10,
+    });
+
+    expect(
+      getExamSubmissionLateness(exam, endDate, dayjs('2026-01-05 10:01')),
+    ).toEqual({ isClosed: true, isLate: true, latePenaltyPercent: null });
+  });
+
+  it('should accept late submission within grace minutes', () => {
+    const exam = createExam({
+      latePolicy: ExamLatePolicy.Grace,
+      lateGraceMinutes: 10,
+    });
+
+    expect(
+      getExamSubmissionLateness(exam, endDate, dayjs('2026-01-05 10:10')),
+    ).toEqual({ isClosed: false, isLate: true, latePenaltyPercent: null });
+    expect(
+      getExamSubmissionLateness(exam, endDate, dayjs('2026-01-05 10:11')),
+    ).toEqual({ isClosed: true, isLate: true, latePenaltyPercent: null });
+  });
+
+  it('should apply late penalty within grace minutes if late policy is penalty', () => {
+    const exam = createExam({
+      latePolicy: ExamLatePolicy.Penalty,
+      lateGraceMinutes: 10,
+      latePenaltyPercent: 20,
+    });
+
+    expect(
+      getExamSubmissionLateness(exam, endDate, dayjs('2026-01-05 10:05')),
+    ).toEqual({ isClosed: false, isLate: true, latePenaltyPercent: 20 });
+  });
+});
+
+describe('generateExamItemAnalyses', () => {
+  const question = createQuestion(1, {
+    text: 'Question 1',
+    choices: [createChoice(1, true), createChoice(2)],
+  });
+
+  const createCompletion = (
+    studentId: number,
+    score: number,
+    selectedChoiceId?: number,
+    attemptNumber = 1,
+  ) =>
+    ({
+      score,
+      attemptNumber,
+      servedQuestionIds: [],
+      student: { id: studentId },
+      questionAnswers: selectedChoiceId
+        ? [
+            {
+              question: { id: question.id },
+              selectedQuestionChoice: { id: selectedChoiceId },
+              selectedQuestionChoices: [],
+            },
+          ]
+        : [],
+    }) as ExamCompletion;
+
+  it('should compare upper and lower 27% of students', () => {
+    // 10 students, upper and lower groups have 3 students each
+    const completions = [
+      createCompletion(1, 10, 1),
+      createCompletion(2, 9, 1),
+      createCompletion(3, 8, 1),
+      createCompletion(4, 7, 2),
+      createCompletion(5, 6, 2),
+      createCompletion(6, 5, 1),
+      createCompletion(7, 4),
+      createCompletion(8, 3, 1),
+      createCompletion(9, 2, 2),
+      createCompletion(10, 1, 2),
+    ];
+
+    const [analysis] = generateExamItemAnalyses([question], completions);
+
+    expect(analysis).toMatchObject({
+      questionId: 1,
+      servedCount: 10,
+      correctCount: 5,
+      skippedCount: 1,
+      difficultyIndex: 50,
+      skipPercent: 10,
+      // Upper group 3/3 correct, lower group 1/3 correct
+      discriminationIndex: 0.67,
+    });
+    expect(
+      analysis.choices.map(({ choiceId, selectedCount }) => ({
+        choiceId,
+        selectedCount,
+      })),
+    ).toEqual([
+      { choiceId: 1, selectedCount: 5 },
+      { choiceId: 2, selectedCount: 4 },
+    ]);
+  });
+
+  it('should only analyze the latest attempt of each student', () => {
+    const completions = [
+      createCompletion(1, 0, 2, 1),
+      createCompletion(1, 1, 1, 2),
+      createCompletion(2, 0, 2),
+    ];
+
+    const [analysis] = generateExamItemAnalyses([question], completions);
+
+    expect(analysis).toMatchObject({
+      servedCount: 2,
+      correctCount: 1,
+      discriminationIndex: 1,
+    });
+  });
+
+  it('should not compute discrimination index with a single student', () => {
+    const [analysis] = generateExamItemAnalyses(
+      [question],
+      [createCompletion(1, 1, 1)],
+    );
+
+    expect(analysis).toMatchObject({
+      servedCount: 1,
+      difficultyIndex: 100,
+      discriminationIndex: null,
+    });
+  });
+});
@@ -0,0 +1,1185 @@
+import { BadRequestException } from '@nestjs/common';
+import { DeepPartial } from 'typeorm';
+
+import dayjs from '#/common/configs/dayjs.config';
+import { ExActTextType } from '#/common/enums/content.enum';
+import { generateFullName } from '#/common/helpers/string.helper';
+import { generateClonedImagePath } from '#/common/helpers/file.helper';
+import {
+  generateSeededRandom,
+  shuffleArray,
+} from '#/common/helpers/array.helper';
+import { QuestionBankItem } from '#/modules/question-bank/entities/question-bank-item.entity';
+import {
+  ExamAttemptScoring,
+  ExamIntegrityEventType,
+  ExamIntegrityFlag,
+  ExamLatePolicy,
+  ExamMultipleSelectScoring,
+  ExamNumericToleranceType,
+  ExamQuestionType,
+  ExamReviewPolicy,
+} from '../enums/exam.enum';
+import {
+  ExamAnswer,
+  ExamIntegrityTimeline,
+  ExamItemAnalysis,
+  ExamProctorRoom,
+  ExamVersionQuestion,
+} from '../models/exam.model';
+import { Exam } from '../entities/exam.entity';
+import { ExamQuestion } from '../entities/exam-question.entity';
+import { ExamQuestionChoice } from '../entities/exam-question-choice.entity';
+import { ExamQuestionPool } from '../entities/exam-question-pool.entity';
+import { ExamCompletion } from '../entities/exam-completion.entity';
+import { ExamCompletionQuestionAnswer } from '../entities/exam-completion-question-answer.entity';
+import { ExamDelivery } from '../entities/exam-delivery.entity';
+import { ExamSchedule } from '../entities/exam-schedule.entity';
+import { ExamIntegrityEvent } from '../entities/exam-integrity-event.entity';
+import { ExamRoom } from '../entities/exam-room.entity';
+import { ExamSection } from '../entities/exam-section.entity';
+import { ExamUpdateDto } from '../dtos/exam-update.dto';
+
+// Thresholds for flagging suspicious exam integrity patterns
+const INTEGRITY_FOCUS_LOSS_COUNT = 5;
+const INTEGRITY_FOCUS_LOSS_SECONDS = 60;
+const INTEGRITY_DISCONNECT_COUNT = 3;
+// Share of students in the upper and lower groups of the discrimination index
+const ITEM_ANALYSIS_GROUP_RATIO = 0.27;
+
+export function validateExamAttempt(exam: Exam, completions: ExamCompletion[]) {
+  if (completions.length >= exam.maxAttempts) {
+    return {
+      error: new BadRequestException('No remaining exam attempts'),
+    };
+  }
+
+  // Check if cooldown since the last attempt has passed
+  const lastSubmittedAt = completions.reduce(
+    (latest, com) =>
+      !latest || dayjs(com.submittedAt).isAfter(latest)
+        ? com.submittedAt
+        : latest,
+    null as Date | null,
+  );
+
+  if (
+    lastSubmittedAt &&
+    exam.attemptCooldownMinutes > 0 &&
+    dayjs(lastSubmittedAt)
+      .add(exam.attemptCooldownMinutes, 'minute')
+      .isAfter(dayjs())
+  ) {
+    return {
+      error: new BadRequestException('Exam retake is not yet available'),
+    };
+  }
+
+  return { error: null };
+}
+
+export function getNextExamAttemptNumber(completions: ExamCompletion[]) {
+  return (
+    completions.reduce((max, com) => Math.max(max, com.attemptNumber || 1), 0) +
+    1
+  );
+}
+
+// Get the student's exam score from all attempts base on exam attempt scoring
+export function getExamAttemptScore(
+  completions: ExamCompletion[],
+  attemptScoring: ExamAttemptScoring,
+): number | null {
+  if (!completions.length) {
+    return null;
+  }
+
+  if (attemptScoring === ExamAttemptScoring.Latest) {
+    const [latestCompletion] = [...completions].sort(
+      (comA, comB) => comB.attemptNumber - comA.attemptNumber,
+    );
+    return latestCompletion.score;
+  } else if (attemptScoring === ExamAttemptScoring.Average) {
+    const total = completions.reduce((total, com) => total + com.score, 0);
+    return +(total / completions.length).toFixed(2);
+  }
+
+  return Math.max(...completions.map((com) => com.score));
+}
+
+function normalizeTextAnswer(value: string, caseSensitive: boolean) {
+  const text = value.trim().replace(/\s+/g, ' ');
+  return caseSensitive ? text : text.toLowerCase();
+}
+
+// Grade answer base on question type, returns credit from 0 (wrong) to 1 (correct)
+export function gradeExamQuestionAnswer(
+  question: ExamQuestion,
+  answer: ExamAnswer,
+): number {
+  switch (question.type) {
+    case ExamQuestionType.MultipleSelect: {
+      const selectedChoiceIds = answer.selectedChoiceIds || [];
+      const correctChoices = question.choices.filter((c) => c.isCorrect);
+      const selectedChoices = question.choices.filter((c) =>
+        selectedChoiceIds.includes(c.id),
+      );
+
+      if (!selectedChoices.length || !correctChoices.length) {
+        return 0;
+      }
+
+      const selectedCorrectCount = selectedChoices.filter(
+        (c) => c.isCorrect,
+      ).length;
+      const selectedIncorrectCount =
+        selectedChoices.length - selectedCorrectCount;
+
+      // Each wrong selection cancels out a correct one
+      if (
+        question.typeMultipleSelect?.scoring ===
+        ExamMultipleSelectScoring.Partial
+      ) {
+        const credit =
+          (selectedCorrectCount - selectedIncorrectCount) /
+          correctChoices.length;
+        return Math.max(0, credit);
+      }
+
+      return selectedCorrectCount === correctChoices.length &&
+        !selectedIncorrectCount
+        ? 1
+        : 0;
+    }
+    case ExamQuestionType.Numeric: {
+      const { typeNumeric } = question;
+
+      if (answer.numericAnswer == null || !typeNumeric) {
+        return 0;
+      }
+
+      const tolerance =
+        typeNumeric.toleranceType === ExamNumericToleranceType.Relative
+          ? Math.abs(typeNumeric.answer) * typeNumeric.tolerance
+          : typeNumeric.tolerance;
+      const difference = Math.abs(answer.numericAnswer - typeNumeric.answer);
+
+      // Round off floating point error (e.g. 9.9 - 9.8) before comparing
+      return +(difference - tolerance).toFixed(10) <= 0 ? 1 : 0;
+    }
+    case ExamQuestionType.FillBlank: {
+      const { typeFillBlank } = question;
+
+      if (!answer.textAnswer?.trim() || !typeFillBlank) {
+        return 0;
+      }
+
+      const textAnswer = normalizeTextAnswer(
+        answer.textAnswer,
+        typeFillBlank.caseSensitive,
+      );
+
+      return typeFillBlank.acceptedAnswers.some(
+        (acceptedAnswer) =>
+          normalizeTextAnswer(acceptedAnswer, typeFillBlank.caseSensitive) ===
+          textAnswer,
+      )
+        ? 1
+        : 0;
+    }
+    default: {
+      const choice = question.choices.find(
+        (c) => c.id === answer.selectedChoiceId,
+      );
+
+      if (!choice) {
+        return 0;
+      }
+
+      return choice.isCorrect ? 1 : choice.creditWeight || 0;
+    }
+  }
+}
+
+export function getExamQuestionPoints(
+  exam: Exam,
+  question: Pick<ExamQuestion, 'points'> & {
+    section?: Pick<ExamSection, 'pointsPerQuestion'>;
+  },
+) {
+  return (
+    question.points ??
+    question.section?.pointsPerQuestion ??
+    exam.pointsPerQuestion
+  );
+}
+
+// Get exam total points, if only some questions are visible then
+// use the lowest points so every student can reach the same total.
+// Section questions use section visible count, others use exam's
+export function getExamTotalPoints(
+  exam: Exam,
+  questions: (Pick<ExamQuestion, 'points'> & {
+    section?: Pick<
+      ExamSection,
+      'orderNumber' | 'visibleQuestionsCount' | 'pointsPerQuestion'
+    >;
+  })[],
+) {
+  const sectionOrderNumbers = [
+    ...new Set(questions.map((q) => q.section?.orderNumber ?? null)),
+  ];
+
+  const total = sectionOrderNumbers
+    .map((orderNumber) => {
+      const groupQuestions = questions.filter(
+        (q) => (q.section?.orderNumber ?? null) === orderNumber,
+      );
+
+      const visibleQuestionsCount =
+        orderNumber == null
+          ? exam.visibleQuestionsCount
+          : groupQuestions[0].section.visibleQuestionsCount;
+
+      return groupQuestions
+        .map((q) => getExamQuestionPoints(exam, q))
+        .sort((pointsA, pointsB) => pointsA - pointsB)
+        .slice(0, visibleQuestionsCount || groupQuestions.length)
+        .reduce((total, points) => total + points, 0);
+    })
+    .reduce((total, points) => total + points, 0);
+
+  return +total.toFixed(2);
+}
+
+// Get questions drawn from a question pool with the lowest points,
+// same as getExamTotalPoints so every student can reach the same total
+export function getExamQuestionPoolLowestPointsQuestions(
+  exam: Exam,
+  pool: Pick<ExamQuestionPool, 'drawCount' | 'questions'>,
+) {
+  return [...pool.questions]
+    .sort(
+      (questionA, questionB) =>
+        getExamQuestionPoints(exam, questionA) -
+        getExamQuestionPoints(exam, questionB),
+    )
+    .slice(0, pool.drawCount);
+}
+
+function hasExamAnswer(answer: ExamAnswer) {
+  return (
+    !!answer.selectedChoiceId ||
+    !!answer.selectedChoiceIds?.length ||
+    answer.numericAnswer != null ||
+    !!answer.textAnswer?.trim()
+  );
+}
+
+// Points overrides are keyed by question id, and replace the computed points of the answer
+export function getExamAnswersScore(
+  exam: Exam,
+  questions: ExamQuestion[],
+  answers: ExamAnswer[],
+  pointsOverrides: Record<number, number> = {},
+) {
+  const score = answers.reduce((acc, answer) => {
+    const question = questions.find((q) => q.id === answer.questionId);
+
+    if (!question) {
+      return acc;
+    }
+
+    if (pointsOverrides[question.id] != null) {
+      return acc + pointsOverrides[question.id];
+    }
+
+    const points = getExamQuestionPoints(exam, question);
+    const credit = gradeExamQuestionAnswer(question, answer);
+
+    // Deduct points for wrong answers only, skipped questions are not penalized
+    if (exam.negativeMarking && !credit && hasExamAnswer(answer)) {
+      return acc - points * exam.negativeMarkingRatio;
+    }
+
+    return acc + points * credit;
+  }, 0);
+
+  return +Math.max(0, score).toFixed(2);
+}
+
+export function generateExamCompletionQuestionAnswers(
+  answers: ExamAnswer[],
+): DeepPartial<ExamCompletionQuestionAnswer>[] {
+  return answers.map(
+    ({
+      questionId,
+      selectedChoiceId,
+      selectedChoiceIds,
+      numericAnswer,
+      textAnswer,
+    }) => ({
+      question: { id: questionId },
+      selectedQuestionChoice: selectedChoiceId
+        ? { id: selectedChoiceId }
+        : null,
+      selectedQuestionChoices: (selectedChoiceIds || []).map((id) => ({
+        id,
+      })),
+      numericAnswer: numericAnswer ?? null,
+      textAnswer: textAnswer?.trim() || null,
+    }),
+  );
+}
+
+// Convert stored completion answers back to exam answers, used for regrading
+export function generateExamAnswersFromCompletionQuestionAnswers(
+  questionAnswers: ExamCompletionQuestionAnswer[],
+): ExamAnswer[] {
+  return questionAnswers
+    .filter((qa) => !!qa.question)
+    .map(
+      ({
+        question,
+        selectedQuestionChoice,
+        selectedQuestionChoices,
+        numericAnswer,
+        textAnswer,
+      }) => ({
+        questionId: question.id,
+        selectedChoiceId: selectedQuestionChoice?.id,
+        selectedChoiceIds: (selectedQuestionChoices || []).map((c) => c.id),
+        numericAnswer,
+        textAnswer,
+      }),
+    );
+}
+
+// Get completion score and max score from stored answers, with teacher overrides applied.
+// Questions should include questions drawn from question pools
+export function getExamCompletionScore(
+  exam: Exam,
+  questions: ExamQuestion[],
+  completion: ExamCompletion,
+) {
+  const { servedQuestionIds, questionAnswers, overriddenScore } = completion;
+
+  // Old completions without served questions were served all exam questions
+  const servedQuestions = servedQuestionIds.length
+    ? questions.filter((q) => servedQuestionIds.includes(q.id))
+    : questions.filter((q) => !q.pool);
+  const answers =
+    generateExamAnswersFromCompletionQuestionAnswers(questionAnswers);
+  const pointsOverrides = questionAnswers
+    .filter((qa) => !!qa.question && qa.overriddenPoints != null)
+    .reduce(
+      (acc, qa) => ({ ...acc, [qa.question.id]: qa.overriddenPoints }),
+      {} as Record<number, number>,
+    );
+
+  return {
+    score:
+      overriddenScore ??
+      getExamLatePenaltyScore(
+        getExamAnswersScore(exam, servedQuestions, answers, pointsOverrides),
+        completion.latePenaltyPercent,
+      ),
+    maxScore: getExamTotalPoints(exam, servedQuestions),
+  };
+}
+
+// Deduct late penalty from the computed score of a late submission
+export function getExamLatePenaltyScore(
+  score: number,
+  latePenaltyPercent?: number | null,
+) {
+  if (!latePenaltyPercent) {
+    return score;
+  }
+
+  return +Math.max(0, score * (1 - latePenaltyPercent / 100)).toFixed(2);
+}
+
+// Check if update of a taken exam only changes answer keys and points,
+// questions and choices served to students should stay the same
+export function isExamAnswerKeyUpdate(exam: Exam, examDto: ExamUpdateDto) {
+  const { questions, questionPools, sections, visibleQuestionsCount } = examDto;
+
+  if (
+    questionPools ||
+    sections ||
+    (visibleQuestionsCount != null &&
+      visibleQuestionsCount !== exam.visibleQuestionsCount)
+  ) {
+    return false;
+  }
+
+  if (!questions) {
+    return true;
+  }
+
+  if (questions.length !== exam.questions.length) {
+    return false;
+  }
+
+  return questions.every((targetQuestion) => {
+    const question = exam.questions.find((q) => q.id === targetQuestion.id);
+
+    // Text served to students should not change
+    if (
+      !question ||
+      (targetQuestion.type && targetQuestion.type !== question.type) ||
+      (targetQuestion.text != null && targetQuestion.text !== question.text) ||
+      (targetQuestion.sectionOrderNumber ?? null) !==
+        (question.section?.orderNumber ?? null)
+    ) {
+      return false;
+    }
+
+    const targetChoices = targetQuestion.choices || [];
+
+    return (
+      targetChoices.length === question.choices.length &&
+      question.choices.every((choice) =>
+        targetChoices.some(
+          (c) =>
+            c.id === choice.id && (c.text == null || c.text === choice.text),
+        ),
+      )
+    );
+  });
+}
+
+// Check if updated questions change answer keys or points, existing completions should then be regraded
+export function isExamAnswerKeyChanged(
+  exam: Exam,
+  questions: ExamUpdateDto['questions'],
+) {
+  const isChanged = (target: object, source: object, keys: string[]) =>
+    !!target &&
+    keys.some(
+      (key) =>
+        target[key] !== undefined &&
+        JSON.stringify(target[key]) !== JSON.stringify(source?.[key] ?? null),
+    );
+
+  if (questions.length !== exam.questions.length) {
+    return true;
+  }
+
+  return questions.some((targetQuestion) => {
+    const question = exam.questions.find((q) => q.id === targetQuestion.id);
+
+    if (
+      !question ||
+      isChanged(targetQuestion, question, ['type', 'points']) ||
+      (targetQuestion.sectionOrderNumber ?? null) !==
+        (question.section?.orderNumber ?? null) ||
+      isChanged(targetQuestion.typeNumeric, question.typeNumeric, [
+        'answer',
+        'tolerance',
+        'toleranceType',
+      ]) ||
+      isChanged(
+        targetQuestion.typeMultipleSelect,
+        question.typeMultipleSelect,
+        ['scoring'],
+      ) ||
+      isChanged(targetQuestion.typeFillBlank, question.typeFillBlank, [
+        'acceptedAnswers',
+        'caseSensitive',
+      ])
+    ) {
+      return true;
+    }
+
+    const targetChoices = targetQuestion.choices || [];
+
+    return (
+      targetChoices.length !== (question.choices || []).length ||
+      targetChoices.some((targetChoice) => {
+        const choice = question.choices.find((c) => c.id === targetChoice.id);
+        return (
+          !choice ||
+          isChanged(targetChoice, choice, ['isCorrect', 'creditWeight'])
+        );
+      })
+    );
+  });
+}
+
+// Copy question bank item as exam question (with answer key)
+export function generateExamQuestionFromBankItem(
+  item: QuestionBankItem,
+  orderNumber: number,
+): DeepPartial<ExamQuestion> {
+  return {
+    orderNumber,
+    text: item.text,
+    textType: item.textType,
+    type: item.type,
+    points: item.points,
+    questionBankItem: { id: item.id },
+    choices: (item.choices || []).map(
+      ({ orderNumber, text, textType, isCorrect, creditWeight }) => ({
+        orderNumber,
+        text,
+        textType,
+        isCorrect,
+        creditWeight,
+      }),
+    ),
+    typeNumeric:
+      item.type === ExamQuestionType.Numeric
+        ? {
+            answer: item.numericAnswer,
+            tolerance: item.numericTolerance,
+            toleranceType: item.numericToleranceType,
+          }
+        : undefined,
+    typeMultipleSelect:
+      item.type === ExamQuestionType.MultipleSelect
+        ? { scoring: item.multipleSelectScoring }
+        : undefined,
+    typeFillBlank:
+      item.type === ExamQuestionType.FillBlank
+        ? {
+            acceptedAnswers: item.acceptedAnswers,
+            caseSensitive: item.caseSensitive,
+          }
+        : undefined,
+  };
+}
+
+// Copy exam question (with choices and type configs) as new rows,
+// image paths are moved to the base folder of the cloned exam
+export function generateClonedExamQuestion(
+  question: ExamQuestion,
+  imageBaseName: string,
+): DeepPartial<ExamQuestion> {
+  const getText = (text: string, textType: ExActTextType) =>
+    textType === ExActTextType.Image
+      ? generateClonedImagePath(text, imageBaseName)
+      : text;
+
+  return {
+    orderNumber: question.orderNumber,
+    text: getText(question.text, question.textType),
+    textType: question.textType,
+    type: question.type,
+    points: question.points,
+    explanationText: question.explanationText,
+    solutionImageUrl: question.solutionImageUrl
+      ? generateClonedImagePath(question.solutionImageUrl, imageBaseName)
+      : question.solutionImageUrl,
+    questionBankItem: question.questionBankItem
+      ? { id: question.questionBankItem.id }
+      : undefined,
+    choices: (question.choices || []).map(
+      ({ orderNumber, text, textType, isCorrect, creditWeight }) => ({
+        orderNumber,
+        text: getText(text, textType),
+        textType,
+        isCorrect,
+        creditWeight,
+      }),
+    ),
+    typeNumeric: question.typeNumeric
+      ? {
+          answer: question.typeNumeric.answer,
+          tolerance: question.typeNumeric.tolerance,
+          toleranceType: question.typeNumeric.toleranceType,
+        }
+      : undefined,
+    typeMultipleSelect: question.typeMultipleSelect
+      ? { scoring: question.typeMultipleSelect.scoring }
+      : undefined,
+    typeFillBlank: question.typeFillBlank
+      ? {
+          acceptedAnswers: question.typeFillBlank.acceptedAnswers,
+          caseSensitive: question.typeFillBlank.caseSensitive,
+        }
+      : undefined,
+  };
+}
+
+// Snapshot exam questions (with pool questions) for an exam version,
+// fields are listed explicitly so identical content gives the same checksum
+export function generateExamVersionQuestions(
+  questions: ExamQuestion[],
+): ExamVersionQuestion[] {
+  return [...questions]
+    .sort((qA, qB) => qA.id - qB.id)
+    .map((question) => ({
+      id: question.id,
+      orderNumber: question.orderNumber,
+      text: question.text,
+      textType: question.textType,
+      type: question.type,
+      points: question.points ?? null,
+      poolId: question.pool?.id ?? null,
+      ...(question.section && {
+        sectionPointsPerQuestion: question.section.pointsPerQuestion ?? null,
+      }),
+      choices: [...(question.choices || [])]
+        .sort((cA, cB) => cA.id - cB.id)
+        .map((choice) => ({
+          id: choice.id,
+          orderNumber: choice.orderNumber,
+          text: choice.text,
+          textType: choice.textType,
+          isCorrect: choice.isCorrect,
+          creditWeight: choice.creditWeight ?? null,
+        })),
+      typeNumeric: question.typeNumeric
+        ? {
+            answer: question.typeNumeric.answer,
+            tolerance: question.typeNumeric.tolerance,
+            toleranceType: question.typeNumeric.toleranceType,
+          }
+        : null,
+      typeMultipleSelect: question.typeMultipleSelect
+        ? { scoring: question.typeMultipleSelect.scoring }
+        : null,
+      typeFillBlank: question.typeFillBlank
+        ? {
+            acceptedAnswers: question.typeFillBlank.acceptedAnswers,
+            caseSensitive: question.typeFillBlank.caseSensitive,
+          }
+        : null,
+    }));
+}
+
+// Pick exam questions and choices order for a student from the delivery seed,
+// draw questions from each pool then cut down to visible questions count if there are more.
+// Sections are served first in order, each with its own visible count and randomization
+export function generateExamDelivery(exam: Exam, seed: string) {
+  const random = generateSeededRandom(seed);
+  // Keep a stable base order so the same seed always gives the same result
+  const sortByOrderNumber = <T extends { id: number; orderNumber: number }>(
+    items: T[],
+  ): T[] =>
+    [...items].sort(
+      (itemA, itemB) =>
+        itemA.orderNumber - itemB.orderNumber || itemA.id - itemB.id,
+    );
+
+  const pickVisibleQuestions = (
+    questions: ExamQuestion[],
+    visibleQuestionsCount: number,
+  ) => {
+    if (!visibleQuestionsCount || questions.length <= visibleQuestionsCount) {
+      return questions;
+    }
+
+    const visibleQuestionIds = shuffleArray(questions, random)
+      .slice(0, visibleQuestionsCount)
+      .map((q) => q.id);
+
+    return questions.filter((q) => visibleQuestionIds.includes(q.id));
+  };
+
+  const sections = sortByOrderNumber(exam.sections || []);
+
+  const sectionQuestions = sections.flatMap((section) => {
+    const questions = pickVisibleQuestions(
+      sortByOrderNumber(
+        exam.questions.filter((q) => q.section?.id === section.id),
+      ),
+      section.visibleQuestionsCount,
+    );
+
+    return section.randomizeQuestions
+      ? shuffleArray(questions, random)
+      : questions;
+  });
+
+  const drawnQuestions = [...(exam.questionPools || [])]
+    .sort((poolA, poolB) => poolA.id - poolB.id)
+    .flatMap((pool) =>
+      shuffleArray(sortByOrderNumber(pool.questions), random).slice(
+        0,
+        pool.drawCount,
+      ),
+    );
+
+  let targetQuestions = pickVisibleQuestions(
+    [
+      ...sortByOrderNumber(
+        exam.questions.filter(
+          (q) => !sections.some((section) => section.id === q.section?.id),
+        ),
+      ),
+      ...drawnQuestions,
+    ],
+    exam.visibleQuestionsCount,
+  );
+
+  if (exam.randomizeQuestions) {
+    targetQuestions = shuffleArray(targetQuestions, random);
+  }
+
+  targetQuestions = [...sectionQuestions, ...targetQuestions];
+
+  // Only shuffle choices of choice type questions
+  const choiceIds = targetQuestions.reduce(
+    (total, q) => {
+      const choices = sortByOrderNumber(q.choices || []);
+      const isChoiceType =
+        q.type === ExamQuestionType.SingleChoice ||
+        q.type === ExamQuestionType.MultipleSelect;
+
+      const targetChoices =
+        exam.randomizeChoices && isChoiceType
+          ? shuffleArray(choices, random)
+          : choices;
+
+      return { ...total, [q.id]: targetChoices.map((c) => c.id) };
+    },
+    {} as Record<number, number[]>,
+  );
+
+  return { questionIds: targetQuestions.map((q) => q.id), choiceIds };
+}
+
+// Sort questions and their choices base on the order served to student
+export function sortExamQuestionsByDelivery(
+  questions: ExamQuestion[],
+  delivery: ExamDelivery,
+) {
+  const { questionIds, choiceIds } = delivery;
+
+  return questionIds
+    .map((id) => questions.find((q) => q.id === id))
+    .filter((q) => !!q)
+    .map((q) => {
+      const targetChoiceIds = choiceIds[q.id];
+
+      if (!targetChoiceIds || !q.choices) {
+        return q;
+      }
+
+      const choices = [...q.choices].sort(
+        (cA, cB) =>
+          targetChoiceIds.indexOf(cA.id) - targetChoiceIds.indexOf(cB.id),
+      );
+
+      return { ...q, choices };
+    });
+}
+
+// Get questions served to student, all exam questions if exam has no delivery
+export function getExamServedQuestionIds(
+  questions: ExamQuestion[],
+  delivery?: ExamDelivery,
+) {
+  if (delivery) {
+    return delivery.questionIds;
+  }
+
+  return questions.filter((q) => !q.pool).map((q) => q.id);
+}
+
+// Get schedule start and end date of a student, apply student accommodation if present
+export function getExamScheduleStudentWindow(
+  schedule: ExamSchedule,
+  studentId: number,
+) {
+  const accommodation = schedule.accommodations?.find(
+    (acc) => acc.student?.id === studentId,
+  );
+
+  if (!accommodation) {
+    return {
+      startDate: schedule.startDate,
+      endDate: schedule.endDate,
+      isAccommodated: false,
+    };
+  }
+
+  const { startDate, endDate, durationMinutes, extraMinutes } = accommodation;
+  const targetStartDate = dayjs(startDate || schedule.startDate);
+  const targetEndDate = durationMinutes
+    ? targetStartDate.add(durationMinutes, 'minute')
+    : dayjs(endDate || schedule.endDate);
+
+  return {
+    startDate: targetStartDate.toDate(),
+    endDate: targetEndDate.add(extraMinutes || 0, 'minute').toDate(),
+    isAccommodated: true,
+  };
+}
+
+// Check if student can see correct answers and explanations based on exam review policy,
+// schedules should have the student's accommodation applied
+export function isExamReviewAvailable(
+  exam: Exam,
+  schedules: ExamSchedule[],
+  completions: ExamCompletion[],
+  date = dayjs(),
+) {
+  const isScheduleClosed = schedules.every(
+    (schedule) => !date.isBefore(schedule.endDate),
+  );
+
+  switch (exam.reviewPolicy) {
+    // Answers stay hidden while student can still retake the exam
+    case ExamReviewPolicy.Immediate:
+      return (
+        completions.length > 0 &&
+        (completions.length >= exam.maxAttempts || isScheduleClosed)
+      );
+    case ExamReviewPolicy.AfterSchedule:
+      return isScheduleClosed;
+    case ExamReviewPolicy.FromDate:
+      return !!exam.reviewDate && !date.isBefore(exam.reviewDate);
+    default:
+      return false;
+  }
+}
+
+export function hideExamQuestionChoiceAnswerKey(choice: ExamQuestionChoice) {
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  const { isCorrect, creditWeight, ...moreChoice } = choice;
+  return moreChoice;
+}
+
+// Remove answer keys, explanation and solution of question
+export function hideExamQuestionAnswerKey(question: ExamQuestion) {
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  const { typeNumeric, typeFillBlank, choices, ...moreQuestion } = question;
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  const { explanationText, solutionImageUrl, ...targetQuestion } = moreQuestion;
+
+  return {
+    ...targetQuestion,
+    choices: choices?.map(hideExamQuestionChoiceAnswerKey),
+  };
+}
+
+// Remove answer keys from completion answers, graded version includes answer keys
+export function hideExamCompletionAnswerKeys(completion: ExamCompletion) {
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  const { version, questionAnswers, ...moreCompletion } = completion;
+
+  return {
+    ...moreCompletion,
+    questionAnswers: questionAnswers?.map((questionAnswer) => ({
+      ...questionAnswer,
+      question:
+        questionAnswer.question &&
+        hideExamQuestionAnswerKey(questionAnswer.question),
+      selectedQuestionChoice:
+        questionAnswer.selectedQuestionChoice &&
+        hideExamQuestionChoiceAnswerKey(questionAnswer.selectedQuestionChoice),
+      selectedQuestionChoices: questionAnswer.selectedQuestionChoices?.map(
+        hideExamQuestionChoiceAnswerKey,
+      ),
+    })),
+  };
+}
+
+// Get current schedule of a student, the latest schedule that has started
+export function getExamStudentSchedule(
+  schedules: ExamSchedule[],
+  studentId: number,
+  date = dayjs(),
+) {
+  return (
+    schedules
+      .map((schedule) => ({
+        schedule,
+        startDate: getExamScheduleStudentWindow(schedule, studentId).startDate,
+      }))
+      .filter(({ startDate }) => !dayjs(startDate).isAfter(date))
+      .sort((a, b) => dayjs(b.startDate).diff(a.startDate))[0]?.schedule || null
+  );
+}
+
+// Check submission date against the student's end date and the exam's late policy
+export function getExamSubmissionLateness(
+  exam: Exam,
+  endDate: Date,
+  submittedAt = dayjs(),
+) {
+  if (!submittedAt.isAfter(endDate)) {
+    return { isClosed: false, isLate: false, latePenaltyPercent: null };
+  }
+
+  const { latePolicy, lateGraceMinutes, latePenaltyPercent } = exam;
+
+  if (
+    latePolicy === ExamLatePolicy.Reject ||
+    submittedAt.isAfter(dayjs(endDate).add(lateGraceMinutes || 0, 'minute'))
+  ) {
+    return { isClosed: true, isLate: true, latePenaltyPercent: null };
+  }
+
+  return {
+    isClosed: false,
+    isLate: true,
+    latePenaltyPercent:
+      latePolicy === ExamLatePolicy.Penalty ? latePenaltyPercent : null,
+  };
+}
+
+// Get end date of an exam room, a paused room is extended by the time it has been paused
+export function getExamRoomEndDate(
+  room: Pick<ExamRoom, 'endDate' | 'pausedAt'>,
+  date = dayjs(),
+) {
+  if (!room.pausedAt) {
+    return room.endDate;
+  }
+
+  return dayjs(room.endDate).add(date.diff(room.pausedAt)).toDate();
+}
+
+// Get exam end date of a student, exam with duration ends after duration since student started
+// but not later than the schedule end date
+export function getExamStudentEndDate(
+  exam: Exam,
+  schedule: ExamSchedule,
+  studentId: number,
+  startedAt?: Date,
+) {
+  const { endDate } = getExamScheduleStudentWindow(schedule, studentId);
+
+  if (!exam.durationMinutes || !startedAt) {
+    return endDate;
+  }
+
+  const extraMinutes =
+    schedule.accommodations?.find((acc) => acc.student?.id === studentId)
+      ?.extraMinutes || 0;
+
+  const durationEndDate = dayjs(startedAt).add(
+    exam.durationMinutes + extraMinutes,
+    'minute',
+  );
+
+  return durationEndDate.isBefore(endDate) ? durationEndDate.toDate() : endDate;
+}
+
+// Group integrity events (sorted by date) per attempt and flag suspicious patterns
+export function generateExamIntegrityTimelines(
+  events: ExamIntegrityEvent[],
+): ExamIntegrityTimeline[] {
+  const attemptNumbers = [...new Set(events.map((e) => e.attemptNumber))].sort(
+    (numA, numB) => numA - numB,
+  );
+
+  return attemptNumbers.map((attemptNumber) => {
+    const attemptEvents = events.filter(
+      (e) => e.attemptNumber === attemptNumber,
+    );
+
+    // Count focus loss and how long student was away until focus returned
+    let focusLostAt: Date = null;
+    let focusLossCount = 0;
+    let totalFocusLossSeconds = 0;
+    let longestFocusLossSeconds = 0;
+
+    attemptEvents.forEach(({ type, occurredAt }) => {
+      const isFocusLoss =
+        type === ExamIntegrityEventType.Blur ||
+        type === ExamIntegrityEventType.VisibilityHidden ||
+        type === ExamIntegrityEventType.Disconnect;
+      const isFocusReturn =
+        type === ExamIntegrityEventType.Focus ||
+        type === ExamIntegrityEventType.VisibilityVisible ||
+        type === ExamIntegrityEventType.Reconnect;
+
+      if (isFocusLoss && !focusLostAt) {
+        focusLostAt = occurredAt;
+        focusLossCount += 1;
+      } else if (isFocusReturn && focusLostAt) {
+        const seconds = dayjs(occurredAt).diff(focusLostAt, 'second');
+        totalFocusLossSeconds += seconds;
+        longestFocusLossSeconds = Math.max(longestFocusLossSeconds, seconds);
+        focusLostAt = null;
+      }
+    });
+
+    const countByType = (types: ExamIntegrityEventType[]) =>
+      attemptEvents.filter((e) => types.includes(e.type)).length;
+
+    const flags: ExamIntegrityFlag[] = [];
+
+    if (focusLossCount >= INTEGRITY_FOCUS_LOSS_COUNT) {
+      flags.push(ExamIntegrityFlag.FrequentFocusLoss);
+    }
+
+    if (longestFocusLossSeconds >= INTEGRITY_FOCUS_LOSS_SECONDS) {
+      flags.push(ExamIntegrityFlag.LongFocusLoss);
+    }
+
+    if (
+      countByType([ExamIntegrityEventType.Copy, ExamIntegrityEventType.Paste])
+    ) {
+      flags.push(ExamIntegrityFlag.CopyPaste);
+    }
+
+    if (
+      countByType([ExamIntegrityEventType.Disconnect]) >=
+      INTEGRITY_DISCONNECT_COUNT
+    ) {
+      flags.push(ExamIntegrityFlag.FrequentReconnects);
+    }
+
+    return {
+      attemptNumber,
+      completionId:
+        attemptEvents.find((e) => !!e.completion)?.completion.id || null,
+      events: attemptEvents,
+      focusLossCount,
+      totalFocusLossSeconds,
+      flags,
+    };
+  });
+}
+
+// Summarize exam rooms and the progress of each student for teacher proctoring
+export function generateExamProctorRooms(rooms: ExamRoom[]): ExamProctorRoom[] {
+  const currentDateTime = dayjs();
+
+  return rooms.map(
+    ({ name, schedule, endDate, expiredAt, pausedAt, students }) => ({
+      roomName: name,
+      scheduleId: schedule?.id || null,
+      endDate,
+      expiredAt: expiredAt || null,
+      pausedAt: pausedAt || null,
+      // Remaining time is frozen while room is paused
+      remainingSeconds: Math.max(
+        0,
+        Math.floor(
+          dayjs(endDate).diff(
+            pausedAt ? dayjs(pausedAt) : currentDateTime,
+            'second',
+          ),
+        ),
+      ),
+      students: students.map(({ student, answers, lastActivityAt }) => ({
+        studentId: student.id,
+        publicId: student.user?.publicId,
+        fullName: generateFullName(
+          student.firstName,
+          student.lastName,
+          student.middleName,
+        ),
+        answeredCount: answers.filter((a) => !!a && hasExamAnswer(a)).length,
+        totalQuestionCount: answers.length,
+        lastActivityAt: lastActivityAt || null,
+      })),
+    }),
+  );
+}
+
+// Analyze each question base on the latest completion of each student.
+// Questions should include questions drawn from question pools
+export function generateExamItemAnalyses(
+  questions: ExamQuestion[],
+  completions: ExamCompletion[],
+): ExamItemAnalysis[] {
+  const latestCompletions = Object.values(
+    completions.reduce(
+      (acc, com) =>
+        !acc[com.student.id] ||
+        acc[com.student.id].attemptNumber < com.attemptNumber
+          ? { ...acc, [com.student.id]: com }
+          : acc,
+      {} as Record<number, ExamCompletion>,
+    ),
+  ).sort((comA, comB) => (comB.score || 0) - (comA.score || 0));
+
+  // Upper and lower groups are only comparable with at least two students
+  const groupSize =
+    latestCompletions.length > 1
+      ? Math.max(
+          1,
+          Math.round(latestCompletions.length * ITEM_ANALYSIS_GROUP_RATIO),
+        )
+      : 0;
+  const upperCompletions = latestCompletions.slice(0, groupSize);
+  const lowerCompletions = latestCompletions.slice(
+    latestCompletions.length - groupSize,
+  );
+
+  const toPercent = (count: number, total: number) =>
+    total ? +((count / total) * 100).toFixed(2) : null;
+
+  // Section questions come first in section order, same as delivery
+  const getSectionOrderNumber = (question: ExamQuestion) =>
+    question.section?.orderNumber ?? Number.MAX_SAFE_INTEGER;
+
+  return [...questions]
+    .sort(
+      (qA, qB) =>
+        getSectionOrderNumber(qA) - getSectionOrderNumber(qB) ||
+        qA.orderNumber - qB.orderNumber ||
+        qA.id - qB.id,
+    )
+    .map((question) => {
+      // Old completions without served questions were served all exam questions
+      const isServed = (com: ExamCompletion) =>
+        com.servedQuestionIds.length
+          ? com.servedQuestionIds.includes(question.id)
+          : !question.pool;
+      const getAnswer = (com: ExamCompletion) =>
+        generateExamAnswersFromCompletionQuestionAnswers(
+          com.questionAnswers.filter((qa) => qa.question?.id === question.id),
+        )[0];
+      const isCorrect = (com: ExamCompletion) => {
+        const answer = getAnswer(com);
+        return !!answer && gradeExamQuestionAnswer(question, answer) === 1;
+      };
+      const getCorrectRatio = (groupCompletions: ExamCompletion[]) => {
+        const served = groupCompletions.filter(isServed);
+        return served.length
+          ? served.filter(isCorrect).length / served.length
+          : 0;
+      };
+
+      const servedCompletions = latestCompletions.filter(isServed);
+      const answers = servedCompletions.map(getAnswer).filter((a) => !!a);
+      const correctCount = servedCompletions.filter(isCorrect).length;
+      const skippedCount =
+        servedCompletions.length -
+        answers.filter((a) => hasExamAnswer(a)).length;
+
+      const choices = [...(question.choices || [])]
+        .sort((cA, cB) => cA.orderNumber - cB.orderNumber)
+        .map((choice) => ({
+          choiceId: choice.id,
+          text: choice.text,
+          isCorrect: choice.isCorrect,
+          selectedCount: answers.filter(
+            (a) =>
+              a.selectedChoiceId === choice.id ||
+              a.selectedChoiceIds?.includes(choice.id),
+          ).length,
+        }));
+
+      return {
+        questionId: question.id,
+        orderNumber: question.orderNumber,
+        text: question.text,
+        type: question.type,
+        sectionId: question.section?.id ?? null,
+        sectionTitle: question.section?.title ?? null,
+        servedCount: servedCompletions.length,
+        correctCount,
+        skippedCount,
+        difficultyIndex: toPercent(correctCount, servedCompletions.length),
+        discriminationIndex: groupSize
+          ? +(
+              getCorrectRatio(upperCompletions) -
+              getCorrectRatio(lowerCompletions)
+            ).toFixed(2)
+          : null,
+        skipPercent: toPercent(skippedCount, servedCompletions.length),
+        choices,
+      };
+    });
+}
@@ -1,17 +1,149 @@
+import { ExActTextType } from '#/common/enums/content.enum';
+import { AuthSocketData } from '#/common/adapters/auth-socket.adapter';
+import {
+  ExamIntegrityFlag,
+  ExamMultipleSelectScoring,
+  ExamNumericToleranceType,
+  ExamQuestionType,
+} from '../enums/exam.enum';
+import { Lesson } from '#/modules/lesson/entities/lesson.entity';
+import { Activity } from '#/modules/activity/entities/activity.entity';
+import { ExamIntegrityEvent } from '../entities/exam-integrity-event.entity';
+
+// Socket data of exam gateway clients, current exam take is kept for integrity events
+export type ExamSocketData = AuthSocketData & {
+  examTake?: { examId: number; attemptNumber: number };
+};
+
 export type ExamAnswer = {
   questionId: number;
   selectedChoiceId?: number;
+  selectedChoiceIds?: number[];
+  numericAnswer?: number;
+  textAnswer?: string;
 };
 
-export type ExamStudent = {
+export type ExamIntegrityTimeline = {
+  attemptNumber: number;
+  completionId: number | null;
+  events: ExamIntegrityEvent[];
+  focusLossCount: number;
+  totalFocusLossSeconds: number;
+  flags: ExamIntegrityFlag[];
+};
+
+export type ExamProctorStudent = {
   studentId: number;
-  answers: ExamAnswer[];
+  publicId: string;
+  fullName: string;
+  answeredCount: number;
+  totalQuestionCount: number;
+  lastActivityAt: Date | null;
 };
 
-export type ExamRoom = {
-  name: string;
-  examId: number;
+export type ExamProctorRoom = {
+  roomName: string;
+  scheduleId: number | null;
   endDate: Date;
-  interval: NodeJS.Timeout;
-  students: ExamStudent[];
+  expiredAt: Date | null;
+  pausedAt: Date | null;
+  remainingSeconds: number;
+  students: ExamProctorStudent[];
+};
+
+export type ExamRegradedScore = {
+  completionId: number;
+  studentId: number;
+  attemptNumber: number;
+  previousScore: number;
+  score: number;
+};
+
+export type ExamRegradeSummary = {
+  regradedCount: number;
+  changedScores: ExamRegradedScore[];
+};
+
+export type ExamItemAnalysisChoice = {
+  choiceId: number;
+  text: string;
+  isCorrect: boolean;
+  selectedCount: number;
+};
+
+export type ExamItemAnalysis = {
+  questionId: number;
+  orderNumber: number;
+  text: string;
+  type: ExamQuestionType;
+  sectionId: number | null;
+  sectionTitle: string | null;
+  servedCount: number;
+  correctCount: number;
+  skippedCount: number;
+  difficultyIndex: number | null;
+  discriminationIndex: number | null;
+  skipPercent: number | null;
+  choices: ExamItemAnalysisChoice[];
+};
+
+export type ExamFormatQuestion = {
+  line: number;
+  text: string;
+  type: ExamQuestionType;
+  points?: number;
+  choices: { text: string; isCorrect: boolean; creditWeight?: number }[];
+  numeric?: {
+    answer: number;
+    tolerance: number;
+    toleranceType: ExamNumericToleranceType;
+  };
+  fillBlank?: { acceptedAnswers: string[]; caseSensitive: boolean };
+};
+
+export type ExamFormatError = {
+  line: number;
+  message: string;
+};
+
+export type ExamFormatParseResult = {
+  questions: ExamFormatQuestion[];
+  errors: ExamFormatError[];
+};
+
+// Question as served in an exam version, pool questions included
+export type ExamVersionQuestion = {
+  id: number;
+  orderNumber: number;
+  text: string;
+  textType: ExActTextType;
+  type: ExamQuestionType;
+  points: number | null;
+  poolId: number | null;
+  // Only set for section questions, so unsectioned questions keep their checksum
+  sectionPointsPerQuestion?: number | null;
+  choices: {
+    id: number;
+    orderNumber: number;
+    text: string;
+    textType: ExActTextType;
+    isCorrect: boolean;
+    creditWeight: number | null;
+  }[];
+  typeNumeric: {
+    answer: number;
+    tolerance: number;
+    toleranceType: ExamNumericToleranceType;
+  } | null;
+  typeMultipleSelect: { scoring: ExamMultipleSelectScoring } | null;
+  typeFillBlank: { acceptedAnswers: string[]; caseSensitive: boolean } | null;
+};
+
+export type ExamMissingPrerequisites = {
+  lessons: Lesson[];
+  activity: Activity | null;
+  // Minimum score required on the activity
+  activityScore: number | null;
+  // Best completion score of student on the activity
+  studentActivityScore: number | null;
 };
@@ -130,6 +130,17 @@ export class LessonController {
     return this.lessonService.create(transformedBody, teacherId);
   }
 
+  @Post('/:slug/clone')
+  @UseAuthGuard(UserRole.Teacher)
+  @UseSerializeInterceptor(LessonResponseDto)
+  clone(
+    @Param('slug') slug: string,
+    @CurrentUser() user: User,
+  ): Promise<Lesson> {
+    const { id: teacherId } = user.teacherUserAccount;
+    return this.lessonService.cloneBySlugAndTeacherId(slug, teacherId);
+  }
+
   @Patch('/:slug')
   @UseAuthGuard(UserRole.Teacher)
   @UseSerializeInterceptor(LessonResponseDto)
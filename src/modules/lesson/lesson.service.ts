@@ -334,6 +334,31 @@ export class LessonService {
     return lesson;
   }
 
+  // Copy lesson as a new draft with the next order number, schedules and completions are not copied
+  async cloneBySlugAndTeacherId(
+    slug: string,
+    teacherId: number,
+  ): Promise<Lesson> {
+    const lesson = await this.getOneBySlugAndTeacherId(slug, teacherId);
+
+    const maxOrderNumber = await this.lessonRepo.maximum('orderNumber', {
+      teacher: { id: teacherId },
+    });
+
+    const newLesson = this.lessonRepo.create({
+      status: RecordStatus.Draft,
+      orderNumber: (maxOrderNumber || 0) + 1,
+      title: lesson.title,
+      videoUrl: lesson.videoUrl,
+      durationSeconds: lesson.durationSeconds,
+      description: lesson.description,
+      excerpt: lesson.excerpt,
+      teacher: { id: teacherId },
+    });
+
+    return this.lessonRepo.save(newLesson);
+  }
+
   async create(lessonDto: LessonCreateDto, teacherId: number): Promise<Lesson> {
     const { startDate, studentIds, ...moreLessonDto } = lessonDto;
 
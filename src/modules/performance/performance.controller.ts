@@ -13,6 +13,12 @@ import { Activity } from '../activity/entities/activity.entity';
 import { LessonResponseDto } from '../lesson/dtos/lesson-response.dto';
 import { ExamResponseDto } from '../exam/dtos/exam-response.dto';
 import { ActivityResponseDto } from '../activity/dtos/activity-response.dto';
+import {
+  ExamIntegrityTimeline,
+  ExamItemAnalysis,
+} from '../exam/models/exam.model';
+import { ExamIntegrityTimelineResponseDto } from '../exam/dtos/exam-integrity-timeline-response.dto';
+import { ExamItemAnalysisResponseDto } from '../exam/dtos/exam-item-analysis-response.dto';
 import { StudentPerformance } from './models/performance.model';
 import { StudentPerformanceType } from './enums/performance.enum';
 import { StudentPerformanceResponseDto } from './dtos/student-performance-response.dto';
@@ -55,6 +61,20 @@ export class PerformanceController {
     return this.performanceService.getExamPerformanceByTeacherId(teacherId);
   }
 
+  @Get(`${TEACHER_URL}/exams/:slug/item-analysis`)
+  @UseAuthGuard(UserRole.Teacher)
+  @UseSerializeInterceptor(ExamItemAnalysisResponseDto)
+  getExamItemAnalysesBySlugAndTeacherId(
+    @Param('slug') slug: string,
+    @CurrentUser() user: User,
+  ): Promise<ExamItemAnalysis[]> {
+    const { id: teacherId } = user.teacherUserAccount;
+    return this.performanceService.getExamItemAnalysesBySlugAndTeacherId(
+      slug,
+      teacherId,
+    );
+  }
+
   @Get(`${TEACHER_URL}/activities`)
   @UseAuthGuard(UserRole.Teacher)
   @UseSerializeInterceptor(TeacherActivityPerformanceResponseDto)
@@ -149,6 +169,22 @@ export class PerformanceController {
     );
   }
 
+  @Get(`${TEACHER_URL}${STUDENT_URL}/:publicId/exams/:slug/integrity`)
+  @UseAuthGuard(UserRole.Teacher)
+  @UseSerializeInterceptor(ExamIntegrityTimelineResponseDto)
+  getStudentExamIntegrityTimelinesByPublicIdAndSlug(
+    @Param('publicId') publicId: string,
+    @Param('slug') slug: string,
+    @CurrentUser() user: User,
+  ): Promise<ExamIntegrityTimeline[]> {
+    const { id: teacherId } = user.teacherUserAccount;
+    return this.performanceService.getStudentExamIntegrityTimelinesByPublicIdAndSlug(
+      publicId,
+      slug,
+      teacherId,
+    );
+  }
+
   @Get(`${TEACHER_URL}${STUDENT_URL}/:publicId/activities`)
   @UseAuthGuard(UserRole.Teacher)
   @UseFilterFieldsInterceptor(true)
@@ -16,11 +16,25 @@ import { StudentUserAccount } from '../user/entities/student-user-account.entity
 import { UserApprovalStatus } from '../user/enums/user.enum';
 import { Lesson } from '../lesson/entities/lesson.entity';
 import { Exam } from '../exam/entities/exam.entity';
+import { ExamCompletion } from '../exam/entities/exam-completion.entity';
+import {
+  ExamIntegrityTimeline,
+  ExamItemAnalysis,
+} from '../exam/models/exam.model';
+import {
+  generateExamIntegrityTimelines,
+  generateExamItemAnalyses,
+  getExamAttemptScore,
+  getExamQuestionPoolLowestPointsQuestions,
+  getExamScheduleStudentWindow,
+  getExamTotalPoints,
+} from '../exam/helpers/exam.helper';
 import { Activity } from '../activity/entities/activity.entity';
 import { ActivityCategory } from '../activity/entities/activity-category.entity';
 import { ActivityCategoryType } from '../activity/enums/activity.enum';
 import { LessonService } from '../lesson/lesson.service';
 import { ExamService } from '../exam/exam.service';
+import { ExamIntegrityService } from '../exam/exam-integrity.service';
 import { ActivityService } from '../activity/activity.service';
 import { StudentPerformance } from './models/performance.model';
 import { StudentPerformanceType } from './enums/performance.enum';
@@ -34,6 +48,8 @@ export class PerformanceService {
     private readonly lessonService: LessonService,
     @Inject(ExamService)
     private readonly examService: ExamService,
+    @Inject(ExamIntegrityService)
+    private readonly examIntegrityService: ExamIntegrityService,
     @Inject(ActivityService)
     private readonly activityService: ActivityService,
   ) {}
@@ -86,28 +102,37 @@ export class PerformanceService {
     return { rankedStudents, unrankedStudents };
   }
 
+  // Get student score per exam from all attempts base on exam attempt scoring
+  generateExamScores(examCompletions: ExamCompletion[]) {
+    const examIds = [...new Set(examCompletions.map((com) => com.exam.id))];
+
+    return examIds.map((examId) => {
+      const completions = examCompletions.filter(
+        (com) => com.exam.id === examId,
+      );
+      const { exam } = completions[0];
+
+      return {
+        exam,
+        score: getExamAttemptScore(completions, exam.attemptScoring),
+      };
+    });
+  }
+
   async generateOverallExamRankings(students: StudentUserAccount[]) {
     let previousScore = null;
     let currentRank = null;
 
     const transformedStudents = students.map((student) => {
-      // Remove duplicate exam completion
-      const filteredExamCompletions = student.examCompletions
-        .sort(
-          (comA, comB) =>
-            comB.submittedAt.valueOf() - comA.submittedAt.valueOf(),
-        )
-        .filter(
-          (com, index, array) =>
-            array.findIndex((item) => item.exam.id === com.exam.id) === index,
-        );
+      // Merge exam attempts into a single score per exam
+      const examScores = this.generateExamScores(student.examCompletions);
 
-      if (!filteredExamCompletions.length) {
+      if (!examScores.length) {
         return { ...student, overallExamScore: null };
       }
 
       // Calculate total exam scores (overall)
-      const overallExamScore = filteredExamCompletions.reduce(
+      const overallExamScore = examScores.reduce(
         (total, currentValue) => currentValue.score + total,
         0,
       );
@@ -315,10 +340,7 @@ export class PerformanceService {
       return isAvailable;
     });
 
-    const examCompletions = student.examCompletions.filter(
-      (ec, index, self) =>
-        index === self.findIndex((t) => t.exam.id === ec.exam.id),
-    );
+    const examCompletions = this.generateExamScores(student.examCompletions);
 
     const examsPassedCount = examCompletions.filter(
       (ec) => ec.score >= ec.exam.passingPoints,
@@ -328,8 +350,15 @@ export class PerformanceService {
       (ec) => ec.score < ec.exam.passingPoints,
     ).length;
 
+    // Exams with pending make-up schedule or accommodated window are not yet expired
     const examsExpiredCount = availableExams.filter(
-      (exam) => !examCompletions.find((ec) => ec.exam.id === exam.id),
+      (exam) =>
+        !examCompletions.find((ec) => ec.exam.id === exam.id) &&
+        exam.schedules.every((schedule) =>
+          dayjs(
+            getExamScheduleStudentWindow(schedule, student.id).endDate,
+          ).isSameOrBefore(dayjs()),
+        ),
     ).length;
 
     const overallExamCompletionPercent = (() => {
@@ -638,6 +667,8 @@ export class PerformanceService {
       undefined,
       RecordStatus.Published,
       true,
+      undefined,
+      true,
     );
 
     const availableExams = allExams.filter((exam) => exam.schedules?.length);
@@ -664,7 +695,13 @@ export class PerformanceService {
 
     const totalExamPoints = allExams.reduce(
       (total, exam) =>
-        total + exam.visibleQuestionsCount * exam.pointsPerQuestion,
+        total +
+        getExamTotalPoints(exam, [
+          ...exam.questions,
+          ...exam.questionPools.flatMap((pool) =>
+            getExamQuestionPoolLowestPointsQuestions(exam, pool),
+          ),
+        ]),
       0,
     );
 
@@ -675,6 +712,22 @@ export class PerformanceService {
     };
   }
 
+  async getExamItemAnalysesBySlugAndTeacherId(
+    slug: string,
+    teacherId: number,
+  ): Promise<ExamItemAnalysis[]> {
+    const exam = await this.examService.getOneBySlugAndTeacherId(
+      slug,
+      teacherId,
+    );
+
+    const questions = await this.examService.getAllQuestionsByExamId(exam.id);
+    const completions =
+      await this.examService.getAllCompletionsWithAnswersByExamId(exam.id);
+
+    return generateExamItemAnalyses(questions, completions);
+  }
+
   async getActivityPerformanceByTeacherId(teacherId: number) {
     // Get all students (with completions) of teacher
     const students = await this.studentUserAccountRepo.find({
@@ -971,11 +1024,11 @@ export class PerformanceService {
           teacherId,
         );
 
-        const { rank, completions } = rankings.find(
+        const { rank, completions, score } = rankings.find(
           (rank) => rank.studentId === student.id,
         );
 
-        return { ...exam, rank, completions };
+        return { ...exam, rank, completions, score };
       }),
     );
 
@@ -1047,9 +1100,42 @@ export class PerformanceService {
       slug,
       student.id,
       true,
+      true,
     ) as Promise<Exam>;
   }
 
+  async getStudentExamIntegrityTimelinesByPublicIdAndSlug(
+    publicId: string,
+    slug: string,
+    teacherId: number,
+  ): Promise<ExamIntegrityTimeline[]> {
+    const student = await this.studentUserAccountRepo.findOne({
+      where: {
+        teacherUser: { id: teacherId },
+        user: {
+          publicId: publicId.toUpperCase(),
+          approvalStatus: UserApprovalStatus.Approved,
+        },
+      },
+    });
+
+    if (!student) {
+      throw new NotFoundException('Student not found');
+    }
+
+    const exam = await this.examService.getOneBySlugAndTeacherId(
+      slug,
+      teacherId,
+    );
+
+    const events = await this.examIntegrityService.getAllByExamIdAndStudentId(
+      exam.id,
+      student.id,
+    );
+
+    return generateExamIntegrityTimelines(events);
+  }
+
   async getStudentActivityWithCompletionsByPublicIdAndSlug(
     publicId: string,
     slug: string,
@@ -1117,7 +1203,7 @@ export class PerformanceService {
       relations: {
         lessonCompletions: { lesson: true },
         activityCompletions: { activityCategory: { activity: true } },
-        examCompletions: true,
+        examCompletions: { exam: true },
       },
     });
 
@@ -1200,11 +1286,11 @@ export class PerformanceService {
           student.teacherUser.id,
         );
 
-        const { rank, completions } = rankings.find(
+        const { rank, completions, score } = rankings.find(
           (rank) => rank.studentId === student.id,
         );
 
-        return { ...exam, rank, completions };
+        return { ...exam, rank, completions, score };
       }),
     );
 
@@ -0,0 +1,34 @@
+import {
+  IsBoolean,
+  IsEnum,
+  IsInt,
+  IsNumber,
+  IsOptional,
+  IsPositive,
+  IsString,
+  Max,
+  Min,
+} from 'class-validator';
+
+import { ExActTextType } from '#/common/enums/content.enum';
+
+export class QuestionBankItemChoiceCreateDto {
+  @IsInt()
+  @IsPositive()
+  orderNumber: number;
+
+  @IsString()
+  text: string;
+
+  @IsEnum(ExActTextType)
+  textType: ExActTextType;
+
+  @IsBoolean()
+  isCorrect: boolean;
+
+  @IsNumber()
+  @Min(0)
+  @Max(1)
+  @IsOptional()
+  creditWeight: number;
+}
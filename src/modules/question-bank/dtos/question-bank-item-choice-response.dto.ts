@@ -0,0 +1,21 @@
+import { Expose } from 'class-transformer';
+
+import { ExActTextType } from '#/common/enums/content.enum';
+import { BaseResponseDto } from '#/common/dtos/base-response.dto';
+
+export class QuestionBankItemChoiceResponseDto extends BaseResponseDto {
+  @Expose()
+  orderNumber: number;
+
+  @Expose()
+  text: string;
+
+  @Expose()
+  textType: ExActTextType;
+
+  @Expose()
+  isCorrect: boolean;
+
+  @Expose()
+  creditWeight: number;
+}
@@ -0,0 +1,43 @@
+import {
+  IsBoolean,
+  IsEnum,
+  IsInt,
+  IsNumber,
+  IsOptional,
+  IsPositive,
+  IsString,
+  Max,
+  Min,
+} from 'class-validator';
+
+import { ExActTextType } from '#/common/enums/content.enum';
+
+export class QuestionBankItemChoiceUpdateDto {
+  @IsInt()
+  @IsPositive()
+  @IsOptional()
+  id: number;
+
+  @IsInt()
+  @IsPositive()
+  @IsOptional()
+  orderNumber: number;
+
+  @IsString()
+  @IsOptional()
+  text: string;
+
+  @IsEnum(ExActTextType)
+  @IsOptional()
+  textType: ExActTextType;
+
+  @IsBoolean()
+  @IsOptional()
+  isCorrect: boolean;
+
+  @IsNumber()
+  @Min(0)
+  @Max(1)
+  @IsOptional()
+  creditWeight: number;
+}
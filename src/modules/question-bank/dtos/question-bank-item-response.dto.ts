@@ -0,0 +1,58 @@
+import { Expose, Type } from 'class-transformer';
+
+import { ExActTextType } from '#/common/enums/content.enum';
+import { BaseResponseDto } from '#/common/dtos/base-response.dto';
+import {
+  ExamMultipleSelectScoring,
+  ExamNumericToleranceType,
+  ExamQuestionType,
+} from '#/modules/exam/enums/exam.enum';
+import { LessonResponseDto } from '#/modules/lesson/dtos/lesson-response.dto';
+import { QuestionBankItemDifficulty } from '../enums/question-bank.enum';
+import { QuestionBankItemChoiceResponseDto } from './question-bank-item-choice-response.dto';
+
+export class QuestionBankItemResponseDto extends BaseResponseDto {
+  @Expose()
+  text: string;
+
+  @Expose()
+  textType: ExActTextType;
+
+  @Expose()
+  type: ExamQuestionType;
+
+  @Expose()
+  points: number;
+
+  @Expose()
+  difficulty: QuestionBankItemDifficulty;
+
+  @Expose()
+  topic: string;
+
+  @Expose()
+  numericAnswer: number;
+
+  @Expose()
+  numericTolerance: number;
+
+  @Expose()
+  numericToleranceType: ExamNumericToleranceType;
+
+  @Expose()
+  multipleSelectScoring: ExamMultipleSelectScoring;
+
+  @Expose()
+  acceptedAnswers: string[];
+
+  @Expose()
+  caseSensitive: boolean;
+
+  @Expose()
+  @Type(() => LessonResponseDto)
+  lesson: LessonResponseDto;
+
+  @Expose()
+  @Type(() => QuestionBankItemChoiceResponseDto)
+  choices: QuestionBankItemChoiceResponseDto[];
+}
@@ -0,0 +1,93 @@
+import { Type } from 'class-transformer';
+import {
+  ArrayMinSize,
+  IsArray,
+  IsBoolean,
+  IsEnum,
+  IsInt,
+  IsNumber,
+  IsOptional,
+  IsPositive,
+  IsString,
+  MaxLength,
+  Min,
+  MinLength,
+  ValidateNested,
+} from 'class-validator';
+
+import { ExActTextType } from '#/common/enums/content.enum';
+import {
+  ExamMultipleSelectScoring,
+  ExamNumericToleranceType,
+  ExamQuestionType,
+} from '#/modules/exam/enums/exam.enum';
+import { QuestionBankItemDifficulty } from '../enums/question-bank.enum';
+import { QuestionBankItemChoiceUpdateDto } from './question-bank-item-choice-update.dto';
+
+export class QuestionBankItemUpdateDto {
+  @IsString()
+  @IsOptional()
+  text: string;
+
+  @IsEnum(ExActTextType)
+  @IsOptional()
+  textType: ExActTextType;
+
+  @IsEnum(ExamQuestionType)
+  @IsOptional()
+  type: ExamQuestionType;
+
+  @IsNumber()
+  @IsPositive()
+  @IsOptional()
+  points: number;
+
+  @IsEnum(QuestionBankItemDifficulty)
+  @IsOptional()
+  difficulty: QuestionBankItemDifficulty;
+
+  @IsString()
+  @MinLength(1)
+  @MaxLength(255)
+  @IsOptional()
+  topic: string;
+
+  @IsInt()
+  @IsPositive()
+  @IsOptional()
+  lessonId: number;
+
+  @IsNumber()
+  @IsOptional()
+  numericAnswer: number;
+
+  @IsNumber()
+  @Min(0)
+  @IsOptional()
+  numericTolerance: number;
+
+  @IsEnum(ExamNumericToleranceType)
+  @IsOptional()
+  numericToleranceType: ExamNumericToleranceType;
+
+  @IsEnum(ExamMultipleSelectScoring)
+  @IsOptional()
+  multipleSelectScoring: ExamMultipleSelectScoring;
+
+  @IsArray()
+  @IsString({ each: true })
+  @MinLength(1, { each: true })
+  @IsOptional()
+  acceptedAnswers: string[];
+
+  @IsBoolean()
+  @IsOptional()
+  caseSensitive: boolean;
+
+  @IsArray()
+  @ArrayMinSize(2)
+  @ValidateNested({ each: true })
+  @IsOptional()
+  @Type(() => QuestionBankItemChoiceUpdateDto)
+  choices: QuestionBankItemChoiceUpdateDto[];
+}
@@ -0,0 +1,36 @@
+import { Column, Entity, ManyToOne } from 'typeorm';
+
+import { ExActTextType } from '#/common/enums/content.enum';
+import { Base as BaseEntity } from '#/common/entities/base.entity';
+import { QuestionBankItem } from './question-bank-item.entity';
+
+@Entity()
+export class QuestionBankItemChoice extends BaseEntity {
+  @Column({ type: 'int' })
+  orderNumber: number;
+
+  @Column({ type: 'text' })
+  text: string;
+
+  @Column({
+    type: 'enum',
+    enum: ExActTextType,
+    default: ExActTextType.Text,
+  })
+  textType: ExActTextType;
+
+  @Column({ type: 'boolean', default: false })
+  isCorrect: boolean;
+
+  @Column({ type: 'float', nullable: true })
+  creditWeight: number;
+
+  @ManyToOne(
+    () => QuestionBankItem,
+    (questionBankItem) => questionBankItem.choices,
+    {
+      onDelete: 'CASCADE',
+    },
+  )
+  item: QuestionBankItem;
+}
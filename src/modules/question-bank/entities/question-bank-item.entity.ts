@@ -0,0 +1,89 @@
+import { Column, Entity, JoinColumn, ManyToOne, OneToMany } from 'typeorm';
+
+import { ExActTextType } from '#/common/enums/content.enum';
+import { Base as BaseEntity } from '#/common/entities/base.entity';
+import { TeacherUserAccount } from '#/modules/user/entities/teacher-user-account.entity';
+import { Lesson } from '#/modules/lesson/entities/lesson.entity';
+import {
+  ExamMultipleSelectScoring,
+  ExamNumericToleranceType,
+  ExamQuestionType,
+} from '#/modules/exam/enums/exam.enum';
+import { QuestionBankItemDifficulty } from '../enums/question-bank.enum';
+import { QuestionBankItemChoice } from './question-bank-item-choice.entity';
+
+@Entity()
+export class QuestionBankItem extends BaseEntity {
+  @Column({ type: 'text' })
+  text: string;
+
+  @Column({
+    type: 'enum',
+    enum: ExActTextType,
+    default: ExActTextType.Text,
+  })
+  textType: ExActTextType;
+
+  @Column({
+    type: 'enum',
+    enum: ExamQuestionType,
+    default: ExamQuestionType.SingleChoice,
+  })
+  type: ExamQuestionType;
+
+  @Column({ type: 'float', nullable: true })
+  points: number;
+
+  @Column({
+    type: 'enum',
+    enum: QuestionBankItemDifficulty,
+    default: QuestionBankItemDifficulty.Medium,
+  })
+  difficulty: QuestionBankItemDifficulty;
+
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  topic: string;
+
+  // For numeric questions
+  @Column({ type: 'float', nullable: true })
+  numericAnswer: number;
+
+  @Column({ type: 'float', default: 0 })
+  numericTolerance: number;
+
+  @Column({
+    type: 'enum',
+    enum: ExamNumericToleranceType,
+    default: ExamNumericToleranceType.Absolute,
+  })
+  numericToleranceType: ExamNumericToleranceType;
+
+  // For multiple select questions
+  @Column({
+    type: 'enum',
+    enum: ExamMultipleSelectScoring,
+    default: ExamMultipleSelectScoring.AllOrNothing,
+  })
+  multipleSelectScoring: ExamMultipleSelectScoring;
+
+  // For fill in the blank questions
+  @Column({ type: 'text', array: true, default: [] })
+  acceptedAnswers: string[];
+
+  @Column({ type: 'boolean', default: false })
+  caseSensitive: boolean;
+
+  @OneToMany(
+    () => QuestionBankItemChoice,
+    (questionBankItemChoice) => questionBankItemChoice.item,
+    { cascade: true },
+  )
+  choices: QuestionBankItemChoice[];
+
+  @ManyToOne(() => Lesson, { nullable: true, onDelete: 'SET NULL' })
+  lesson: Lesson;
+
+  @ManyToOne(() => TeacherUserAccount, { onDelete: 'CASCADE' })
+  @JoinColumn()
+  teacher: TeacherUserAccount;
+}
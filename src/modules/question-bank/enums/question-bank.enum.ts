@@ -0,0 +1,5 @@
+export enum QuestionBankItemDifficulty {
+  Easy = 'easy',
+  Medium = 'medium',
+  Hard = 'hard',
+}
@@ -0,0 +1,102 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  Patch,
+  Post,
+  Query,
+} from '@nestjs/common';
+
+import { UseFilterFieldsInterceptor } from '#/common/interceptors/filter-fields.interceptor';
+import { UseSerializeInterceptor } from '#/common/interceptors/serialize.interceptor';
+import { UseAuthGuard } from '#/common/guards/auth.guard';
+import { User } from '../user/entities/user.entity';
+import { UserRole } from '../user/enums/user.enum';
+import { CurrentUser } from '../user/decorators/current-user.decorator';
+import { QuestionBankItem } from './entities/question-bank-item.entity';
+import { QuestionBankItemResponseDto } from './dtos/question-bank-item-response.dto';
+import { QuestionBankItemCreateDto } from './dtos/question-bank-item-create.dto';
+import { QuestionBankItemUpdateDto } from './dtos/question-bank-item-update.dto';
+import { QuestionBankService } from './question-bank.service';
+
+const TEACHER_URL = '/teachers';
+
+@Controller('question-banks')
+export class QuestionBankController {
+  constructor(private readonly questionBankService: QuestionBankService) {}
+
+  // TEACHERS
+
+  // Fetch question bank items for the current teacher user
+  @Get(`${TEACHER_URL}/list`)
+  @UseAuthGuard(UserRole.Teacher)
+  @UseFilterFieldsInterceptor(true)
+  @UseSerializeInterceptor(QuestionBankItemResponseDto)
+  getPaginatedItemsByTeacherId(
+    @CurrentUser() user: User,
+    @Query('q') q?: string,
+    @Query('lesson') lessonId?: number,
+    @Query('topic') topic?: string,
+    @Query('difficulty') difficulty?: string,
+    @Query('type') type?: string,
+    @Query('sort') sort?: string,
+    @Query('take') take?: number,
+    @Query('skip') skip?: number,
+  ): Promise<[QuestionBankItem[], number]> {
+    const { id: teacherId } = user.teacherUserAccount;
+    return this.questionBankService.getPaginatedItemsByTeacherId(
+      teacherId,
+      sort,
+      !!take ? take : undefined,
+      !!skip ? skip : undefined,
+      q,
+      !!lessonId ? lessonId : undefined,
+      topic,
+      difficulty,
+      type,
+    );
+  }
+
+  @Get(`/:id${TEACHER_URL}`)
+  @UseAuthGuard(UserRole.Teacher)
+  @UseSerializeInterceptor(QuestionBankItemResponseDto)
+  getOneByIdAndTeacherId(
+    @Param('id') id: number,
+    @CurrentUser() user: User,
+  ): Promise<QuestionBankItem> {
+    const { id: teacherId } = user.teacherUserAccount;
+    return this.questionBankService.getOneByIdAndTeacherId(id, teacherId);
+  }
+
+  @Post()
+  @UseAuthGuard(UserRole.Teacher)
+  @UseSerializeInterceptor(QuestionBankItemResponseDto)
+  create(
+    @Body() body: QuestionBankItemCreateDto,
+    @CurrentUser() user: User,
+  ): Promise<QuestionBankItem> {
+    const { id: teacherId } = user.teacherUserAccount;
+    return this.questionBankService.create(body, teacherId);
+  }
+
+  @Patch('/:id')
+  @UseAuthGuard(UserRole.Teacher)
+  @UseSerializeInterceptor(QuestionBankItemResponseDto)
+  update(
+    @Param('id') id: number,
+    @Body() body: QuestionBankItemUpdateDto,
+    @CurrentUser() user: User,
+  ): Promise<QuestionBankItem> {
+    const { id: teacherId } = user.teacherUserAccount;
+    return this.questionBankService.update(id, body, teacherId);
+  }
+
+  @Delete('/:id')
+  @UseAuthGuard(UserRole.Teacher)
+  delete(@Param('id') id: number, @CurrentUser() user: User): Promise<boolean> {
+    const { id: teacherId } = user.teacherUserAccount;
+    return this.questionBankService.delete(id, teacherId);
+  }
+}
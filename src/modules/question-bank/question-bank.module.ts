@@ -0,0 +1,21 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+
+import { UserModule } from '../user/user.module';
+import { LessonModule } from '../lesson/lesson.module';
+import { QuestionBankItem } from './entities/question-bank-item.entity';
+import { QuestionBankItemChoice } from './entities/question-bank-item-choice.entity';
+import { QuestionBankController } from './question-bank.controller';
+import { QuestionBankService } from './question-bank.service';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([QuestionBankItem, QuestionBankItemChoice]),
+    UserModule,
+    LessonModule,
+  ],
+  controllers: [QuestionBankController],
+  providers: [QuestionBankService],
+  exports: [QuestionBankService],
+})
+export class QuestionBankModule {}
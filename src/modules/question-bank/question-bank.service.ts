@@ -0,0 +1,217 @@
+import {
+  BadRequestException,
+  Inject,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import {
+  FindOptionsOrder,
+  FindOptionsWhere,
+  ILike,
+  In,
+  Repository,
+} from 'typeorm';
+
+import { DEFAULT_TAKE } from '#/common/helpers/pagination.helper';
+import { ExamQuestionType } from '../exam/enums/exam.enum';
+import { LessonService } from '../lesson/lesson.service';
+import { QuestionBankItem } from './entities/question-bank-item.entity';
+import { QuestionBankItemChoice } from './entities/question-bank-item-choice.entity';
+import { QuestionBankItemCreateDto } from './dtos/question-bank-item-create.dto';
+import { QuestionBankItemUpdateDto } from './dtos/question-bank-item-update.dto';
+
+@Injectable()
+export class QuestionBankService {
+  constructor(
+    @InjectRepository(QuestionBankItem)
+    private readonly questionBankItemRepo: Repository<QuestionBankItem>,
+    @InjectRepository(QuestionBankItemChoice)
+    private readonly questionBankItemChoiceRepo: Repository<QuestionBankItemChoice>,
+    @Inject(LessonService)
+    private readonly lessonService: LessonService,
+  ) {}
+
+  getPaginatedItemsByTeacherId(
+    teacherId: number,
+    sort: string,
+    take: number = DEFAULT_TAKE,
+    skip: number = 0,
+    q?: string,
+    lessonId?: number,
+    topic?: string,
+    difficulty?: string,
+    type?: string,
+  ): Promise<[QuestionBankItem[], number]> {
+    const generateWhere = () => {
+      let baseWhere: FindOptionsWhere<QuestionBankItem> = {
+        teacher: { id: teacherId },
+      };
+
+      if (q?.trim()) {
+        baseWhere = { ...baseWhere, text: ILike(`%${q}%`) };
+      }
+
+      if (lessonId) {
+        baseWhere = { ...baseWhere, lesson: { id: lessonId } };
+      }
+
+      if (topic?.trim()) {
+        baseWhere = { ...baseWhere, topic: ILike(topic.trim()) };
+      }
+
+      if (difficulty?.trim()) {
+        baseWhere = { ...baseWhere, difficulty: In(difficulty.split(',')) };
+      }
+
+      if (type?.trim()) {
+        baseWhere = { ...baseWhere, type: In(type.split(',')) };
+      }
+
+      return baseWhere;
+    };
+
+    const generateOrder = (): FindOptionsOrder<QuestionBankItem> => {
+      if (!sort) {
+        return { createdAt: 'DESC' };
+      }
+
+      const [sortBy, sortOrder] = sort?.split(',') || [];
+      return { [sortBy]: sortOrder };
+    };
+
+    return this.questionBankItemRepo.findAndCount({
+      where: generateWhere(),
+      relations: { lesson: true, choices: true },
+      order: generateOrder(),
+      skip,
+      take,
+    });
+  }
+
+  getItemsByIdsAndTeacherId(
+    ids: number[],
+    teacherId: number,
+  ): Promise<QuestionBankItem[]> {
+    return this.questionBankItemRepo.find({
+      where: { id: In(ids), teacher: { id: teacherId } },
+      relations: { choices: true },
+      order: { choices: { orderNumber: 'ASC' } },
+    });
+  }
+
+  async getOneByIdAndTeacherId(
+    id: number,
+    teacherId: number,
+  ): Promise<QuestionBankItem> {
+    const item = await this.questionBankItemRepo.findOne({
+      where: { id, teacher: { id: teacherId } },
+      relations: { lesson: true, choices: true },
+      order: { choices: { orderNumber: 'ASC' } },
+    });
+
+    if (!item) {
+      throw new NotFoundException('Question not found');
+    }
+
+    return item;
+  }
+
+  async validateUpsert(
+    itemDto: QuestionBankItemCreateDto | QuestionBankItemUpdateDto,
+    teacherId: number,
+    item?: QuestionBankItem,
+  ) {
+    const { lessonId } = itemDto;
+    const type = itemDto.type || item?.type || ExamQuestionType.SingleChoice;
+
+    // Check answer key base on question type
+    if (type === ExamQuestionType.Numeric) {
+      if ((itemDto.numericAnswer ?? item?.numericAnswer) == null) {
+        throw new BadRequestException('Numeric question should have an answer');
+      }
+    } else if (type === ExamQuestionType.FillBlank) {
+      if (!(itemDto.acceptedAnswers || item?.acceptedAnswers)?.length) {
+        throw new BadRequestException(
+          'Fill in the blank question should have at least 1 accepted answer',
+        );
+      }
+    } else {
+      const choices = itemDto.choices || item?.choices || [];
+      if (!choices.some((choice) => choice.isCorrect)) {
+        throw new BadRequestException(
+          'Question should have at least 1 correct choice',
+        );
+      }
+    }
+
+    // Validate if lesson is owned by current user teacher
+    if (lessonId) {
+      const lessons = await this.lessonService.getTeacherLessonsByTeacherId(
+        teacherId,
+        undefined,
+        [lessonId],
+      );
+
+      if (!lessons.length) {
+        throw new BadRequestException('Lesson is invalid');
+      }
+    }
+  }
+
+  async create(
+    itemDto: QuestionBankItemCreateDto,
+    teacherId: number,
+  ): Promise<QuestionBankItem> {
+    const { lessonId, ...moreItemDto } = itemDto;
+
+    await this.validateUpsert(itemDto, teacherId);
+
+    const item = this.questionBankItemRepo.create({
+      ...moreItemDto,
+      topic: moreItemDto.topic?.trim(),
+      lesson: lessonId ? { id: lessonId } : null,
+      teacher: { id: teacherId },
+    });
+    const { id } = await this.questionBankItemRepo.save(item);
+
+    return this.getOneByIdAndTeacherId(id, teacherId);
+  }
+
+  async update(
+    id: number,
+    itemDto: QuestionBankItemUpdateDto,
+    teacherId: number,
+  ): Promise<QuestionBankItem> {
+    const { lessonId, choices, ...moreItemDto } = itemDto;
+    const item = await this.getOneByIdAndTeacherId(id, teacherId);
+
+    await this.validateUpsert(itemDto, teacherId, item);
+
+    // Delete choices not included in update
+    if (choices) {
+      const targetChoiceIds = choices.filter((c) => !!c.id).map((c) => c.id);
+      const choicesToDelete = item.choices.filter(
+        (c) => !targetChoiceIds.includes(c.id),
+      );
+      await this.questionBankItemChoiceRepo.remove(choicesToDelete);
+    }
+
+    await this.questionBankItemRepo.save({
+      ...item,
+      ...moreItemDto,
+      ...(choices && { choices }),
+      ...(lessonId !== undefined && {
+        lesson: lessonId ? { id: lessonId } : null,
+      }),
+    });
+
+    return this.getOneByIdAndTeacherId(id, teacherId);
+  }
+
+  async delete(id: number, teacherId: number): Promise<boolean> {
+    const item = await this.getOneByIdAndTeacherId(id, teacherId);
+    const result = await this.questionBankItemRepo.delete({ id: item.id });
+    return !!result.affected;
+  }
+}
@@ -2,6 +2,11 @@ import { ExecutionContext, createParamDecorator } from '@nestjs/common';
 
 export const CurrentUser = createParamDecorator(
   (_: never, context: ExecutionContext) => {
+    // Socket clients get their current user from the auth socket adapter
+    if (context.getType() === 'ws') {
+      return context.switchToWs().getClient().data.currentUser;
+    }
+
     const request = context.switchToHttp().getRequest();
     return request.raw.currentUser;
   },